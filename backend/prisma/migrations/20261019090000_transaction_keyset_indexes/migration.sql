@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "transactions_timestamp_id_idx" ON "transactions"("timestamp", "id");
+
+-- CreateIndex
+CREATE INDEX "transactions_deviceId_timestamp_id_idx" ON "transactions"("deviceId", "timestamp", "id");
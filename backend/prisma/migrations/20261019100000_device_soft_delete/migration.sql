@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "devices" ADD COLUMN     "deletedAt" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "devices" ADD COLUMN     "burstMode" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "maxInterval" INTEGER,
+ADD COLUMN     "minInterval" INTEGER,
+ADD COLUMN     "schedule" TEXT NOT NULL DEFAULT 'always';
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "eventId" TEXT;
+
+-- CreateTable
+CREATE TABLE "device_secrets" (
+    "deviceId" TEXT NOT NULL,
+    "secretHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "device_secrets_pkey" PRIMARY KEY ("deviceId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transactions_deviceId_eventId_key" ON "transactions"("deviceId", "eventId");
+
+-- AddForeignKey
+ALTER TABLE "device_secrets" ADD CONSTRAINT "device_secrets_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "devices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "devices" ADD COLUMN     "lastSeenAt" TIMESTAMP(3),
+ADD COLUMN     "online" BOOLEAN NOT NULL DEFAULT false;
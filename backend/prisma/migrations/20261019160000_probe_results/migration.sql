@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "devices" ADD COLUMN     "latencyMs" INTEGER,
+ADD COLUMN     "port" INTEGER,
+ADD COLUMN     "probedAt" TIMESTAMP(3),
+ADD COLUMN     "reachable" BOOLEAN;
+
+-- CreateTable
+CREATE TABLE "probe_results" (
+    "id" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "ipAddress" TEXT NOT NULL,
+    "port" INTEGER NOT NULL,
+    "reachable" BOOLEAN NOT NULL,
+    "latencyMs" INTEGER,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "probe_results_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "probe_results_deviceId_createdAt_idx" ON "probe_results"("deviceId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "probe_results_createdAt_idx" ON "probe_results"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "probe_results" ADD CONSTRAINT "probe_results_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "devices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
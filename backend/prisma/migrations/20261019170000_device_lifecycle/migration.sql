@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "DeviceStatus" AS ENUM ('provisioning', 'active', 'inactive', 'maintenance', 'faulted', 'decommissioned');
+
+-- AlterTable
+ALTER TABLE "devices" ALTER COLUMN "status" DROP DEFAULT,
+ALTER COLUMN "status" TYPE "DeviceStatus" USING ("status"::"DeviceStatus"),
+ALTER COLUMN "status" SET DEFAULT 'provisioning';
+
+-- AlterTable
+ALTER TABLE "audit_events" ADD COLUMN     "reason" TEXT;
@@ -1,34 +1,239 @@
 import express from "express";
 import cors from "cors";
-import { PrismaClient } from "@prisma/client";
-import { DeviceService, TransactionService } from "./services";
-import { DeviceRepository, TransactionRepository } from "./repositories";
-import { DeviceHandler, TransactionHandler } from "./handlers";
-import { createDeviceRoutes, createTransactionRoutes } from "./routes";
+import { Prisma, PrismaClient } from "@prisma/client";
+import { randomBytes } from "crypto";
+import {
+  AlertService,
+  AuditService,
+  AuthService,
+  DeviceService,
+  EventStreamService,
+  IngestionService,
+  ProbeService,
+  TransactionService,
+  WebhookService,
+} from "./services";
+import {
+  AlertRepository,
+  AlertRuleRepository,
+  ApiKeyRepository,
+  AuditEventRepository,
+  DeviceRepository,
+  DeviceSecretRepository,
+  ProbeResultRepository,
+  TransactionRepository,
+  UserRepository,
+  WebhookDeliveryRepository,
+  WebhookRepository,
+} from "./repositories";
+import {
+  AlertHandler,
+  AuditHandler,
+  AuthHandler,
+  DeviceHandler,
+  IngestionHandler,
+  ProbeHandler,
+  TransactionHandler,
+  WebhookHandler,
+} from "./handlers";
+import {
+  createAlertRoutes,
+  createAuditRoutes,
+  createAuthRoutes,
+  createDeviceRoutes,
+  createIngestionRoutes,
+  createProbeRoutes,
+  createTransactionRoutes,
+  createWebhookRoutes,
+} from "./routes";
+import { authenticate, authorize } from "./middleware";
+import { systemClock } from "./clock";
+import type { Clock } from "./clock";
+import {
+  AppError,
+  ConflictError,
+  NotFoundError,
+  UnavailableError,
+  ValidationError,
+} from "./errors";
+import type { ErrorBody } from "./errors";
+import { PROBE } from "./constants";
 import { logger } from "./utils";
 
-export function createApp() {
+// Prisma error codes for a database that can't be reached or is overloaded
+const PRISMA_UNAVAILABLE_CODES = ["P1001", "P1002", "P1008", "P1017", "P2024"];
+
+/**
+ * Map any thrown value to a domain error, or undefined if it is unexpected
+ */
+export function toAppError(err: any): AppError | undefined {
+  if (err instanceof AppError) {
+    return err;
+  }
+
+  if (err instanceof Prisma.PrismaClientInitializationError) {
+    return new UnavailableError(
+      "SERVICE_UNAVAILABLE",
+      "Database is unavailable"
+    );
+  }
+
+  if (err instanceof Prisma.PrismaClientKnownRequestError) {
+    if (PRISMA_UNAVAILABLE_CODES.includes(err.code)) {
+      return new UnavailableError(
+        "SERVICE_UNAVAILABLE",
+        "Database is unavailable"
+      );
+    }
+    // Record was removed between a lookup and a write
+    if (err.code === "P2025") {
+      return new NotFoundError("RECORD_NOT_FOUND", "Record not found");
+    }
+    if (err.code === "P2002") {
+      return new ConflictError("CONFLICT", "Record already exists");
+    }
+  }
+
+  // Malformed JSON body rejected by express.json()
+  if (err?.type === "entity.parse.failed") {
+    return new ValidationError(
+      "Request body is not valid JSON",
+      [],
+      "INVALID_JSON"
+    );
+  }
+
+  return undefined;
+}
+
+export interface AppOptions {
+  // Time source for transaction generation, e.g. a VirtualClock in tests
+  clock?: Clock;
+  // Makes generated transactions reproducible; defaults to SIMULATION_SEED
+  simulationSeed?: string;
+}
+
+export function createApp(options: AppOptions = {}) {
   const app = express();
   const prisma = new PrismaClient();
 
+  // Trust proxies on private networks (e.g. the frontend's Nginx) so req.ip
+  // is the client's address, as recorded in the audit log
+  app.set("trust proxy", "loopback, linklocal, uniquelocal");
+
   // Middleware
   app.use(cors());
   app.use(express.json());
+  app.use(express.text({ type: "text/csv" }));
 
   // Initialize repositories
   const deviceRepository = new DeviceRepository(prisma);
   const transactionRepository = new TransactionRepository(prisma);
+  const userRepository = new UserRepository(prisma);
+  const apiKeyRepository = new ApiKeyRepository(prisma);
+  const auditEventRepository = new AuditEventRepository(prisma);
+  const deviceSecretRepository = new DeviceSecretRepository(prisma);
+  const probeResultRepository = new ProbeResultRepository(prisma);
+  const alertRuleRepository = new AlertRuleRepository(prisma);
+  const alertRepository = new AlertRepository(prisma);
+  const webhookRepository = new WebhookRepository(prisma);
+  const webhookDeliveryRepository = new WebhookDeliveryRepository(prisma);
+
+  // Tokens signed with a generated secret stop working on restart
+  let tokenSecret = process.env.JWT_SECRET;
+  if (!tokenSecret) {
+    logger.warn("JWT_SECRET is not set; using a random secret for this run");
+    tokenSecret = randomBytes(32).toString("hex");
+  }
 
   // Initialize services
+  const clock = options.clock ?? systemClock;
+  const eventStreamService = new EventStreamService(clock);
   const deviceService = new DeviceService(
     deviceRepository,
-    transactionRepository
+    transactionRepository,
+    eventStreamService,
+    auditEventRepository,
+    deviceSecretRepository,
+    clock,
+    options.simulationSeed ?? (process.env.SIMULATION_SEED || undefined)
+  );
+  const ingestionService = new IngestionService(
+    deviceRepository,
+    deviceSecretRepository,
+    transactionRepository,
+    eventStreamService,
+    clock,
+    Number(process.env.DEVICE_OFFLINE_AFTER) * 1000 || undefined
+  );
+  const probeService = new ProbeService(
+    deviceRepository,
+    probeResultRepository,
+    eventStreamService,
+    clock,
+    undefined,
+    Number(process.env.PROBE_TIMEOUT) || undefined
+  );
+  const transactionService = new TransactionService(
+    transactionRepository,
+    deviceRepository,
+    clock
+  );
+  const auditService = new AuditService(auditEventRepository, deviceRepository);
+  const alertService = new AlertService(
+    alertRuleRepository,
+    alertRepository,
+    transactionRepository,
+    deviceRepository,
+    eventStreamService,
+    clock
+  );
+  const webhookService = new WebhookService(
+    webhookRepository,
+    webhookDeliveryRepository,
+    eventStreamService,
+    clock,
+    undefined,
+    Number(process.env.WEBHOOK_TIMEOUT) || undefined
+  );
+  const authService = new AuthService(
+    userRepository,
+    apiKeyRepository,
+    tokenSecret
+  );
+
+  // Create the initial admin user on a fresh database
+  authService.ensureAdminUser(
+    process.env.ADMIN_USERNAME || "admin",
+    process.env.ADMIN_PASSWORD
   );
-  const transactionService = new TransactionService(transactionRepository);
+
+  // Bring the in-memory generators back in line with devices stored as active
+  deviceService.resumeActiveDevices();
+  ingestionService.startOfflineSweep();
+  alertService.start();
+  webhookService.start();
+
+  // Probe device addresses on an interval; PROBE_INTERVAL=0 turns it off
+  const probeInterval = process.env.PROBE_INTERVAL
+    ? Number(process.env.PROBE_INTERVAL) * 1000
+    : PROBE.INTERVAL;
+  if (probeInterval > 0) {
+    probeService.startProbing(probeInterval);
+  }
 
   // Initialize handlers
   const deviceHandler = new DeviceHandler(deviceService);
-  const transactionHandler = new TransactionHandler(transactionService);
+  const transactionHandler = new TransactionHandler(
+    transactionService,
+    eventStreamService
+  );
+  const authHandler = new AuthHandler(authService);
+  const auditHandler = new AuditHandler(auditService);
+  const ingestionHandler = new IngestionHandler(ingestionService);
+  const probeHandler = new ProbeHandler(probeService);
+  const alertHandler = new AlertHandler(alertService);
+  const webhookHandler = new WebhookHandler(webhookService);
 
   // Health check route
   app.get("/health", (req, res) => {
@@ -36,12 +241,31 @@ export function createApp() {
       status: "ok",
       timestamp: new Date().toISOString(),
       activeDevices: deviceService.getActiveDeviceCount(),
+      streamSubscribers: eventStreamService.getSubscriberCount(),
     });
   });
 
-  // Register routes
+  // Identify the caller on every request; routes decide what it may do
+  app.use(authenticate(authService));
+
+  // Register routes. Everything after the auth and device ingestion routes
+  // needs at least the viewer role.
+  app.use("/", createAuthRoutes(authHandler));
+  app.use("/", createIngestionRoutes(ingestionHandler));
+  app.use("/", authorize("viewer"));
   app.use("/", createDeviceRoutes(deviceHandler));
   app.use("/", createTransactionRoutes(transactionHandler));
+  app.use("/", createProbeRoutes(probeHandler));
+  app.use("/", createAuditRoutes(auditHandler));
+  app.use("/", createAlertRoutes(alertHandler));
+  app.use("/", createWebhookRoutes(webhookHandler));
+
+  // Unknown routes
+  app.use((req, res, next) => {
+    next(
+      new NotFoundError("ROUTE_NOT_FOUND", `Cannot ${req.method} ${req.path}`)
+    );
+  });
 
   // Error handling middleware
   app.use(
@@ -51,8 +275,22 @@ export function createApp() {
       res: express.Response,
       next: express.NextFunction
     ) => {
-      logger.error("Unhandled error:", err);
-      res.status(500).json({ error: "Internal server error" });
+      const appError = toAppError(err);
+
+      if (!appError) {
+        logger.error("Unhandled error:", err);
+        const body: ErrorBody = {
+          error: "Internal server error",
+          code: "INTERNAL_ERROR",
+        };
+        res.status(500).json(body);
+        return;
+      }
+
+      if (appError.status >= 500) {
+        logger.error(`${appError.code}:`, err);
+      }
+      res.status(appError.status).json(appError.toBody());
     }
   );
 
@@ -60,6 +298,10 @@ export function createApp() {
   const shutdown = () => {
     logger.info("🛑 Shutting down server...");
     deviceService.stopAllProcesses();
+    ingestionService.stopOfflineSweep();
+    probeService.stopProbing();
+    alertService.stop();
+    webhookService.stop();
     prisma.$disconnect();
     process.exit(0);
   };
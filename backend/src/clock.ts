@@ -0,0 +1,96 @@
+/**
+ * Time source for the transaction simulator. Services take a Clock instead
+ * of calling Date and setTimeout directly so tests can control time.
+ */
+
+export type TimerCallback = () => void | Promise<void>;
+
+export interface Clock {
+  now(): Date;
+  // Run a callback after a delay, returning a function that cancels it
+  schedule(callback: TimerCallback, delay: number): () => void;
+}
+
+/**
+ * Wall-clock time with real timers
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+  schedule: (callback, delay) => {
+    const timeout = setTimeout(callback, delay);
+    return () => clearTimeout(timeout);
+  },
+};
+
+interface VirtualTimer {
+  id: number;
+  due: number;
+  callback: TimerCallback;
+}
+
+/**
+ * Clock that only moves when advanced. Timers run in due order, each one
+ * finishing (including any promise it returns) before the next starts, so
+ * a seeded simulation produces the same sequence on every run.
+ */
+export class VirtualClock implements Clock {
+  private current: number;
+  private timers: VirtualTimer[] = [];
+  private nextId = 1;
+
+  constructor(start: Date = new Date(0)) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  schedule(callback: TimerCallback, delay: number): () => void {
+    const id = this.nextId++;
+    this.timers.push({
+      id,
+      due: this.current + Math.max(0, delay),
+      callback,
+    });
+    return () => {
+      this.timers = this.timers.filter((timer) => timer.id !== id);
+    };
+  }
+
+  /**
+   * Move time forward, running every timer that falls due on the way,
+   * including timers scheduled by those timers
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.current + ms;
+
+    for (;;) {
+      const next = this.timers
+        .filter((timer) => timer.due <= target)
+        .reduce<VirtualTimer | undefined>(
+          (earliest, timer) =>
+            !earliest ||
+            timer.due < earliest.due ||
+            (timer.due === earliest.due && timer.id < earliest.id)
+              ? timer
+              : earliest,
+          undefined
+        );
+      if (!next) break;
+
+      this.timers = this.timers.filter((timer) => timer !== next);
+      this.current = next.due;
+      await next.callback();
+    }
+
+    this.current = target;
+  }
+
+  /**
+   * Get the number of timers waiting to run
+   */
+  getPendingCount(): number {
+    return this.timers.length;
+  }
+}
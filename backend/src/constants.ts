@@ -1,5 +1,26 @@
 export const DEVICE_TYPES = ["access_controller", "face_reader", "anpr"];
 
+// Only active devices generate or accept transactions
+export const DEVICE_STATUSES = [
+  "provisioning",
+  "active",
+  "inactive",
+  "maintenance",
+  "faulted",
+  "decommissioned",
+] as const;
+export type DeviceStatus = (typeof DEVICE_STATUSES)[number];
+
+// Statuses each status may move to; decommissioned is final
+export const DEVICE_TRANSITIONS: Record<DeviceStatus, DeviceStatus[]> = {
+  provisioning: ["active", "inactive", "decommissioned"],
+  active: ["inactive", "maintenance", "faulted"],
+  inactive: ["active", "maintenance", "decommissioned"],
+  maintenance: ["active", "inactive", "decommissioned"],
+  faulted: ["maintenance", "inactive"],
+  decommissioned: [],
+};
+
 export const SAMPLE_USERNAMES = [
   "john_doe",
   "jane_smith",
@@ -19,7 +40,126 @@ export const EVENT_TYPES = [
   "unauthorized_access",
 ];
 
-export const TRANSACTION_INTERVAL = {
-  MIN: 1000, // 1 second
-  MAX: 5000, // 5 seconds
+export const SIMULATION_SCHEDULES = ["always", "business_hours"];
+
+export const SIMULATION = {
+  MIN_INTERVAL: 100, // Bounds for a device's own interval range, in ms
+  MAX_INTERVAL: 60 * 60 * 1000,
+  BURST_CHANCE: 0.1, // Chance of a burst after each transaction
+  BURST_SIZE: { min: 3, max: 10 }, // Transactions per burst
+  BURST_INTERVAL: { min: 100, max: 500 }, // Delay within a burst, in ms
+  MAX_BACKFILL_RATE: 36000, // Transactions per hour, 10 per second
+  MAX_BACKFILL_ROWS: 100000, // Transactions written by one backfill
+  BACKFILL_BATCH_SIZE: 1000, // Rows per createMany
+};
+
+export const EVENT_STREAM = {
+  BUFFER_SIZE: 500, // Events kept in memory for Last-Event-ID resume
+  HEARTBEAT_INTERVAL: 15000, // 15 seconds
+  RETRY_INTERVAL: 3000, // Client reconnect delay, 3 seconds
+};
+
+export const BULK = {
+  MAX_DEVICES: 1000, // Devices per import or bulk action
 };
+
+export const EXPORT_BATCH_SIZE = 1000; // Rows fetched per query when exporting
+
+export const EXPORT_FORMATS = ["csv", "ndjson"];
+
+export const STATS = {
+  DEFAULT_RANGE: 24 * 60 * 60 * 1000, // Range when no 'from' is given, 1 day
+  MAX_BUCKETS: 1500, // Buckets per request
+  DEFAULT_TOP: 10, // Entries in each top-N list
+};
+
+export const STATS_BUCKETS = ["minute", "hour", "day"] as const;
+export const STATS_GROUP_BY = ["eventType", "deviceId", "deviceType"] as const;
+export type StatsBucket = (typeof STATS_BUCKETS)[number];
+export type StatsGroupBy = (typeof STATS_GROUP_BY)[number];
+
+export const HEARTBEAT = {
+  OFFLINE_AFTER: 90000, // Silence before a device is offline, 90 seconds
+  SWEEP_INTERVAL: 15000, // How often to look for silent devices, 15 seconds
+};
+
+export const PROBE = {
+  INTERVAL: 60000, // Time between probe rounds, 1 minute
+  TIMEOUT: 3000, // TCP connect timeout, 3 seconds
+  CONCURRENCY: 10, // Devices probed at once
+  DEFAULT_PORT: 80, // For devices without a port of their own
+  HISTORY_RETENTION: 7 * 24 * 60 * 60 * 1000, // Results kept, 7 days
+};
+
+export const INGESTION = {
+  MAX_BATCH_SIZE: 500, // Events per request
+  SECRET_HEADER: "X-Device-Secret",
+  SECRET_PREFIX: "elid_dev_",
+};
+
+export const ALERTS = {
+  SILENCE_SWEEP_INTERVAL: 60000, // Time between silence checks, 1 minute
+  MAX_WINDOW: 24 * 60 * 60, // Longest rule window, 1 day, in seconds
+};
+
+export const ALERT_RULE_TYPES = ["event", "threshold", "silence"] as const;
+export const ALERT_GROUP_BY = ["username", "device"] as const;
+export const ALERT_SEVERITIES = ["info", "warning", "critical"] as const;
+export const ALERT_STATUSES = ["open", "acknowledged", "resolved"] as const;
+export type AlertRuleType = (typeof ALERT_RULE_TYPES)[number];
+export type AlertStatus = (typeof ALERT_STATUSES)[number];
+
+export const WEBHOOKS = {
+  DISPATCH_INTERVAL: 1000, // Time between delivery rounds, 1 second
+  TIMEOUT: 10000, // Request timeout, 10 seconds
+  CONCURRENCY: 5, // Deliveries sent at once
+  BATCH_SIZE: 100, // Due deliveries picked up per round
+  MAX_ATTEMPTS: 8, // Attempts before a delivery is dead
+  RETRY_DELAY: 15000, // Wait after the first failure, doubled after each
+  MAX_RETRY_DELAY: 60 * 60 * 1000, // Longest wait between attempts, 1 hour
+  RETENTION: 7 * 24 * 60 * 60 * 1000, // Finished deliveries kept, 7 days
+  PRUNE_INTERVAL: 60 * 60 * 1000, // Time between retention sweeps, 1 hour
+  SECRET_PREFIX: "elid_whk_",
+  ID_HEADER: "X-Webhook-Id",
+  EVENT_HEADER: "X-Webhook-Event",
+  TIMESTAMP_HEADER: "X-Webhook-Timestamp",
+  SIGNATURE_HEADER: "X-Webhook-Signature",
+};
+
+export const WEBHOOK_EVENTS = ["transaction", "device", "alert"] as const;
+export const WEBHOOK_DELIVERY_STATUSES = [
+  "pending",
+  "delivered",
+  "dead",
+] as const;
+
+// Ordered from least to most privileged; each role can do everything the
+// roles before it can
+export const ROLES = ["viewer", "operator", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const AUTH = {
+  TOKEN_TTL: 12 * 60 * 60, // 12 hours, in seconds
+  URL_TOKEN_TTL: 60, // Tokens for stream and export URLs, 1 minute, in seconds
+  API_KEY_PREFIX: "elid_",
+  MIN_PASSWORD_LENGTH: 8,
+};
+
+// GET routes that accept a URL token, since EventSource and download links
+// can't set headers
+export const URL_TOKEN_PATHS = [
+  "/transactions/stream",
+  "/transactions/export",
+] as const;
+export type UrlTokenPath = (typeof URL_TOKEN_PATHS)[number];
+
+export const AUDIT_ACTIONS = [
+  "created",
+  "updated",
+  "activated",
+  "deactivated",
+  "transitioned",
+  "archived",
+  "restored",
+  "purged",
+];
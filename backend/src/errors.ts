@@ -0,0 +1,131 @@
+/**
+ * Domain errors thrown by services and mapped to HTTP responses by the
+ * error middleware
+ */
+
+/**
+ * Stable, machine-readable error codes returned in every error response
+ */
+export type ErrorCode =
+  | "VALIDATION_FAILED"
+  | "INVALID_JSON"
+  | "ROUTE_NOT_FOUND"
+  | "UNAUTHENTICATED"
+  | "INVALID_CREDENTIALS"
+  | "INVALID_TOKEN"
+  | "INVALID_API_KEY"
+  | "FORBIDDEN"
+  | "USERNAME_TAKEN"
+  | "API_KEY_NOT_FOUND"
+  | "INVALID_DEVICE_SECRET"
+  | "DEVICE_SECRET_NOT_FOUND"
+  | "RECORD_NOT_FOUND"
+  | "DEVICE_NOT_FOUND"
+  | "DEVICE_NAME_TAKEN"
+  | "DEVICE_ARCHIVED"
+  | "DEVICE_NOT_ARCHIVED"
+  | "DEVICE_ALREADY_ACTIVE"
+  | "DEVICE_ALREADY_INACTIVE"
+  | "DEVICE_INACTIVE"
+  | "DEVICE_ACTIVE"
+  | "INVALID_TRANSITION"
+  | "ALERT_NOT_FOUND"
+  | "ALERT_RULE_NOT_FOUND"
+  | "ALERT_ALREADY_ACKNOWLEDGED"
+  | "ALERT_RESOLVED"
+  | "WEBHOOK_NOT_FOUND"
+  | "WEBHOOK_DELIVERY_NOT_FOUND"
+  | "WEBHOOK_DELIVERY_NOT_DEAD"
+  | "CONFLICT"
+  | "SERVICE_UNAVAILABLE"
+  | "INTERNAL_ERROR";
+
+export interface ErrorDetail {
+  location: "params" | "query" | "body";
+  field: string;
+  message: string;
+}
+
+/**
+ * Body of every error response
+ */
+export interface ErrorBody {
+  error: string;
+  code: ErrorCode;
+  // Per-field problems, only present for validation failures
+  details?: ErrorDetail[];
+}
+
+/**
+ * Base class for errors with a known HTTP status and error code
+ */
+export abstract class AppError extends Error {
+  abstract readonly status: number;
+  readonly code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+  }
+
+  toBody(): ErrorBody {
+    return { error: this.message, code: this.code };
+  }
+}
+
+/**
+ * The request has no valid credentials (401)
+ */
+export class UnauthorizedError extends AppError {
+  override readonly status = 401;
+}
+
+/**
+ * The caller's role does not allow the request (403)
+ */
+export class ForbiddenError extends AppError {
+  override readonly status = 403;
+}
+
+/**
+ * The requested resource does not exist (404)
+ */
+export class NotFoundError extends AppError {
+  override readonly status = 404;
+}
+
+/**
+ * The request conflicts with the resource's current state (409)
+ */
+export class ConflictError extends AppError {
+  override readonly status = 409;
+}
+
+/**
+ * The request is malformed or has invalid fields (400)
+ */
+export class ValidationError extends AppError {
+  override readonly status = 400;
+  readonly details: ErrorDetail[];
+
+  constructor(
+    message: string,
+    details: ErrorDetail[] = [],
+    code: ErrorCode = "VALIDATION_FAILED"
+  ) {
+    super(code, message);
+    this.details = details;
+  }
+
+  override toBody(): ErrorBody {
+    return { ...super.toBody(), details: this.details };
+  }
+}
+
+/**
+ * A dependency such as the database can't be reached (503)
+ */
+export class UnavailableError extends AppError {
+  override readonly status = 503;
+}
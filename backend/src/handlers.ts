@@ -1,146 +1,900 @@
+import { once } from "events";
 import type { Request, Response } from "express";
-import { DeviceService, TransactionService } from "./services";
+import type { z } from "zod";
+import {
+  AlertService,
+  AuditService,
+  AuthService,
+  DeviceService,
+  EventStreamService,
+  IngestionService,
+  ProbeService,
+  TransactionService,
+  WebhookService,
+} from "./services";
+import type {
+  AuditContext,
+  ExportRecord,
+  Principal,
+  StreamEvent,
+} from "./services";
+import type {
+  SortDirection,
+  TransactionCursor,
+  TransactionFilters,
+} from "./repositories";
+import {
+  alertQuerySchema,
+  auditQuerySchema,
+  backfillBodySchema,
+  bulkSelectionBodySchema,
+  connectivityQuerySchema,
+  createAlertRuleBodySchema,
+  createApiKeyBodySchema,
+  createDeviceBodySchema,
+  createUserBodySchema,
+  createWebhookBodySchema,
+  deadLetterQuerySchema,
+  deviceTransactionQuerySchema,
+  exportQuerySchema,
+  historyQuerySchema,
+  importDevicesBodySchema,
+  ingestEventsBodySchema,
+  listDevicesQuerySchema,
+  loginBodySchema,
+  simulationConfigBodySchema,
+  statsQuerySchema,
+  streamQuerySchema,
+  transactionQuerySchema,
+  transitionBodySchema,
+  updateAlertRuleBodySchema,
+  updateDeviceBodySchema,
+  updateWebhookBodySchema,
+  urlTokenBodySchema,
+  webhookDeliveryQuerySchema,
+} from "./schemas";
+import { EVENT_STREAM, INGESTION } from "./constants";
+import { ValidationError } from "./errors";
+import { decodeCursor, logger, toCsvRow } from "./utils";
+
+/**
+ * Map validated transaction query fields to repository filters
+ */
+function toTransactionFilters(
+  query: z.output<
+    | typeof transactionQuerySchema
+    | typeof exportQuerySchema
+    | typeof deviceTransactionQuerySchema
+  >
+): TransactionFilters & { sort?: SortDirection } {
+  return {
+    deviceId: "deviceId" in query ? query.deviceId : undefined,
+    from: query.from,
+    to: query.to,
+    eventTypes: query.eventType,
+    username: query.username,
+    usernamePrefix: query.usernamePrefix,
+    deviceType: query.deviceType,
+    sort: query.sort,
+  };
+}
+
+/**
+ * Decode the optional pagination cursor, throwing if it is malformed
+ */
+function decodeCursorParam(
+  cursor: string | undefined
+): TransactionCursor | undefined {
+  if (cursor === undefined) return undefined;
+
+  const decoded = decodeCursor(cursor);
+  if (!decoded) {
+    throw new ValidationError("Validation failed", [
+      { location: "query", field: "cursor", message: "Invalid cursor" },
+    ]);
+  }
+  return decoded;
+}
+
+/**
+ * Build the audit context for a change made by the authenticated caller
+ */
+function auditContext(req: Request, res: Response): AuditContext {
+  return {
+    actor: res.locals.principal as Principal,
+    ipAddress: req.ip,
+  };
+}
 
 export class DeviceHandler {
   constructor(private deviceService: DeviceService) {}
 
   async createDevice(req: Request, res: Response): Promise<void> {
-    const { name, deviceType, ipAddress } = req.body;
+    const { name, deviceType, ipAddress, port, simulation } = res.locals
+      .body as z.output<typeof createDeviceBodySchema>;
 
-    if (!name || !deviceType || !ipAddress) {
-      res.status(400).json({
-        error: "Missing required fields: name, deviceType, ipAddress",
-      });
-      return;
-    }
+    const device = await this.deviceService.createDevice(
+      { name, deviceType, ipAddress, port, simulation },
+      auditContext(req, res)
+    );
 
-    const result = await this.deviceService.createDevice({
-      name,
-      deviceType,
-      ipAddress,
+    res.status(201).json(device);
+  }
+
+  async importDevices(req: Request, res: Response): Promise<void> {
+    const { devices: rows } = res.locals.body as z.output<
+      typeof importDevicesBodySchema
+    >;
+
+    const devices = await this.deviceService.importDevices(
+      rows,
+      auditContext(req, res)
+    );
+
+    res.status(201).json({
+      message: `Imported ${devices.length} device(s)`,
+      created: devices.length,
+      devices,
     });
+  }
 
-    if (!result.success) {
-      res.status(400).json({ error: result.error });
-      return;
-    }
+  async bulkActivate(req: Request, res: Response): Promise<void> {
+    const selection = res.locals.body as z.output<
+      typeof bulkSelectionBodySchema
+    >;
+
+    const result = await this.deviceService.bulkTransition(
+      selection,
+      "active",
+      auditContext(req, res)
+    );
 
-    res.status(201).json(result.device);
+    res.json({
+      message: `Activated ${result.devices.length} device(s)`,
+      ...result,
+    });
+  }
+
+  async bulkDeactivate(req: Request, res: Response): Promise<void> {
+    const selection = res.locals.body as z.output<
+      typeof bulkSelectionBodySchema
+    >;
+
+    const result = await this.deviceService.bulkTransition(
+      selection,
+      "inactive",
+      auditContext(req, res)
+    );
+
+    res.json({
+      message: `Deactivated ${result.devices.length} device(s)`,
+      ...result,
+    });
+  }
+
+  async bulkDelete(req: Request, res: Response): Promise<void> {
+    const selection = res.locals.body as z.output<
+      typeof bulkSelectionBodySchema
+    >;
+
+    const result = await this.deviceService.bulkArchive(
+      selection,
+      auditContext(req, res)
+    );
+
+    res.json({
+      message: `Archived ${result.devices.length} device(s)`,
+      ...result,
+    });
   }
 
   async getAllDevices(req: Request, res: Response): Promise<void> {
-    const result = await this.deviceService.getAllDevices();
+    const { includeArchived } = res.locals.query as z.output<
+      typeof listDevicesQuerySchema
+    >;
 
-    if (!result.success) {
-      res.status(500).json({ error: result.error });
-      return;
-    }
+    const devices = await this.deviceService.getAllDevices({
+      includeArchived,
+    });
+
+    res.json(devices);
+  }
 
-    res.json(result.devices);
+  async getDeviceStats(req: Request, res: Response): Promise<void> {
+    const stats = await this.deviceService.getDeviceStats();
+    res.json(stats);
   }
 
   async getDeviceById(req: Request, res: Response): Promise<void> {
     const { id } = req.params as { id: string };
 
-    const result = await this.deviceService.getDeviceById(id);
+    const device = await this.deviceService.getDeviceById(id);
 
-    if (!result.success) {
-      res.status(404).json({ error: result.error });
-      return;
-    }
+    res.json(device);
+  }
+
+  async updateDevice(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+    const { name, deviceType, ipAddress, port } = res.locals.body as z.output<
+      typeof updateDeviceBodySchema
+    >;
 
-    res.json(result.device);
+    const device = await this.deviceService.updateDevice(
+      id,
+      { name, deviceType, ipAddress, port },
+      auditContext(req, res)
+    );
+
+    res.json({
+      message: "Device updated successfully",
+      device: device,
+    });
   }
 
-  async activateDevice(req: Request, res: Response): Promise<void> {
+  async updateSimulation(req: Request, res: Response): Promise<void> {
     const { id } = req.params as { id: string };
+    const simulation = res.locals.body as z.output<
+      typeof simulationConfigBodySchema
+    >;
 
-    const result = await this.deviceService.activateDevice(id);
+    const device = await this.deviceService.updateSimulation(
+      id,
+      simulation,
+      auditContext(req, res)
+    );
 
-    if (!result.success) {
-      res.status(400).json({ error: result.error });
-      return;
-    }
+    res.json({
+      message: "Device simulation updated successfully",
+      device,
+    });
+  }
+
+  async backfillTransactions(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+    const options = res.locals.body as z.output<typeof backfillBodySchema>;
+
+    const written = await this.deviceService.backfillTransactions(id, options);
+
+    res.status(201).json({
+      message: "Transactions generated successfully",
+      deviceId: id,
+      from: options.from,
+      to: options.to,
+      written,
+    });
+  }
+
+  async activateDevice(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+
+    const device = await this.deviceService.activateDevice(
+      id,
+      auditContext(req, res)
+    );
 
     res.json({
       message: "Device activated successfully",
-      device: result.device,
+      device: device,
     });
   }
 
   async deactivateDevice(req: Request, res: Response): Promise<void> {
     const { id } = req.params as { id: string };
 
-    const result = await this.deviceService.deactivateDevice(id);
-
-    if (!result.success) {
-      res.status(400).json({ error: result.error });
-      return;
-    }
+    const device = await this.deviceService.deactivateDevice(
+      id,
+      auditContext(req, res)
+    );
 
     res.json({
       message: "Device deactivated successfully",
-      device: result.device,
+      device: device,
+    });
+  }
+
+  async transitionDevice(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+    const { status, reason } = res.locals.body as z.output<
+      typeof transitionBodySchema
+    >;
+
+    const device = await this.deviceService.transitionDevice(
+      id,
+      status,
+      reason,
+      auditContext(req, res)
+    );
+
+    res.json({
+      message: `Device moved to ${status}`,
+      device: device,
     });
   }
 
   async deleteDevice(req: Request, res: Response): Promise<void> {
     const { id } = req.params as { id: string };
 
-    const result = await this.deviceService.deleteDevice(id);
+    const device = await this.deviceService.archiveDevice(
+      id,
+      auditContext(req, res)
+    );
 
-    if (!result.success) {
-      res.status(400).json({ error: result.error });
-      return;
-    }
+    res.json({
+      message: "Device archived successfully",
+      device: device,
+    });
+  }
+
+  async restoreDevice(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+
+    const device = await this.deviceService.restoreDevice(
+      id,
+      auditContext(req, res)
+    );
+
+    res.json({
+      message: "Device restored successfully",
+      device: device,
+    });
+  }
+
+  async purgeDevice(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+
+    await this.deviceService.purgeDevice(id, auditContext(req, res));
 
     res.json({
-      message: "Device deleted successfully",
+      message: "Device and its transactions purged successfully",
+    });
+  }
+
+  async issueDeviceSecret(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+
+    const deviceSecret = await this.deviceService.issueDeviceSecret(id);
+
+    res.status(201).json(deviceSecret);
+  }
+
+  async revokeDeviceSecret(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+
+    await this.deviceService.revokeDeviceSecret(id);
+
+    res.json({
+      message: "Device secret revoked successfully",
+    });
+  }
+}
+
+export class IngestionHandler {
+  constructor(private ingestionService: IngestionService) {}
+
+  async recordHeartbeat(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+
+    const device = await this.ingestionService.recordHeartbeat(
+      id,
+      req.header(INGESTION.SECRET_HEADER)
+    );
+
+    res.json({
+      deviceId: id,
+      lastSeenAt: device.lastSeenAt,
+      online: device.online,
+    });
+  }
+
+  async ingestEvents(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+    const { events } = res.locals.body as z.output<
+      typeof ingestEventsBodySchema
+    >;
+
+    const { created, duplicates } = await this.ingestionService.ingestEvents(
+      id,
+      req.header(INGESTION.SECRET_HEADER),
+      events
+    );
+
+    res.status(created.length > 0 ? 201 : 200).json({
+      deviceId: id,
+      received: events.length,
+      created: created.length,
+      duplicates,
+      transactions: created,
     });
   }
 }
 
 export class TransactionHandler {
-  constructor(private transactionService: TransactionService) {}
+  constructor(
+    private transactionService: TransactionService,
+    private eventStreamService: EventStreamService
+  ) {}
 
   async getTransactions(req: Request, res: Response): Promise<void> {
-    const { deviceId, limit, offset } = req.query;
+    const query = res.locals.query as z.output<typeof transactionQuerySchema>;
 
-    const result = await this.transactionService.getTransactions({
-      deviceId: deviceId as string | undefined,
-      limit: limit ? parseInt(limit as string) : undefined,
-      offset: offset ? parseInt(offset as string) : undefined,
-    });
+    const cursor = decodeCursorParam(query.cursor);
 
-    if (!result.success) {
-      res.status(500).json({ error: result.error });
-      return;
-    }
+    const { transactions, pagination } =
+      await this.transactionService.getTransactions({
+        ...toTransactionFilters(query),
+        cursor,
+        limit: query.limit,
+        offset: query.offset,
+      });
 
     res.json({
-      transactions: result.transactions,
-      pagination: result.pagination,
+      transactions,
+      pagination,
+    });
+  }
+
+  async getTransactionStats(req: Request, res: Response): Promise<void> {
+    const query = res.locals.query as z.output<typeof statsQuerySchema>;
+
+    const stats = await this.transactionService.getStats({
+      deviceId: query.deviceId,
+      from: query.from,
+      to: query.to,
+      eventTypes: query.eventType,
+      username: query.username,
+      deviceType: query.deviceType,
+      bucket: query.bucket,
+      groupBy: query.groupBy,
+      top: query.top,
     });
+
+    res.json(stats);
+  }
+
+  async exportTransactions(req: Request, res: Response): Promise<void> {
+    const query = res.locals.query as z.output<typeof exportQuerySchema>;
+    const format = query.format;
+
+    const columns: (keyof ExportRecord)[] = [
+      "id",
+      "timestamp",
+      "deviceId",
+      "deviceName",
+      "deviceType",
+      "username",
+      "eventType",
+      "payload",
+    ];
+    const filename = `transactions-${new Date()
+      .toISOString()
+      .replace(/[:.]/g, "-")}.${format}`;
+
+    res.writeHead(200, {
+      "Content-Type":
+        format === "csv"
+          ? "text/csv; charset=utf-8"
+          : "application/x-ndjson; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    });
+    if (format === "csv") {
+      res.write(toCsvRow(columns) + "\n");
+    }
+
+    // Aborted when the client goes away, ending any wait for a drain
+    const closed = new AbortController();
+    res.on("close", () => closed.abort());
+
+    try {
+      for await (const records of this.transactionService.exportTransactions(
+        toTransactionFilters(query)
+      )) {
+        if (closed.signal.aborted) break;
+
+        const chunk = records
+          .map((record) =>
+            format === "csv"
+              ? toCsvRow(columns.map((column) => record[column]))
+              : JSON.stringify(record)
+          )
+          .join("\n");
+
+        // Wait for the client to catch up before fetching the next batch
+        if (!res.write(chunk + "\n")) {
+          await once(res, "drain", { signal: closed.signal }).catch(() => {});
+        }
+      }
+      res.end();
+    } catch (err) {
+      // Headers are already sent, so the only signal left is a cut stream
+      logger.error("Error exporting transactions", err);
+      res.destroy();
+    }
   }
 
   async getDeviceTransactions(req: Request, res: Response): Promise<void> {
     const { id } = req.params as { id: string };
-    const { limit, offset } = req.query;
+    const query = res.locals.query as z.output<
+      typeof deviceTransactionQuerySchema
+    >;
+
+    const cursor = decodeCursorParam(query.cursor);
+
+    const { transactions, pagination } =
+      await this.transactionService.getDeviceTransactions(id, {
+        ...toTransactionFilters(query),
+        cursor,
+        limit: query.limit,
+        offset: query.offset,
+      });
 
-    const result = await this.transactionService.getDeviceTransactions(id, {
-      limit: limit ? parseInt(limit as string) : undefined,
-      offset: offset ? parseInt(offset as string) : undefined,
+    res.json({
+      deviceId: id,
+      transactions,
+      pagination,
     });
+  }
 
-    if (!result.success) {
-      res.status(500).json({ error: result.error });
-      return;
+  async streamTransactions(req: Request, res: Response): Promise<void> {
+    const { deviceId, eventType, lastEventId } = res.locals.query as z.output<
+      typeof streamQuerySchema
+    >;
+
+    // Browsers resend the last seen ID as a header on automatic reconnect;
+    // the query parameter covers clients that open a fresh connection
+    const header = parseInt(req.header("Last-Event-ID") ?? "");
+    const resumeFrom = isNaN(header) ? lastEventId : header;
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.write(`retry: ${EVENT_STREAM.RETRY_INTERVAL}\n\n`);
+
+    const send = (event: StreamEvent) => {
+      res.write(
+        `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(
+          event.data
+        )}\n\n`
+      );
+    };
+
+    const { complete, unsubscribe } = this.eventStreamService.subscribe(send, {
+      lastEventId: resumeFrom,
+      deviceId,
+      eventTypes: eventType,
+    });
+
+    // Tell the client to refetch when missed events can't be replayed
+    if (!complete) {
+      res.write("event: resync\ndata: {}\n\n");
     }
 
+    const heartbeat = setInterval(() => {
+      res.write(": ping\n\n");
+    }, EVENT_STREAM.HEARTBEAT_INTERVAL);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  }
+}
+
+export class AuthHandler {
+  constructor(private authService: AuthService) {}
+
+  async login(req: Request, res: Response): Promise<void> {
+    const { username, password } = res.locals.body as z.output<
+      typeof loginBodySchema
+    >;
+
+    const session = await this.authService.login(username, password);
+
+    res.json(session);
+  }
+
+  async getCurrentPrincipal(req: Request, res: Response): Promise<void> {
+    res.json(res.locals.principal as Principal);
+  }
+
+  async createUrlToken(req: Request, res: Response): Promise<void> {
+    const { path } = res.locals.body as z.output<typeof urlTokenBodySchema>;
+
+    const urlToken = this.authService.issueUrlToken(
+      res.locals.principal as Principal,
+      path
+    );
+
+    res.status(201).json(urlToken);
+  }
+
+  async getUsers(req: Request, res: Response): Promise<void> {
+    const users = await this.authService.getUsers();
+
+    res.json(users);
+  }
+
+  async createUser(req: Request, res: Response): Promise<void> {
+    const { username, password, role } = res.locals.body as z.output<
+      typeof createUserBodySchema
+    >;
+
+    const user = await this.authService.createUser({
+      username,
+      password,
+      role,
+    });
+
+    res.status(201).json(user);
+  }
+
+  async getApiKeys(req: Request, res: Response): Promise<void> {
+    const apiKeys = await this.authService.getApiKeys();
+
+    res.json(apiKeys);
+  }
+
+  async createApiKey(req: Request, res: Response): Promise<void> {
+    const { name, role } = res.locals.body as z.output<
+      typeof createApiKeyBodySchema
+    >;
+
+    const { apiKey, key } = await this.authService.createApiKey({
+      name,
+      role,
+    });
+
+    res.status(201).json({ ...apiKey, key });
+  }
+
+  async revokeApiKey(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+
+    const apiKey = await this.authService.revokeApiKey(id);
+
     res.json({
-      deviceId: id,
-      transactions: result.transactions,
-      pagination: result.pagination,
+      message: "API key revoked successfully",
+      apiKey,
+    });
+  }
+}
+
+export class ProbeHandler {
+  constructor(private probeService: ProbeService) {}
+
+  async getConnectivity(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+    const { limit } = res.locals.query as z.output<
+      typeof connectivityQuerySchema
+    >;
+
+    const connectivity = await this.probeService.getConnectivity(id, {
+      limit,
+    });
+
+    res.json(connectivity);
+  }
+
+  async probeDevice(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+
+    const probe = await this.probeService.probeDevice(id);
+
+    res.json(probe);
+  }
+}
+
+export class AuditHandler {
+  constructor(private auditService: AuditService) {}
+
+  async getAuditEvents(req: Request, res: Response): Promise<void> {
+    const query = res.locals.query as z.output<typeof auditQuerySchema>;
+
+    const { events, pagination } = await this.auditService.getAuditEvents({
+      deviceId: query.deviceId,
+      actorId: query.actorId,
+      actions: query.action,
+      from: query.from,
+      to: query.to,
+      limit: query.limit,
+      offset: query.offset,
+    });
+
+    res.json({ events, pagination });
+  }
+
+  async getDeviceHistory(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+    const { limit, offset } = res.locals.query as z.output<
+      typeof historyQuerySchema
+    >;
+
+    const { events, pagination } = await this.auditService.getDeviceHistory(
+      id,
+      { limit, offset }
+    );
+
+    res.json({ deviceId: id, events, pagination });
+  }
+}
+
+export class AlertHandler {
+  constructor(private alertService: AlertService) {}
+
+  async getAlertRules(req: Request, res: Response): Promise<void> {
+    const rules = await this.alertService.getRules();
+    res.json(rules);
+  }
+
+  async createAlertRule(req: Request, res: Response): Promise<void> {
+    const data = res.locals.body as z.output<typeof createAlertRuleBodySchema>;
+
+    const rule = await this.alertService.createRule(data);
+
+    res.status(201).json(rule);
+  }
+
+  async updateAlertRule(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+    const data = res.locals.body as z.output<typeof updateAlertRuleBodySchema>;
+
+    const rule = await this.alertService.updateRule(id, data);
+
+    res.json({
+      message: "Alert rule updated successfully",
+      rule,
+    });
+  }
+
+  async deleteAlertRule(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+
+    await this.alertService.deleteRule(id);
+
+    res.json({
+      message: "Alert rule deleted successfully",
+    });
+  }
+
+  async getAlerts(req: Request, res: Response): Promise<void> {
+    const query = res.locals.query as z.output<typeof alertQuerySchema>;
+
+    const { alerts, pagination } = await this.alertService.getAlerts({
+      statuses: query.status,
+      severities: query.severity,
+      deviceId: query.deviceId,
+      ruleId: query.ruleId,
+      limit: query.limit,
+      offset: query.offset,
+    });
+
+    res.json({ alerts, pagination });
+  }
+
+  async acknowledgeAlert(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+
+    const alert = await this.alertService.acknowledgeAlert(
+      id,
+      res.locals.principal as Principal
+    );
+
+    res.json({
+      message: "Alert acknowledged",
+      alert,
+    });
+  }
+
+  async resolveAlert(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+
+    const alert = await this.alertService.resolveAlert(
+      id,
+      res.locals.principal as Principal
+    );
+
+    res.json({
+      message: "Alert resolved",
+      alert,
+    });
+  }
+}
+
+export class WebhookHandler {
+  constructor(private webhookService: WebhookService) {}
+
+  async getWebhooks(req: Request, res: Response): Promise<void> {
+    const webhooks = await this.webhookService.getWebhooks();
+    res.json(webhooks);
+  }
+
+  async getWebhookById(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+    const webhook = await this.webhookService.getWebhookById(id);
+    res.json(webhook);
+  }
+
+  async createWebhook(req: Request, res: Response): Promise<void> {
+    const data = res.locals.body as z.output<typeof createWebhookBodySchema>;
+
+    const { webhook, secret } = await this.webhookService.createWebhook(data);
+
+    res.status(201).json({ ...webhook, secret });
+  }
+
+  async updateWebhook(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+    const data = res.locals.body as z.output<typeof updateWebhookBodySchema>;
+
+    const webhook = await this.webhookService.updateWebhook(id, data);
+
+    res.json({
+      message: "Webhook updated successfully",
+      webhook,
+    });
+  }
+
+  async deleteWebhook(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+
+    await this.webhookService.deleteWebhook(id);
+
+    res.json({
+      message: "Webhook deleted successfully",
+    });
+  }
+
+  async testWebhook(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+
+    const delivery = await this.webhookService.testWebhook(id);
+
+    res.json({
+      message:
+        delivery.status === "delivered"
+          ? "Test delivery succeeded"
+          : `Test delivery failed: ${delivery.error}`,
+      delivery,
+    });
+  }
+
+  async getDeliveries(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+    const query = res.locals.query as z.output<
+      typeof webhookDeliveryQuerySchema
+    >;
+
+    const { deliveries, pagination } = await this.webhookService.getDeliveries(
+      id,
+      { statuses: query.status, limit: query.limit, offset: query.offset }
+    );
+
+    res.json({ webhookId: id, deliveries, pagination });
+  }
+
+  async getDeadLetters(req: Request, res: Response): Promise<void> {
+    const query = res.locals.query as z.output<typeof deadLetterQuerySchema>;
+
+    const { deliveries, pagination } = await this.webhookService.getDeadLetters(
+      query
+    );
+
+    res.json({ deliveries, pagination });
+  }
+
+  async redeliver(req: Request, res: Response): Promise<void> {
+    const { id } = req.params as { id: string };
+
+    const delivery = await this.webhookService.redeliver(id);
+
+    res.json({
+      message:
+        delivery.status === "delivered"
+          ? "Redelivery succeeded"
+          : `Redelivery failed: ${delivery.error}`,
+      delivery,
     });
   }
 }
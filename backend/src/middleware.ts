@@ -0,0 +1,122 @@
+import type { NextFunction, Request, Response } from "express";
+import type { z } from "zod";
+import type { AuthService, Principal } from "./services";
+import { ROLES } from "./constants";
+import type { Role } from "./constants";
+import { ForbiddenError, UnauthorizedError, ValidationError } from "./errors";
+import type { ErrorDetail } from "./errors";
+import { parseCsv } from "./utils";
+
+/**
+ * Validate request params, query and body against schemas. Parsed values
+ * are stored on res.locals; failures are passed on as a ValidationError
+ * with per-field details.
+ */
+export function validate(schemas: {
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+}) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const details: ErrorDetail[] = [];
+
+    for (const location of ["params", "query", "body"] as const) {
+      const schema = schemas[location];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        res.locals[location] = result.data;
+      } else {
+        result.error.issues.forEach((issue) =>
+          details.push({
+            location,
+            field: issue.path.join("."),
+            message: issue.message,
+          })
+        );
+      }
+    }
+
+    if (details.length > 0) {
+      next(new ValidationError("Validation failed", details));
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Turn a text/csv body into records keyed by the header row, so it is
+ * validated the same way as the equivalent JSON array
+ */
+export function csvBody() {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.is("text/csv") && typeof req.body === "string") {
+      req.body = parseCsv(req.body);
+    }
+    next();
+  };
+}
+
+/**
+ * Get the credential sent in a request's headers: a bearer token or an
+ * X-API-Key header
+ */
+function getCredential(req: Request): string | undefined {
+  const [scheme, token] = (req.header("Authorization") ?? "").split(" ");
+  if (scheme?.toLowerCase() === "bearer" && token) {
+    return token;
+  }
+
+  return req.header("X-API-Key") || undefined;
+}
+
+/**
+ * Identify the caller from the request's credential and store it on
+ * res.locals.principal. GET requests may instead send a URL token as the
+ * access_token query parameter, since EventSource and download links can't
+ * set headers. Requests without a credential pass through anonymously; an
+ * invalid credential is rejected.
+ */
+export function authenticate(authService: AuthService) {
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const credential = getCredential(req);
+    const urlToken = req.query.access_token;
+    if (credential) {
+      res.locals.principal = await authService.authenticate(credential);
+    } else if (req.method === "GET" && typeof urlToken === "string") {
+      res.locals.principal = await authService.authenticateUrlToken(
+        urlToken,
+        req.path
+      );
+    }
+    next();
+  };
+}
+
+/**
+ * Require an authenticated caller with at least the given role
+ */
+export function authorize(role: Role) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const principal = res.locals.principal as Principal | undefined;
+
+    if (!principal) {
+      next(new UnauthorizedError("UNAUTHENTICATED", "Authentication required"));
+      return;
+    }
+
+    if (ROLES.indexOf(principal.role) < ROLES.indexOf(role)) {
+      next(new ForbiddenError("FORBIDDEN", `Requires the ${role} role`));
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,47 @@
+import { Socket } from "net";
+
+/**
+ * TCP reachability probing of device addresses
+ */
+
+export interface ProbeOutcome {
+  reachable: boolean;
+  // Time to connect, only set when reachable
+  latencyMs: number | null;
+  // Why the connection failed, e.g. "timeout" or "ECONNREFUSED"
+  error: string | null;
+}
+
+export type Prober = (
+  host: string,
+  port: number,
+  timeout: number
+) => Promise<ProbeOutcome>;
+
+/**
+ * Try to open a TCP connection, resolving with whether it succeeded
+ * within the timeout. Never rejects.
+ */
+export const probeTcp: Prober = (host, port, timeout) =>
+  new Promise((resolve) => {
+    const socket = new Socket();
+    const started = performance.now();
+
+    const finish = (error: string | null) => {
+      socket.destroy();
+      resolve({
+        reachable: error === null,
+        latencyMs:
+          error === null ? Math.round(performance.now() - started) : null,
+        error,
+      });
+    };
+
+    socket.setTimeout(timeout);
+    socket.once("connect", () => finish(null));
+    socket.once("timeout", () => finish("timeout"));
+    socket.once("error", (error: NodeJS.ErrnoException) =>
+      finish(error.code ?? error.message)
+    );
+    socket.connect(port, host);
+  });
@@ -1,6 +1,96 @@
-import { PrismaClient } from "@prisma/client";
-import type { Device, Transaction } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
+import type {
+  Alert,
+  AlertRule,
+  ApiKey,
+  AuditEvent,
+  Device,
+  DeviceSecret,
+  DeviceStatus,
+  ProbeResult,
+  Transaction,
+  User,
+  Webhook,
+  WebhookDelivery,
+} from "@prisma/client";
 import { v4 as uuidv4 } from "uuid";
+import type { SimulationConfig } from "../simulator";
+import type { StatsBucket, StatsGroupBy } from "../constants";
+
+export type SortDirection = "asc" | "desc";
+
+export interface TransactionCursor {
+  timestamp: Date;
+  id: string;
+}
+
+export interface PageOptions {
+  limit?: number;
+  offset?: number;
+  sort?: SortDirection;
+  cursor?: TransactionCursor;
+}
+
+export interface NewTransaction {
+  deviceId: string;
+  username: string;
+  eventType: string;
+  timestamp: Date;
+  payload?: any;
+  eventId?: string;
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  // Omitted for cursor requests to avoid counting on every page
+  total?: number;
+  hasMore: boolean;
+}
+
+export interface TransactionFilters {
+  deviceId?: string;
+  from?: Date;
+  to?: Date;
+  eventTypes?: string[];
+  username?: string;
+  usernamePrefix?: string;
+  deviceType?: string;
+}
+
+export interface BucketCount {
+  start: Date;
+  // Value of the groupBy column; null when not grouping
+  group: string | null;
+  count: number;
+}
+
+// Columns statistics can be grouped by, as SQL
+const STATS_GROUP_COLUMNS: Record<StatsGroupBy, Prisma.Sql> = {
+  eventType: Prisma.sql`t."eventType"`,
+  deviceId: Prisma.sql`t."deviceId"`,
+  deviceType: Prisma.sql`d."deviceType"`,
+};
+
+export interface AuditEventFilters {
+  deviceId?: string;
+  actorId?: string;
+  actions?: string[];
+  from?: Date;
+  to?: Date;
+}
+
+export interface AlertFilters {
+  statuses?: string[];
+  severities?: string[];
+  deviceId?: string;
+  ruleId?: string;
+}
+
+export interface DeviceFilter {
+  deviceType?: string;
+  status?: DeviceStatus;
+  name?: string;
+}
 
 export class DeviceRepository {
   constructor(private prisma: PrismaClient) {}
@@ -9,6 +99,8 @@ export class DeviceRepository {
     name: string;
     deviceType: string;
     ipAddress: string;
+    port?: number | null;
+    simulation?: SimulationConfig;
   }): Promise<Device> {
     return this.prisma.device.create({
       data: {
@@ -16,30 +108,265 @@ export class DeviceRepository {
         name: data.name,
         deviceType: data.deviceType,
         ipAddress: data.ipAddress,
-        status: "inactive",
+        port: data.port,
+        status: "provisioning",
+        ...data.simulation,
       },
     });
   }
 
-  async findAll(): Promise<Device[]> {
+  /**
+   * Create devices in one statement, so either all or none are created
+   */
+  async createMany(
+    data: {
+      name: string;
+      deviceType: string;
+      ipAddress: string;
+      port?: number | null;
+      simulation?: SimulationConfig;
+    }[]
+  ): Promise<Device[]> {
+    return this.prisma.device.createManyAndReturn({
+      data: data.map((device) => ({
+        id: uuidv4(),
+        name: device.name,
+        deviceType: device.deviceType,
+        ipAddress: device.ipAddress,
+        port: device.port,
+        status: "provisioning",
+        ...device.simulation,
+      })),
+    });
+  }
+
+  async findAll(
+    options: { includeArchived?: boolean } = {}
+  ): Promise<Device[]> {
     return this.prisma.device.findMany({
+      where: options.includeArchived ? undefined : { deletedAt: null },
       orderBy: { createdAt: "desc" },
     });
   }
 
+  /**
+   * Count non-archived devices per status and how many are online, along
+   * with the number of archived devices
+   */
+  async countByStatus(): Promise<{
+    byStatus: { status: DeviceStatus; count: number }[];
+    online: number;
+    archived: number;
+  }> {
+    const [groups, online, archived] = await Promise.all([
+      this.prisma.device.groupBy({
+        by: ["status"],
+        where: { deletedAt: null },
+        _count: { _all: true },
+      }),
+      this.prisma.device.count({ where: { deletedAt: null, online: true } }),
+      this.prisma.device.count({ where: { deletedAt: { not: null } } }),
+    ]);
+
+    return {
+      byStatus: groups.map((group) => ({
+        status: group.status,
+        count: group._count._all,
+      })),
+      online,
+      archived,
+    };
+  }
+
+  async findByStatus(status: DeviceStatus): Promise<Device[]> {
+    return this.prisma.device.findMany({
+      where: { status },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async findByIds(ids: string[]): Promise<Device[]> {
+    return this.prisma.device.findMany({
+      where: { id: { in: ids } },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  /**
+   * Find non-archived devices matching every given field; name matches
+   * any part of the device's name, ignoring case
+   */
+  async findMatching(filter: DeviceFilter): Promise<Device[]> {
+    return this.prisma.device.findMany({
+      where: {
+        deletedAt: null,
+        deviceType: filter.deviceType,
+        status: filter.status,
+        name: filter.name
+          ? { contains: filter.name, mode: "insensitive" }
+          : undefined,
+      },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
   async findById(id: string): Promise<Device | null> {
     return this.prisma.device.findUnique({
       where: { id },
     });
   }
 
-  async updateStatus(id: string, status: string): Promise<Device> {
+  /**
+   * Record that a device was heard from
+   */
+  async markSeen(id: string, at: Date): Promise<Device> {
+    return this.prisma.device.update({
+      where: { id },
+      data: { lastSeenAt: at, online: true },
+    });
+  }
+
+  /**
+   * Find online devices not heard from since the cutoff
+   */
+  async findSilentSince(cutoff: Date): Promise<Device[]> {
+    return this.prisma.device.findMany({
+      where: { online: true, lastSeenAt: { lt: cutoff } },
+    });
+  }
+
+  /**
+   * Store the latest probe result on a device
+   */
+  async recordProbe(
+    id: string,
+    probe: { reachable: boolean; latencyMs: number | null; probedAt: Date }
+  ): Promise<Device> {
+    return this.prisma.device.update({
+      where: { id },
+      data: probe,
+    });
+  }
+
+  /**
+   * Mark a device offline unless it was heard from since the cutoff,
+   * returning whether it changed
+   */
+  async markOffline(id: string, cutoff: Date): Promise<boolean> {
+    const result = await this.prisma.device.updateMany({
+      where: { id, online: true, lastSeenAt: { lt: cutoff } },
+      data: { online: false },
+    });
+    return result.count > 0;
+  }
+
+  async findByNames(names: string[]): Promise<Device[]> {
+    return this.prisma.device.findMany({
+      where: {
+        name: { in: names, mode: "insensitive" },
+        deletedAt: null,
+      },
+    });
+  }
+
+  async findByName(name: string): Promise<Device | null> {
+    return this.prisma.device.findFirst({
+      where: {
+        name: { equals: name, mode: "insensitive" },
+        deletedAt: null,
+      },
+    });
+  }
+
+  async update(
+    id: string,
+    data: {
+      name?: string;
+      deviceType?: string;
+      ipAddress?: string;
+      port?: number | null;
+    }
+  ): Promise<Device> {
+    return this.prisma.device.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async updateSimulation(
+    id: string,
+    simulation: SimulationConfig
+  ): Promise<Device> {
+    return this.prisma.device.update({
+      where: { id },
+      data: simulation,
+    });
+  }
+
+  async updateStatus(id: string, status: DeviceStatus): Promise<Device> {
     return this.prisma.device.update({
       where: { id },
       data: { status },
     });
   }
 
+  /**
+   * Set the status of several devices in one transaction
+   */
+  async updateStatusMany(
+    ids: string[],
+    status: DeviceStatus
+  ): Promise<Device[]> {
+    const [, devices] = await this.prisma.$transaction([
+      this.prisma.device.updateMany({
+        where: { id: { in: ids } },
+        data: { status },
+      }),
+      this.prisma.device.findMany({
+        where: { id: { in: ids } },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+    return devices;
+  }
+
+  /**
+   * Archive several devices in one transaction. Active ones are archived
+   * as inactive, like archive().
+   */
+  async archiveMany(ids: string[]): Promise<Device[]> {
+    const deletedAt = new Date();
+    const [, , devices] = await this.prisma.$transaction([
+      this.prisma.device.updateMany({
+        where: { id: { in: ids }, status: "active" },
+        data: { status: "inactive", deletedAt },
+      }),
+      this.prisma.device.updateMany({
+        where: { id: { in: ids }, deletedAt: null },
+        data: { deletedAt },
+      }),
+      this.prisma.device.findMany({
+        where: { id: { in: ids } },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+    return devices;
+  }
+
+  async archive(id: string, status: DeviceStatus): Promise<Device> {
+    return this.prisma.device.update({
+      where: { id },
+      data: { status, deletedAt: new Date() },
+    });
+  }
+
+  async restore(id: string): Promise<Device> {
+    return this.prisma.device.update({
+      where: { id },
+      data: { deletedAt: null },
+    });
+  }
+
   async delete(id: string): Promise<Device> {
     return this.prisma.device.delete({
       where: { id },
@@ -50,13 +377,7 @@ export class DeviceRepository {
 export class TransactionRepository {
   constructor(private prisma: PrismaClient) {}
 
-  async create(data: {
-    deviceId: string;
-    username: string;
-    eventType: string;
-    timestamp: Date;
-    payload?: any;
-  }): Promise<Transaction> {
+  async create(data: NewTransaction): Promise<Transaction> {
     return this.prisma.transaction.create({
       data: {
         id: uuidv4(),
@@ -65,67 +386,892 @@ export class TransactionRepository {
         eventType: data.eventType,
         timestamp: data.timestamp,
         payload: data.payload || null,
+        eventId: data.eventId,
+      },
+      include: {
+        device: true,
+      },
+    });
+  }
+
+  /**
+   * Insert many transactions in one statement, returning how many were
+   * written
+   */
+  async createMany(data: NewTransaction[]): Promise<number> {
+    const result = await this.prisma.transaction.createMany({
+      data: data.map((transaction) => ({
+        id: uuidv4(),
+        deviceId: transaction.deviceId,
+        username: transaction.username,
+        eventType: transaction.eventType,
+        timestamp: transaction.timestamp,
+        payload: transaction.payload || null,
+        eventId: transaction.eventId,
+      })),
+    });
+    return result.count;
+  }
+
+  /**
+   * Insert many transactions, skipping any whose event ID the device has
+   * already used, and return the ones written
+   */
+  async createManyAndReturn(data: NewTransaction[]): Promise<Transaction[]> {
+    return this.prisma.transaction.createManyAndReturn({
+      data: data.map((transaction) => ({
+        id: uuidv4(),
+        deviceId: transaction.deviceId,
+        username: transaction.username,
+        eventType: transaction.eventType,
+        timestamp: transaction.timestamp,
+        payload: transaction.payload || null,
+        eventId: transaction.eventId,
+      })),
+      skipDuplicates: true,
+      include: {
+        device: true,
       },
     });
   }
 
-  async findAll(options: {
+  /**
+   * Count transactions of a type between two times, optionally for one
+   * device or username
+   */
+  async count(filters: {
+    eventType: string;
     deviceId?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<{
-    transactions: Transaction[];
-    total: number;
-  }> {
+    username?: string;
+    from: Date;
+    to: Date;
+  }): Promise<number> {
+    return this.prisma.transaction.count({
+      where: {
+        eventType: filters.eventType,
+        deviceId: filters.deviceId,
+        username: filters.username,
+        timestamp: { gte: filters.from, lte: filters.to },
+      },
+    });
+  }
+
+  /**
+   * When each device's most recent transaction was stored
+   */
+  async findLatestCreatedAt(deviceIds: string[]): Promise<Map<string, Date>> {
+    const rows = await this.prisma.transaction.groupBy({
+      by: ["deviceId"],
+      where: { deviceId: { in: deviceIds } },
+      _max: { createdAt: true },
+    });
+    return new Map(
+      rows
+        .filter((row) => row._max.createdAt)
+        .map((row) => [row.deviceId, row._max.createdAt as Date])
+    );
+  }
+
+  async findAll(
+    options: TransactionFilters & PageOptions
+  ): Promise<TransactionPage> {
+    return this.findPage(this.buildWhereClause(options), options, {
+      device: true,
+    });
+  }
+
+  async findByDeviceId(
+    options: TransactionFilters & { deviceId: string } & PageOptions
+  ): Promise<TransactionPage> {
+    return this.findPage(this.buildWhereClause(options), options);
+  }
+
+  /**
+   * Fetch one page of transactions ordered by (timestamp, id). With a
+   * cursor, rows after it are returned by keyset and the total count is
+   * skipped; otherwise offset pagination is used and the total is counted.
+   */
+  private async findPage(
+    whereClause: Prisma.TransactionWhereInput,
+    options: PageOptions,
+    include?: Prisma.TransactionInclude
+  ): Promise<TransactionPage> {
     const limit = options.limit || 100;
-    const offset = options.offset || 0;
+    const sort = options.sort || "desc";
+    const cursor = options.cursor;
 
-    const whereClause: any = {};
-    if (options.deviceId) {
-      whereClause.deviceId = options.deviceId;
-    }
+    const where = cursor
+      ? this.buildKeysetWhereClause(whereClause, cursor, sort)
+      : whereClause;
 
-    const [transactions, total] = await Promise.all([
+    // Fetch one extra row to learn whether another page follows
+    const [rows, total] = await Promise.all([
       this.prisma.transaction.findMany({
-        where: whereClause,
-        orderBy: { timestamp: "desc" },
-        take: limit,
-        skip: offset,
+        where,
+        orderBy: [{ timestamp: sort }, { id: sort }],
+        take: limit + 1,
+        skip: cursor ? 0 : options.offset || 0,
+        include,
+      }),
+      cursor ? undefined : this.prisma.transaction.count({ where }),
+    ]);
+
+    return {
+      transactions: rows.slice(0, limit),
+      total,
+      hasMore: rows.length > limit,
+    };
+  }
+
+  /**
+   * Iterate over every matching transaction (with its device) in batches,
+   * walking the (timestamp, id) keyset so memory use stays flat
+   */
+  async *streamAll(
+    options: TransactionFilters & { sort?: SortDirection },
+    batchSize: number
+  ): AsyncGenerator<(Transaction & { device: Device })[]> {
+    const whereClause = this.buildWhereClause(options);
+    const sort = options.sort || "desc";
+    let cursor: TransactionCursor | undefined;
+
+    while (true) {
+      const batch = await this.prisma.transaction.findMany({
+        where: cursor
+          ? this.buildKeysetWhereClause(whereClause, cursor, sort)
+          : whereClause,
+        orderBy: [{ timestamp: sort }, { id: sort }],
+        take: batchSize,
         include: {
           device: true,
         },
+      });
+
+      if (batch.length > 0) {
+        yield batch;
+      }
+      if (batch.length < batchSize) {
+        return;
+      }
+      cursor = batch[batch.length - 1];
+    }
+  }
+
+  /**
+   * Count matching transactions per time bucket, optionally split by a
+   * column. Buckets are truncated in UTC and empty ones are left out.
+   */
+  async countByBucket(
+    filters: TransactionFilters,
+    bucket: StatsBucket,
+    groupBy?: StatsGroupBy
+  ): Promise<BucketCount[]> {
+    const group = groupBy ? STATS_GROUP_COLUMNS[groupBy] : Prisma.sql`NULL`;
+
+    return this.prisma.$queryRaw<BucketCount[]>`
+      SELECT date_trunc(${bucket}, t."timestamp") AS "start",
+             ${group} AS "group",
+             COUNT(*)::int AS "count"
+      FROM "transactions" t
+      JOIN "devices" d ON d."id" = t."deviceId"
+      ${this.buildSqlWhereClause(filters)}
+      GROUP BY 1${groupBy ? Prisma.sql`, 2` : Prisma.empty}
+      ORDER BY 1${groupBy ? Prisma.sql`, 2` : Prisma.empty}
+    `;
+  }
+
+  /**
+   * Get the usernames with the most matching transactions
+   */
+  async countByUsername(
+    filters: TransactionFilters,
+    limit: number
+  ): Promise<{ username: string; count: number }[]> {
+    const groups = await this.prisma.transaction.groupBy({
+      by: ["username"],
+      where: this.buildWhereClause(filters),
+      _count: { _all: true },
+      orderBy: [{ _count: { username: "desc" } }, { username: "asc" }],
+      take: limit,
+    });
+
+    return groups.map((group) => ({
+      username: group.username,
+      count: group._count._all,
+    }));
+  }
+
+  /**
+   * Get the devices with the most matching transactions
+   */
+  async countByDevice(
+    filters: TransactionFilters,
+    limit: number
+  ): Promise<{ deviceId: string; count: number }[]> {
+    const groups = await this.prisma.transaction.groupBy({
+      by: ["deviceId"],
+      where: this.buildWhereClause(filters),
+      _count: { _all: true },
+      orderBy: [{ _count: { deviceId: "desc" } }, { deviceId: "asc" }],
+      take: limit,
+    });
+
+    return groups.map((group) => ({
+      deviceId: group.deviceId,
+      count: group._count._all,
+    }));
+  }
+
+  private buildKeysetWhereClause(
+    whereClause: Prisma.TransactionWhereInput,
+    cursor: TransactionCursor,
+    sort: SortDirection
+  ): Prisma.TransactionWhereInput {
+    const operator = sort === "desc" ? "lt" : "gt";
+
+    return {
+      AND: [
+        whereClause,
+        {
+          OR: [
+            { timestamp: { [operator]: cursor.timestamp } },
+            { timestamp: cursor.timestamp, id: { [operator]: cursor.id } },
+          ],
+        },
+      ],
+    };
+  }
+
+  private buildWhereClause(
+    filters: TransactionFilters
+  ): Prisma.TransactionWhereInput {
+    const whereClause: Prisma.TransactionWhereInput = {};
+
+    if (filters.deviceId) {
+      whereClause.deviceId = filters.deviceId;
+    }
+    if (filters.from || filters.to) {
+      whereClause.timestamp = { gte: filters.from, lte: filters.to };
+    }
+    if (filters.eventTypes && filters.eventTypes.length > 0) {
+      whereClause.eventType = { in: filters.eventTypes };
+    }
+    if (filters.username) {
+      whereClause.username = filters.username;
+    } else if (filters.usernamePrefix) {
+      whereClause.username = { startsWith: filters.usernamePrefix };
+    }
+    if (filters.deviceType) {
+      whereClause.device = { deviceType: filters.deviceType };
+    }
+
+    return whereClause;
+  }
+
+  /**
+   * The same filters as buildWhereClause for raw queries over
+   * "transactions" t joined to "devices" d. Timestamps are stored as UTC
+   * without a time zone, so bounds are converted to match.
+   */
+  private buildSqlWhereClause(filters: TransactionFilters): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [];
+
+    if (filters.deviceId) {
+      conditions.push(Prisma.sql`t."deviceId" = ${filters.deviceId}`);
+    }
+    if (filters.from) {
+      conditions.push(
+        Prisma.sql`t."timestamp" >= (${filters.from}::timestamptz AT TIME ZONE 'UTC')`
+      );
+    }
+    if (filters.to) {
+      conditions.push(
+        Prisma.sql`t."timestamp" <= (${filters.to}::timestamptz AT TIME ZONE 'UTC')`
+      );
+    }
+    if (filters.eventTypes && filters.eventTypes.length > 0) {
+      conditions.push(
+        Prisma.sql`t."eventType" IN (${Prisma.join(filters.eventTypes)})`
+      );
+    }
+    if (filters.username) {
+      conditions.push(Prisma.sql`t."username" = ${filters.username}`);
+    } else if (filters.usernamePrefix) {
+      conditions.push(
+        Prisma.sql`starts_with(t."username", ${filters.usernamePrefix})`
+      );
+    }
+    if (filters.deviceType) {
+      conditions.push(Prisma.sql`d."deviceType" = ${filters.deviceType}`);
+    }
+
+    return conditions.length > 0
+      ? Prisma.sql`WHERE ${Prisma.join(conditions, " AND ")}`
+      : Prisma.empty;
+  }
+}
+
+export class UserRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: {
+    username: string;
+    passwordHash: string;
+    role: string;
+  }): Promise<User> {
+    return this.prisma.user.create({
+      data: {
+        id: uuidv4(),
+        username: data.username,
+        passwordHash: data.passwordHash,
+        role: data.role,
+      },
+    });
+  }
+
+  async findAll(): Promise<User[]> {
+    return this.prisma.user.findMany({
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async findById(id: string): Promise<User | null> {
+    return this.prisma.user.findUnique({
+      where: { id },
+    });
+  }
+
+  async findByUsername(username: string): Promise<User | null> {
+    return this.prisma.user.findUnique({
+      where: { username },
+    });
+  }
+
+  async count(): Promise<number> {
+    return this.prisma.user.count();
+  }
+}
+
+export class ApiKeyRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: {
+    name: string;
+    keyHash: string;
+    prefix: string;
+    role: string;
+  }): Promise<ApiKey> {
+    return this.prisma.apiKey.create({
+      data: {
+        id: uuidv4(),
+        name: data.name,
+        keyHash: data.keyHash,
+        prefix: data.prefix,
+        role: data.role,
+      },
+    });
+  }
+
+  async findAll(): Promise<ApiKey[]> {
+    return this.prisma.apiKey.findMany({
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  async findById(id: string): Promise<ApiKey | null> {
+    return this.prisma.apiKey.findUnique({
+      where: { id },
+    });
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKey | null> {
+    return this.prisma.apiKey.findUnique({
+      where: { keyHash },
+    });
+  }
+
+  async touch(id: string): Promise<ApiKey> {
+    return this.prisma.apiKey.update({
+      where: { id },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  async revoke(id: string): Promise<ApiKey> {
+    return this.prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+  }
+}
+
+export class DeviceSecretRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Set a device's secret, replacing any previous one
+   */
+  async upsert(deviceId: string, secretHash: string): Promise<DeviceSecret> {
+    return this.prisma.deviceSecret.upsert({
+      where: { deviceId },
+      create: { deviceId, secretHash },
+      update: { secretHash, createdAt: new Date() },
+    });
+  }
+
+  async findByDeviceId(deviceId: string): Promise<DeviceSecret | null> {
+    return this.prisma.deviceSecret.findUnique({
+      where: { deviceId },
+    });
+  }
+
+  /**
+   * Get the IDs of all devices that have a secret
+   */
+  async findDeviceIds(): Promise<string[]> {
+    const secrets = await this.prisma.deviceSecret.findMany({
+      select: { deviceId: true },
+    });
+    return secrets.map((secret) => secret.deviceId);
+  }
+
+  async delete(deviceId: string): Promise<DeviceSecret> {
+    return this.prisma.deviceSecret.delete({
+      where: { deviceId },
+    });
+  }
+}
+
+export class ProbeResultRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: {
+    deviceId: string;
+    ipAddress: string;
+    port: number;
+    reachable: boolean;
+    latencyMs: number | null;
+    error: string | null;
+    createdAt: Date;
+  }): Promise<ProbeResult> {
+    return this.prisma.probeResult.create({
+      data: { id: uuidv4(), ...data },
+    });
+  }
+
+  /**
+   * Get a device's most recent probe results, newest first
+   */
+  async findByDeviceId(
+    deviceId: string,
+    options: { limit?: number } = {}
+  ): Promise<ProbeResult[]> {
+    return this.prisma.probeResult.findMany({
+      where: { deviceId },
+      orderBy: { createdAt: "desc" },
+      take: options.limit,
+    });
+  }
+
+  /**
+   * Delete results older than the cutoff, returning how many were removed
+   */
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    const result = await this.prisma.probeResult.deleteMany({
+      where: { createdAt: { lt: cutoff } },
+    });
+    return result.count;
+  }
+}
+
+export class AuditEventRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: {
+    actorType: string;
+    actorId?: string;
+    actorName: string;
+    action: string;
+    deviceId: string;
+    before?: unknown;
+    after?: unknown;
+    reason?: string;
+    ipAddress?: string;
+  }): Promise<AuditEvent> {
+    return this.prisma.auditEvent.create({
+      data: {
+        id: uuidv4(),
+        actorType: data.actorType,
+        actorId: data.actorId,
+        actorName: data.actorName,
+        action: data.action,
+        deviceId: data.deviceId,
+        before: this.toJson(data.before),
+        after: this.toJson(data.after),
+        reason: data.reason,
+        ipAddress: data.ipAddress,
+      },
+    });
+  }
+
+  async findAll(
+    options: AuditEventFilters & { limit?: number; offset?: number }
+  ): Promise<{ events: AuditEvent[]; total: number }> {
+    const where = this.buildWhereClause(options);
+
+    const [events, total] = await Promise.all([
+      this.prisma.auditEvent.findMany({
+        where,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: options.limit || 100,
+        skip: options.offset || 0,
       }),
-      this.prisma.transaction.count({
-        where: whereClause,
-      }),
+      this.prisma.auditEvent.count({ where }),
     ]);
 
-    return { transactions, total };
+    return { events, total };
   }
 
-  async findByDeviceId(options: {
-    deviceId: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<{
-    transactions: Transaction[];
-    total: number;
-  }> {
-    const limit = options.limit || 100;
-    const offset = options.offset || 0;
+  // Snapshots hold Dates, which Prisma's JSON input doesn't accept
+  private toJson(value: unknown): Prisma.InputJsonValue | undefined {
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  }
 
-    const [transactions, total] = await Promise.all([
-      this.prisma.transaction.findMany({
-        where: { deviceId: options.deviceId },
-        orderBy: { timestamp: "desc" },
-        take: limit,
-        skip: offset,
+  private buildWhereClause(
+    filters: AuditEventFilters
+  ): Prisma.AuditEventWhereInput {
+    const whereClause: Prisma.AuditEventWhereInput = {};
+
+    if (filters.deviceId) {
+      whereClause.deviceId = filters.deviceId;
+    }
+    if (filters.actorId) {
+      whereClause.actorId = filters.actorId;
+    }
+    if (filters.actions && filters.actions.length > 0) {
+      whereClause.action = { in: filters.actions };
+    }
+    if (filters.from || filters.to) {
+      whereClause.createdAt = { gte: filters.from, lte: filters.to };
+    }
+
+    return whereClause;
+  }
+}
+
+export class AlertRuleRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: {
+    name: string;
+    type: string;
+    eventType?: string;
+    deviceId?: string;
+    threshold?: number;
+    windowSeconds?: number;
+    groupBy?: string;
+    severity: string;
+    enabled: boolean;
+  }): Promise<AlertRule> {
+    return this.prisma.alertRule.create({
+      data: { id: uuidv4(), ...data },
+    });
+  }
+
+  async findAll(): Promise<AlertRule[]> {
+    return this.prisma.alertRule.findMany({
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async findById(id: string): Promise<AlertRule | null> {
+    return this.prisma.alertRule.findUnique({
+      where: { id },
+    });
+  }
+
+  async update(
+    id: string,
+    data: { name?: string; severity?: string; enabled?: boolean }
+  ): Promise<AlertRule> {
+    return this.prisma.alertRule.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async delete(id: string): Promise<AlertRule> {
+    return this.prisma.alertRule.delete({
+      where: { id },
+    });
+  }
+}
+
+export class AlertRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: {
+    ruleId: string;
+    deviceId?: string;
+    key: string;
+    severity: string;
+    message: string;
+    triggeredAt: Date;
+  }): Promise<Alert> {
+    return this.prisma.alert.create({
+      data: {
+        id: uuidv4(),
+        ...data,
+        lastTriggeredAt: data.triggeredAt,
+      },
+    });
+  }
+
+  /**
+   * Find the open or acknowledged alert a rule raised for a key
+   */
+  async findUnresolved(ruleId: string, key: string): Promise<Alert | null> {
+    return this.prisma.alert.findFirst({
+      where: { ruleId, key, status: { not: "resolved" } },
+    });
+  }
+
+  /**
+   * Count a repeat trigger towards an unresolved alert
+   */
+  async recordOccurrence(
+    id: string,
+    data: { message: string; triggeredAt: Date }
+  ): Promise<Alert> {
+    return this.prisma.alert.update({
+      where: { id },
+      data: {
+        message: data.message,
+        occurrences: { increment: 1 },
+        lastTriggeredAt: data.triggeredAt,
+      },
+    });
+  }
+
+  async findById(id: string): Promise<Alert | null> {
+    return this.prisma.alert.findUnique({
+      where: { id },
+    });
+  }
+
+  async findAll(
+    options: AlertFilters & { limit?: number; offset?: number }
+  ): Promise<{ alerts: Alert[]; total: number }> {
+    const where: Prisma.AlertWhereInput = {
+      status: options.statuses?.length ? { in: options.statuses } : undefined,
+      severity: options.severities?.length
+        ? { in: options.severities }
+        : undefined,
+      deviceId: options.deviceId,
+      ruleId: options.ruleId,
+    };
+
+    const [alerts, total] = await Promise.all([
+      this.prisma.alert.findMany({
+        where,
+        orderBy: [{ lastTriggeredAt: "desc" }, { id: "desc" }],
+        take: options.limit || 100,
+        skip: options.offset || 0,
       }),
-      this.prisma.transaction.count({
-        where: { deviceId: options.deviceId },
+      this.prisma.alert.count({ where }),
+    ]);
+
+    return { alerts, total };
+  }
+
+  async acknowledge(id: string, by: string, at: Date): Promise<Alert> {
+    return this.prisma.alert.update({
+      where: { id },
+      data: { status: "acknowledged", acknowledgedAt: at, acknowledgedBy: by },
+    });
+  }
+
+  async resolve(id: string, by: string, at: Date): Promise<Alert> {
+    return this.prisma.alert.update({
+      where: { id },
+      data: { status: "resolved", resolvedAt: at, resolvedBy: by },
+    });
+  }
+}
+
+export class WebhookRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: {
+    name: string;
+    url: string;
+    secret: string;
+    events: string[];
+    eventTypes: string[];
+    enabled: boolean;
+  }): Promise<Webhook> {
+    return this.prisma.webhook.create({
+      data: { id: uuidv4(), ...data },
+    });
+  }
+
+  async findAll(): Promise<Webhook[]> {
+    return this.prisma.webhook.findMany({
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async findById(id: string): Promise<Webhook | null> {
+    return this.prisma.webhook.findUnique({
+      where: { id },
+    });
+  }
+
+  async update(
+    id: string,
+    data: {
+      name?: string;
+      url?: string;
+      events?: string[];
+      eventTypes?: string[];
+      enabled?: boolean;
+    }
+  ): Promise<Webhook> {
+    return this.prisma.webhook.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async delete(id: string): Promise<Webhook> {
+    return this.prisma.webhook.delete({
+      where: { id },
+    });
+  }
+}
+
+export interface WebhookDeliveryFilters {
+  webhookId?: string;
+  statuses?: string[];
+}
+
+export class WebhookDeliveryRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(data: {
+    webhookId: string;
+    event: string;
+    payload: unknown;
+    nextAttemptAt: Date | null;
+  }): Promise<WebhookDelivery> {
+    return this.prisma.webhookDelivery.create({
+      data: { id: uuidv4(), ...data, payload: this.toJson(data.payload) },
+    });
+  }
+
+  /**
+   * Queue the same event for several webhooks
+   */
+  async createMany(
+    webhookIds: string[],
+    data: { event: string; payload: unknown; nextAttemptAt: Date }
+  ): Promise<number> {
+    const payload = this.toJson(data.payload);
+    const result = await this.prisma.webhookDelivery.createMany({
+      data: webhookIds.map((webhookId) => ({
+        id: uuidv4(),
+        webhookId,
+        event: data.event,
+        payload,
+        nextAttemptAt: data.nextAttemptAt,
+      })),
+    });
+    return result.count;
+  }
+
+  async findById(id: string): Promise<WebhookDelivery | null> {
+    return this.prisma.webhookDelivery.findUnique({
+      where: { id },
+    });
+  }
+
+  /**
+   * Get pending deliveries due by the given time, for enabled webhooks,
+   * oldest first
+   */
+  async findDue(
+    now: Date,
+    limit: number
+  ): Promise<(WebhookDelivery & { webhook: Webhook })[]> {
+    return this.prisma.webhookDelivery.findMany({
+      where: {
+        status: "pending",
+        nextAttemptAt: { lte: now },
+        webhook: { enabled: true },
+      },
+      include: { webhook: true },
+      orderBy: [{ nextAttemptAt: "asc" }, { createdAt: "asc" }],
+      take: limit,
+    });
+  }
+
+  async findAll(
+    options: WebhookDeliveryFilters & { limit?: number; offset?: number }
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      webhookId: options.webhookId,
+      status: options.statuses?.length ? { in: options.statuses } : undefined,
+    };
+
+    const [deliveries, total] = await Promise.all([
+      this.prisma.webhookDelivery.findMany({
+        where,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: options.limit || 100,
+        skip: options.offset || 0,
       }),
+      this.prisma.webhookDelivery.count({ where }),
     ]);
 
-    return { transactions, total };
+    return { deliveries, total };
+  }
+
+  /**
+   * Delete delivered and dead deliveries created before the cutoff,
+   * returning how many were removed
+   */
+  async deleteFinishedBefore(cutoff: Date): Promise<number> {
+    const result = await this.prisma.webhookDelivery.deleteMany({
+      where: {
+        status: { in: ["delivered", "dead"] },
+        createdAt: { lt: cutoff },
+      },
+    });
+    return result.count;
+  }
+
+  /**
+   * Record the outcome of an attempt, or reset a delivery for another try
+   */
+  async update(
+    id: string,
+    data: {
+      status: string;
+      attempts: number;
+      nextAttemptAt: Date | null;
+      responseStatus?: number | null;
+      error?: string | null;
+      deliveredAt?: Date | null;
+    }
+  ): Promise<WebhookDelivery> {
+    return this.prisma.webhookDelivery.update({
+      where: { id },
+      data,
+    });
+  }
+
+  // Event data holds Dates, which Prisma's JSON input doesn't accept
+  private toJson(value: unknown): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(value ?? null));
   }
 }
@@ -1,23 +1,161 @@
 import { Router } from "express";
-import { DeviceHandler, TransactionHandler } from "./handlers";
+import {
+  AlertHandler,
+  AuditHandler,
+  AuthHandler,
+  DeviceHandler,
+  IngestionHandler,
+  ProbeHandler,
+  TransactionHandler,
+  WebhookHandler,
+} from "./handlers";
+import { authorize, csvBody, validate } from "./middleware";
+import {
+  alertQuerySchema,
+  auditQuerySchema,
+  backfillBodySchema,
+  bulkSelectionBodySchema,
+  connectivityQuerySchema,
+  createAlertRuleBodySchema,
+  createApiKeyBodySchema,
+  createDeviceBodySchema,
+  createUserBodySchema,
+  createWebhookBodySchema,
+  deadLetterQuerySchema,
+  deviceTransactionQuerySchema,
+  exportQuerySchema,
+  historyQuerySchema,
+  idParamsSchema,
+  importDevicesBodySchema,
+  ingestEventsBodySchema,
+  listDevicesQuerySchema,
+  loginBodySchema,
+  simulationConfigBodySchema,
+  statsQuerySchema,
+  streamQuerySchema,
+  transactionQuerySchema,
+  transitionBodySchema,
+  updateAlertRuleBodySchema,
+  updateDeviceBodySchema,
+  updateWebhookBodySchema,
+  urlTokenBodySchema,
+  webhookDeliveryQuerySchema,
+} from "./schemas";
 
 export function createDeviceRoutes(deviceHandler: DeviceHandler): Router {
   const router = Router();
 
-  // Device management routes
-  router.post("/devices", (req, res) => deviceHandler.createDevice(req, res));
-  router.get("/devices", (req, res) => deviceHandler.getAllDevices(req, res));
-  router.get("/devices/:id", (req, res) =>
+  // Device management routes. Reading needs the viewer role, which
+  // createApp requires for every route registered after the auth routes.
+  router.post(
+    "/devices",
+    authorize("operator"),
+    validate({ body: createDeviceBodySchema }),
+    (req, res) => deviceHandler.createDevice(req, res)
+  );
+  // Registered before the /devices/:id routes so "import" and "bulk"
+  // aren't taken for IDs
+  router.post(
+    "/devices/import",
+    authorize("operator"),
+    csvBody(),
+    validate({ body: importDevicesBodySchema }),
+    (req, res) => deviceHandler.importDevices(req, res)
+  );
+  router.post(
+    "/devices/bulk/activate",
+    authorize("operator"),
+    validate({ body: bulkSelectionBodySchema }),
+    (req, res) => deviceHandler.bulkActivate(req, res)
+  );
+  router.post(
+    "/devices/bulk/deactivate",
+    authorize("operator"),
+    validate({ body: bulkSelectionBodySchema }),
+    (req, res) => deviceHandler.bulkDeactivate(req, res)
+  );
+  router.post(
+    "/devices/bulk/delete",
+    authorize("admin"),
+    validate({ body: bulkSelectionBodySchema }),
+    (req, res) => deviceHandler.bulkDelete(req, res)
+  );
+  router.get(
+    "/devices",
+    validate({ query: listDevicesQuerySchema }),
+    (req, res) => deviceHandler.getAllDevices(req, res)
+  );
+  router.get("/stats/devices", (req, res) =>
+    deviceHandler.getDeviceStats(req, res)
+  );
+  router.get("/devices/:id", validate({ params: idParamsSchema }), (req, res) =>
     deviceHandler.getDeviceById(req, res)
   );
-  router.post("/devices/:id/activate", (req, res) =>
-    deviceHandler.activateDevice(req, res)
+  router.patch(
+    "/devices/:id",
+    authorize("operator"),
+    validate({ params: idParamsSchema, body: updateDeviceBodySchema }),
+    (req, res) => deviceHandler.updateDevice(req, res)
+  );
+  router.put(
+    "/devices/:id/simulation",
+    authorize("operator"),
+    validate({ params: idParamsSchema, body: simulationConfigBodySchema }),
+    (req, res) => deviceHandler.updateSimulation(req, res)
+  );
+  router.post(
+    "/devices/:id/simulate",
+    authorize("operator"),
+    validate({ params: idParamsSchema, body: backfillBodySchema }),
+    (req, res) => deviceHandler.backfillTransactions(req, res)
+  );
+  router.post(
+    "/devices/:id/activate",
+    authorize("operator"),
+    validate({ params: idParamsSchema }),
+    (req, res) => deviceHandler.activateDevice(req, res)
+  );
+  router.post(
+    "/devices/:id/deactivate",
+    authorize("operator"),
+    validate({ params: idParamsSchema }),
+    (req, res) => deviceHandler.deactivateDevice(req, res)
   );
-  router.post("/devices/:id/deactivate", (req, res) =>
-    deviceHandler.deactivateDevice(req, res)
+  router.post(
+    "/devices/:id/transitions",
+    authorize("operator"),
+    validate({ params: idParamsSchema, body: transitionBodySchema }),
+    (req, res) => deviceHandler.transitionDevice(req, res)
   );
-  router.delete("/devices/:id", (req, res) =>
-    deviceHandler.deleteDevice(req, res)
+  router.delete(
+    "/devices/:id",
+    authorize("admin"),
+    validate({ params: idParamsSchema }),
+    (req, res) => deviceHandler.deleteDevice(req, res)
+  );
+  router.post(
+    "/devices/:id/restore",
+    authorize("admin"),
+    validate({ params: idParamsSchema }),
+    (req, res) => deviceHandler.restoreDevice(req, res)
+  );
+  router.delete(
+    "/devices/:id/purge",
+    authorize("admin"),
+    validate({ params: idParamsSchema }),
+    (req, res) => deviceHandler.purgeDevice(req, res)
+  );
+  router.post(
+    "/devices/:id/secret",
+    authorize("admin"),
+    validate({ params: idParamsSchema }),
+    (req, res) => deviceHandler.issueDeviceSecret(req, res)
+  );
+  router.delete(
+    "/devices/:id/secret",
+    authorize("admin"),
+    validate({ params: idParamsSchema }),
+    (req, res) => deviceHandler.revokeDeviceSecret(req, res)
   );
 
   return router;
@@ -29,11 +167,241 @@ export function createTransactionRoutes(
   const router = Router();
 
   // Transaction routes
-  router.get("/transactions", (req, res) =>
-    transactionHandler.getTransactions(req, res)
+  router.get(
+    "/transactions",
+    validate({ query: transactionQuerySchema }),
+    (req, res) => transactionHandler.getTransactions(req, res)
+  );
+  router.get(
+    "/transactions/export",
+    validate({ query: exportQuerySchema }),
+    (req, res) => transactionHandler.exportTransactions(req, res)
+  );
+  router.get(
+    "/stats/transactions",
+    validate({ query: statsQuerySchema }),
+    (req, res) => transactionHandler.getTransactionStats(req, res)
+  );
+  router.get(
+    "/transactions/stream",
+    validate({ query: streamQuerySchema }),
+    (req, res) => transactionHandler.streamTransactions(req, res)
+  );
+  router.get(
+    "/devices/:id/transactions",
+    validate({ params: idParamsSchema, query: deviceTransactionQuerySchema }),
+    (req, res) => transactionHandler.getDeviceTransactions(req, res)
+  );
+
+  return router;
+}
+
+export function createAuthRoutes(authHandler: AuthHandler): Router {
+  const router = Router();
+
+  // Login is the only route open to anonymous callers
+  router.post("/auth/login", validate({ body: loginBodySchema }), (req, res) =>
+    authHandler.login(req, res)
+  );
+  router.get("/auth/me", authorize("viewer"), (req, res) =>
+    authHandler.getCurrentPrincipal(req, res)
+  );
+  router.post(
+    "/auth/url-token",
+    authorize("viewer"),
+    validate({ body: urlTokenBodySchema }),
+    (req, res) => authHandler.createUrlToken(req, res)
+  );
+
+  // User and API key management
+  router.get("/users", authorize("admin"), (req, res) =>
+    authHandler.getUsers(req, res)
+  );
+  router.post(
+    "/users",
+    authorize("admin"),
+    validate({ body: createUserBodySchema }),
+    (req, res) => authHandler.createUser(req, res)
+  );
+  router.get("/api-keys", authorize("admin"), (req, res) =>
+    authHandler.getApiKeys(req, res)
+  );
+  router.post(
+    "/api-keys",
+    authorize("admin"),
+    validate({ body: createApiKeyBodySchema }),
+    (req, res) => authHandler.createApiKey(req, res)
+  );
+  router.delete(
+    "/api-keys/:id",
+    authorize("admin"),
+    validate({ params: idParamsSchema }),
+    (req, res) => authHandler.revokeApiKey(req, res)
+  );
+
+  return router;
+}
+
+export function createIngestionRoutes(
+  ingestionHandler: IngestionHandler
+): Router {
+  const router = Router();
+
+  // Physical devices authenticate with their own secret rather than a user
+  // token, so these routes don't need a role
+  router.post(
+    "/devices/:id/heartbeat",
+    validate({ params: idParamsSchema }),
+    (req, res) => ingestionHandler.recordHeartbeat(req, res)
+  );
+  router.post(
+    "/devices/:id/events",
+    validate({ params: idParamsSchema, body: ingestEventsBodySchema }),
+    (req, res) => ingestionHandler.ingestEvents(req, res)
+  );
+
+  return router;
+}
+
+export function createProbeRoutes(probeHandler: ProbeHandler): Router {
+  const router = Router();
+
+  router.get(
+    "/devices/:id/connectivity",
+    validate({ params: idParamsSchema, query: connectivityQuerySchema }),
+    (req, res) => probeHandler.getConnectivity(req, res)
+  );
+  router.post(
+    "/devices/:id/probe",
+    authorize("operator"),
+    validate({ params: idParamsSchema }),
+    (req, res) => probeHandler.probeDevice(req, res)
+  );
+
+  return router;
+}
+
+export function createAuditRoutes(auditHandler: AuditHandler): Router {
+  const router = Router();
+
+  // Audit log routes
+  router.get(
+    "/audit",
+    authorize("admin"),
+    validate({ query: auditQuerySchema }),
+    (req, res) => auditHandler.getAuditEvents(req, res)
+  );
+  router.get(
+    "/devices/:id/history",
+    authorize("operator"),
+    validate({ params: idParamsSchema, query: historyQuerySchema }),
+    (req, res) => auditHandler.getDeviceHistory(req, res)
+  );
+
+  return router;
+}
+
+export function createAlertRoutes(alertHandler: AlertHandler): Router {
+  const router = Router();
+
+  // Alert rules and the alerts they raise. Anyone may read them; operators
+  // manage rules and work alerts.
+  router.get("/alert-rules", (req, res) =>
+    alertHandler.getAlertRules(req, res)
+  );
+  router.post(
+    "/alert-rules",
+    authorize("operator"),
+    validate({ body: createAlertRuleBodySchema }),
+    (req, res) => alertHandler.createAlertRule(req, res)
+  );
+  router.patch(
+    "/alert-rules/:id",
+    authorize("operator"),
+    validate({ params: idParamsSchema, body: updateAlertRuleBodySchema }),
+    (req, res) => alertHandler.updateAlertRule(req, res)
+  );
+  router.delete(
+    "/alert-rules/:id",
+    authorize("operator"),
+    validate({ params: idParamsSchema }),
+    (req, res) => alertHandler.deleteAlertRule(req, res)
+  );
+  router.get("/alerts", validate({ query: alertQuerySchema }), (req, res) =>
+    alertHandler.getAlerts(req, res)
+  );
+  router.post(
+    "/alerts/:id/acknowledge",
+    authorize("operator"),
+    validate({ params: idParamsSchema }),
+    (req, res) => alertHandler.acknowledgeAlert(req, res)
+  );
+  router.post(
+    "/alerts/:id/resolve",
+    authorize("operator"),
+    validate({ params: idParamsSchema }),
+    (req, res) => alertHandler.resolveAlert(req, res)
+  );
+
+  return router;
+}
+
+export function createWebhookRoutes(webhookHandler: WebhookHandler): Router {
+  const router = Router();
+
+  // Webhooks hold signing secrets and reach other systems, so they're
+  // admin only. Dead letters come before /webhooks/:id so "dead-letters"
+  // isn't taken for an ID.
+  router.get(
+    "/webhooks/dead-letters",
+    authorize("admin"),
+    validate({ query: deadLetterQuerySchema }),
+    (req, res) => webhookHandler.getDeadLetters(req, res)
+  );
+  router.post(
+    "/webhooks/deliveries/:id/redeliver",
+    authorize("admin"),
+    validate({ params: idParamsSchema }),
+    (req, res) => webhookHandler.redeliver(req, res)
+  );
+  router.get("/webhooks", authorize("admin"), (req, res) =>
+    webhookHandler.getWebhooks(req, res)
+  );
+  router.post(
+    "/webhooks",
+    authorize("admin"),
+    validate({ body: createWebhookBodySchema }),
+    (req, res) => webhookHandler.createWebhook(req, res)
+  );
+  router.get(
+    "/webhooks/:id",
+    authorize("admin"),
+    validate({ params: idParamsSchema }),
+    (req, res) => webhookHandler.getWebhookById(req, res)
+  );
+  router.patch(
+    "/webhooks/:id",
+    authorize("admin"),
+    validate({ params: idParamsSchema, body: updateWebhookBodySchema }),
+    (req, res) => webhookHandler.updateWebhook(req, res)
+  );
+  router.delete(
+    "/webhooks/:id",
+    authorize("admin"),
+    validate({ params: idParamsSchema }),
+    (req, res) => webhookHandler.deleteWebhook(req, res)
+  );
+  router.post(
+    "/webhooks/:id/test",
+    authorize("admin"),
+    validate({ params: idParamsSchema }),
+    (req, res) => webhookHandler.testWebhook(req, res)
   );
-  router.get("/devices/:id/transactions", (req, res) =>
-    transactionHandler.getDeviceTransactions(req, res)
+  router.get(
+    "/webhooks/:id/deliveries",
+    authorize("admin"),
+    validate({ params: idParamsSchema, query: webhookDeliveryQuerySchema }),
+    (req, res) => webhookHandler.getDeliveries(req, res)
   );
 
   return router;
@@ -0,0 +1,437 @@
+import { z } from "zod";
+import {
+  ALERT_GROUP_BY,
+  ALERT_SEVERITIES,
+  ALERT_STATUSES,
+  ALERTS,
+  AUDIT_ACTIONS,
+  AUTH,
+  BULK,
+  DEVICE_STATUSES,
+  DEVICE_TYPES,
+  EVENT_TYPES,
+  EXPORT_FORMATS,
+  INGESTION,
+  ROLES,
+  SIMULATION,
+  SIMULATION_SCHEDULES,
+  STATS,
+  STATS_BUCKETS,
+  STATS_GROUP_BY,
+  URL_TOKEN_PATHS,
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_EVENTS,
+} from "./constants";
+
+/**
+ * Request schemas for every route
+ */
+
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * A bounded integer sent as a number or a query string
+ */
+function integer(min: number, max?: number) {
+  const bounded = z.coerce.number<string | number>().int().min(min);
+  return z
+    .union([z.string(), z.number()])
+    .pipe(max === undefined ? bounded : bounded.max(max));
+}
+
+/**
+ * A string that must be one of the given values
+ */
+function oneOf(values: string[], label: string) {
+  return z.string().refine((value) => values.includes(value), {
+    message: `Invalid ${label}. Must be one of: ${values.join(", ")}`,
+  });
+}
+
+/**
+ * A list sent as a repeated or comma-separated query value
+ */
+function list(item: z.ZodType<string, string>) {
+  return z
+    .union([z.string(), z.array(z.string())])
+    .transform((value) =>
+      (Array.isArray(value) ? value : [value])
+        .flatMap((v) => v.split(","))
+        .map((v) => v.trim())
+        .filter((v) => v.length > 0)
+    )
+    .pipe(z.array(item));
+}
+
+const timestamp = z.string().pipe(z.coerce.date<string>());
+
+const deviceName = z.string().trim().min(1).max(100);
+const deviceType = oneOf(DEVICE_TYPES, "device type");
+const eventType = oneOf(EVENT_TYPES, "event type");
+const ipAddress = z.union([z.ipv4(), z.ipv6()], {
+  error: "Invalid IP address",
+});
+const username = z.string().trim().min(1).max(100);
+const port = integer(1, 65535).nullable();
+
+export const idParamsSchema = z.object({
+  id: z.uuid(),
+});
+
+const simulationInterval = integer(
+  SIMULATION.MIN_INTERVAL,
+  SIMULATION.MAX_INTERVAL
+).nullable();
+
+// Omitted fields reset to their defaults
+export const simulationConfigBodySchema = z
+  .object({
+    minInterval: simulationInterval.default(null),
+    maxInterval: simulationInterval.default(null),
+    burstMode: z.boolean().default(false),
+    schedule: oneOf(SIMULATION_SCHEDULES, "schedule").default("always"),
+  })
+  .refine(
+    (config) =>
+      config.minInterval === null ||
+      config.maxInterval === null ||
+      config.minInterval <= config.maxInterval,
+    {
+      message: "'minInterval' must not exceed 'maxInterval'",
+      path: ["minInterval"],
+    }
+  );
+
+const deviceFields = {
+  name: deviceName,
+  deviceType,
+  ipAddress,
+};
+
+export const createDeviceBodySchema = z.object({
+  ...deviceFields,
+  port: port.optional(),
+  simulation: simulationConfigBodySchema.optional(),
+});
+
+// Rows sent as an array or as { devices: [...] }. CSV bodies are turned
+// into the same records before validation.
+export const importDevicesBodySchema = z.preprocess(
+  (body) => (Array.isArray(body) ? { devices: body } : body),
+  z.object({
+    devices: z.array(createDeviceBodySchema).min(1).max(BULK.MAX_DEVICES),
+  })
+);
+
+// Devices to act on, by ID or by a filter over non-archived devices
+export const bulkSelectionBodySchema = z
+  .object({
+    ids: z.array(z.uuid()).min(1).max(BULK.MAX_DEVICES).optional(),
+    filter: z
+      .object({
+        deviceType: deviceType.optional(),
+        status: z.enum(DEVICE_STATUSES).optional(),
+        name: z.string().trim().min(1).max(100).optional(),
+      })
+      .refine((filter) => Object.values(filter).some((v) => v !== undefined), {
+        message: "Provide at least one of: deviceType, status, name",
+      })
+      .optional(),
+  })
+  .refine((body) => (body.ids === undefined) !== (body.filter === undefined), {
+    message: "Provide either 'ids' or 'filter'",
+  });
+
+export const updateDeviceBodySchema = z
+  .object({ ...deviceFields, port })
+  .partial()
+  .refine(
+    (body) =>
+      body.name !== undefined ||
+      body.deviceType !== undefined ||
+      body.ipAddress !== undefined ||
+      body.port !== undefined,
+    { message: "Provide at least one of: name, deviceType, ipAddress, port" }
+  );
+
+export const transitionBodySchema = z.object({
+  status: z.enum(DEVICE_STATUSES),
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+export const backfillBodySchema = z
+  .object({
+    from: timestamp,
+    to: timestamp,
+    // Transactions per hour; defaults to the device's interval range
+    rate: integer(1, SIMULATION.MAX_BACKFILL_RATE).optional(),
+    seed: z.string().min(1).max(100).optional(),
+  })
+  .refine((body) => body.from < body.to, {
+    message: "'from' must be before 'to'",
+    path: ["from"],
+  });
+
+const ingestEvent = z.object({
+  eventId: z.string().trim().min(1).max(100),
+  eventType,
+  username,
+  timestamp: timestamp.optional(),
+  payload: z.record(z.string(), z.unknown()).optional(),
+});
+
+// A single event, or a batch sent as an array or as { events: [...] }
+export const ingestEventsBodySchema = z.preprocess(
+  (body) => {
+    if (Array.isArray(body)) return { events: body };
+    if (body !== null && typeof body === "object" && "events" in body) {
+      return body;
+    }
+    return { events: [body] };
+  },
+  z.object({
+    events: z.array(ingestEvent).min(1).max(INGESTION.MAX_BATCH_SIZE),
+  })
+);
+
+export const listDevicesQuerySchema = z.object({
+  includeArchived: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+});
+
+export const paginationQuerySchema = z.object({
+  limit: integer(1, MAX_PAGE_SIZE).optional(),
+  offset: integer(0).optional(),
+  cursor: z.string().max(500).optional(),
+});
+
+const transactionFilterFields = {
+  deviceId: z.uuid().optional(),
+  from: timestamp.optional(),
+  to: timestamp.optional(),
+  eventType: list(eventType).optional(),
+  username: username.optional(),
+  usernamePrefix: username.optional(),
+  deviceType: deviceType.optional(),
+  sort: z.enum(["asc", "desc"]).optional(),
+};
+
+const fromBeforeTo = (query: { from?: Date; to?: Date }) =>
+  !query.from || !query.to || query.from <= query.to;
+
+export const transactionQuerySchema = paginationQuerySchema
+  .extend(transactionFilterFields)
+  .refine(fromBeforeTo, {
+    message: "'from' must be before 'to'",
+    path: ["from"],
+  });
+
+// A device's own transactions, so everything but the device filter
+export const deviceTransactionQuerySchema = paginationQuerySchema
+  .extend(transactionFilterFields)
+  .omit({ deviceId: true })
+  .refine(fromBeforeTo, {
+    message: "'from' must be before 'to'",
+    path: ["from"],
+  });
+
+export const exportQuerySchema = z
+  .object({
+    ...transactionFilterFields,
+    format: oneOf(EXPORT_FORMATS, "export format").default("csv"),
+  })
+  .refine(fromBeforeTo, {
+    message: "'from' must be before 'to'",
+    path: ["from"],
+  });
+
+export const statsQuerySchema = z
+  .object({
+    // Defaults to the day before 'to', which defaults to now
+    from: timestamp.optional(),
+    to: timestamp.optional(),
+    bucket: z.enum(STATS_BUCKETS).default("hour"),
+    groupBy: z.enum(STATS_GROUP_BY).optional(),
+    deviceId: z.uuid().optional(),
+    eventType: list(eventType).optional(),
+    deviceType: deviceType.optional(),
+    username: username.optional(),
+    top: integer(1, 100).default(STATS.DEFAULT_TOP),
+  })
+  .refine(fromBeforeTo, {
+    message: "'from' must be before 'to'",
+    path: ["from"],
+  });
+
+export const streamQuerySchema = z.object({
+  deviceId: z.uuid().optional(),
+  eventType: list(eventType).optional(),
+  lastEventId: integer(0).optional(),
+});
+
+export const auditQuerySchema = paginationQuerySchema
+  .omit({ cursor: true })
+  .extend({
+    deviceId: z.uuid().optional(),
+    actorId: z.string().max(100).optional(),
+    action: list(oneOf(AUDIT_ACTIONS, "audit action")).optional(),
+    from: timestamp.optional(),
+    to: timestamp.optional(),
+  })
+  .refine(fromBeforeTo, {
+    message: "'from' must be before 'to'",
+    path: ["from"],
+  });
+
+export const historyQuerySchema = paginationQuerySchema.omit({
+  cursor: true,
+});
+
+export const connectivityQuerySchema = z.object({
+  limit: integer(1, 500).optional(),
+});
+
+const alertRuleFields = {
+  name: z.string().trim().min(1).max(100),
+  severity: z.enum(ALERT_SEVERITIES).default("warning"),
+  enabled: z.boolean().default(true),
+  // Omit to watch every device
+  deviceId: z.uuid().optional(),
+};
+const windowSeconds = integer(1, ALERTS.MAX_WINDOW);
+
+export const createAlertRuleBodySchema = z.discriminatedUnion("type", [
+  z.object({ ...alertRuleFields, type: z.literal("event"), eventType }),
+  z.object({
+    ...alertRuleFields,
+    type: z.literal("threshold"),
+    eventType,
+    threshold: integer(1, 10000),
+    windowSeconds,
+    groupBy: z.enum(ALERT_GROUP_BY).default("username"),
+  }),
+  z.object({ ...alertRuleFields, type: z.literal("silence"), windowSeconds }),
+]);
+
+export const updateAlertRuleBodySchema = z
+  .object({
+    name: alertRuleFields.name,
+    severity: z.enum(ALERT_SEVERITIES),
+    enabled: z.boolean(),
+  })
+  .partial()
+  .refine(
+    (body) =>
+      body.name !== undefined ||
+      body.severity !== undefined ||
+      body.enabled !== undefined,
+    { message: "Provide at least one of: name, severity, enabled" }
+  );
+
+export const alertQuerySchema = paginationQuerySchema
+  .omit({ cursor: true })
+  .extend({
+    status: list(oneOf([...ALERT_STATUSES], "alert status")).optional(),
+    severity: list(oneOf([...ALERT_SEVERITIES], "severity")).optional(),
+    deviceId: z.uuid().optional(),
+    ruleId: z.uuid().optional(),
+  });
+
+const webhookFields = {
+  name: z.string().trim().min(1).max(100),
+  url: z.url({ protocol: /^https?$/, error: "Invalid http(s) URL" }).max(2000),
+  // Empty lists send everything
+  events: z.array(z.enum(WEBHOOK_EVENTS)),
+  eventTypes: z.array(eventType),
+  enabled: z.boolean(),
+};
+
+export const createWebhookBodySchema = z.object({
+  ...webhookFields,
+  events: webhookFields.events.default([]),
+  eventTypes: webhookFields.eventTypes.default([]),
+  enabled: webhookFields.enabled.default(true),
+});
+
+export const updateWebhookBodySchema = z
+  .object(webhookFields)
+  .partial()
+  .refine((body) => Object.values(body).some((v) => v !== undefined), {
+    message: "Provide at least one of: name, url, events, eventTypes, enabled",
+  });
+
+export const webhookDeliveryQuerySchema = paginationQuerySchema
+  .omit({ cursor: true })
+  .extend({
+    status: list(
+      oneOf([...WEBHOOK_DELIVERY_STATUSES], "delivery status")
+    ).optional(),
+  });
+
+export const deadLetterQuerySchema = paginationQuerySchema
+  .omit({ cursor: true })
+  .extend({
+    webhookId: z.uuid().optional(),
+  });
+
+export const loginBodySchema = z.object({
+  username: z.string().min(1).max(50),
+  password: z.string().min(1).max(200),
+});
+
+export const createUserBodySchema = z.object({
+  username: z
+    .string()
+    .min(3)
+    .max(50)
+    .regex(/^[a-zA-Z0-9_.-]+$/, {
+      message: "Use only letters, digits, '.', '_' and '-'",
+    }),
+  password: z.string().min(AUTH.MIN_PASSWORD_LENGTH).max(200),
+  role: z.enum(ROLES),
+});
+
+export const createApiKeyBodySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  role: z.enum(ROLES),
+});
+
+export const urlTokenBodySchema = z.object({
+  path: z.enum(URL_TOKEN_PATHS),
+});
+
+// Request shapes as sent by clients
+export type IdParams = z.input<typeof idParamsSchema>;
+export type CreateDeviceBody = z.input<typeof createDeviceBodySchema>;
+export type ImportDevicesBody = z.input<typeof importDevicesBodySchema>;
+export type BulkSelectionBody = z.input<typeof bulkSelectionBodySchema>;
+export type UpdateDeviceBody = z.input<typeof updateDeviceBodySchema>;
+export type SimulationConfigBody = z.input<typeof simulationConfigBodySchema>;
+export type TransitionBody = z.input<typeof transitionBodySchema>;
+export type BackfillBody = z.input<typeof backfillBodySchema>;
+export type IngestEventsBody = z.input<typeof ingestEventsBodySchema>;
+export type ListDevicesQuery = z.input<typeof listDevicesQuerySchema>;
+export type PaginationQuery = z.input<typeof paginationQuerySchema>;
+export type TransactionQuery = z.input<typeof transactionQuerySchema>;
+export type DeviceTransactionQuery = z.input<
+  typeof deviceTransactionQuerySchema
+>;
+export type ExportQuery = z.input<typeof exportQuerySchema>;
+export type StatsQuery = z.input<typeof statsQuerySchema>;
+export type StreamQuery = z.input<typeof streamQuerySchema>;
+export type AuditQuery = z.input<typeof auditQuerySchema>;
+export type HistoryQuery = z.input<typeof historyQuerySchema>;
+export type ConnectivityQuery = z.input<typeof connectivityQuerySchema>;
+export type CreateAlertRuleBody = z.input<typeof createAlertRuleBodySchema>;
+export type UpdateAlertRuleBody = z.input<typeof updateAlertRuleBodySchema>;
+export type AlertQuery = z.input<typeof alertQuerySchema>;
+export type CreateWebhookBody = z.input<typeof createWebhookBodySchema>;
+export type UpdateWebhookBody = z.input<typeof updateWebhookBodySchema>;
+export type WebhookDeliveryQuery = z.input<typeof webhookDeliveryQuerySchema>;
+export type DeadLetterQuery = z.input<typeof deadLetterQuerySchema>;
+export type LoginBody = z.input<typeof loginBodySchema>;
+export type CreateUserBody = z.input<typeof createUserBodySchema>;
+export type CreateApiKeyBody = z.input<typeof createApiKeyBodySchema>;
+export type UrlTokenBody = z.input<typeof urlTokenBodySchema>;
@@ -1,412 +1,2924 @@
+import { EventEmitter } from "events";
+import { isIP } from "net";
 import { v4 as uuidv4 } from "uuid";
-import { DeviceRepository, TransactionRepository } from "./repositories";
-import { DEVICE_TYPES, SAMPLE_USERNAMES, EVENT_TYPES } from "./constants";
-import { getRandomItem, getRandomInterval, logger } from "./utils";
+import jwt from "jsonwebtoken";
+import type {
+  Alert,
+  AlertRule,
+  ApiKey,
+  Device,
+  ProbeResult,
+  Transaction,
+  User,
+  Webhook,
+  WebhookDelivery,
+} from "@prisma/client";
+import {
+  AlertRepository,
+  AlertRuleRepository,
+  ApiKeyRepository,
+  AuditEventRepository,
+  DeviceRepository,
+  DeviceSecretRepository,
+  ProbeResultRepository,
+  TransactionRepository,
+  UserRepository,
+  WebhookDeliveryRepository,
+  WebhookRepository,
+} from "./repositories";
+import type {
+  AlertFilters,
+  AuditEventFilters,
+  DeviceFilter,
+  NewTransaction,
+  PageOptions,
+  SortDirection,
+  TransactionFilters,
+  TransactionPage,
+  WebhookDeliveryFilters,
+} from "./repositories";
+import {
+  ALERTS,
+  DEVICE_STATUSES,
+  DEVICE_TRANSITIONS,
+  DEVICE_TYPES,
+  SAMPLE_USERNAMES,
+  EVENT_STREAM,
+  EXPORT_BATCH_SIZE,
+  AUTH,
+  HEARTBEAT,
+  PROBE,
+  SIMULATION,
+  STATS,
+  WEBHOOKS,
+} from "./constants";
+import type {
+  AlertRuleType,
+  DeviceStatus,
+  Role,
+  StatsBucket,
+  StatsGroupBy,
+  UrlTokenPath,
+} from "./constants";
+import {
+  createScheduler,
+  getSimulatorProfile,
+  simulateEvent,
+} from "./simulator";
+import type { SimulationConfig } from "./simulator";
+import { systemClock } from "./clock";
+import type { Clock } from "./clock";
+import { probeTcp } from "./probe";
+import type { Prober } from "./probe";
+import { postWebhook } from "./webhooks";
+import type { WebhookSender } from "./webhooks";
+import {
+  AppError,
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from "./errors";
+import type { ErrorCode, ErrorDetail } from "./errors";
+import {
+  createSeededRandom,
+  encodeCursor,
+  generateApiKey,
+  generateDeviceSecret,
+  generateWebhookSecret,
+  getRandomItem,
+  hashApiKey,
+  hashPassword,
+  logger,
+  signWebhookPayload,
+  verifyPassword,
+  verifySecret,
+} from "./utils";
+import type { RandomSource } from "./utils";
+
+export type StreamEventType = "transaction" | "device" | "alert";
+
+export interface StreamEvent {
+  id: number;
+  type: StreamEventType;
+  data: any;
+}
+
+/**
+ * In-process publish/subscribe hub feeding the real-time event stream
+ */
+export class EventStreamService {
+  private emitter = new EventEmitter();
+  private buffer: StreamEvent[] = [];
+  // Seeded from the clock so IDs keep increasing across restarts
+  private nextId: number;
+
+  constructor(clock: Clock = systemClock) {
+    this.emitter.setMaxListeners(0);
+    this.nextId = clock.now().getTime();
+  }
+
+  /**
+   * Publish an event to every subscriber
+   */
+  publish(type: StreamEventType, data: any): StreamEvent {
+    const event: StreamEvent = { id: this.nextId++, type, data };
+
+    this.buffer.push(event);
+    if (this.buffer.length > EVENT_STREAM.BUFFER_SIZE) {
+      this.buffer.shift();
+    }
+
+    this.emitter.emit("event", event);
+    return event;
+  }
+
+  /**
+   * Subscribe to new events matching the filter, first replaying buffered
+   * events after lastEventId. `complete` is false when some of the events
+   * since lastEventId are no longer buffered and the client must resync.
+   */
+  subscribe(
+    listener: (event: StreamEvent) => void,
+    options: {
+      lastEventId?: number;
+      deviceId?: string;
+      eventTypes?: string[];
+    } = {}
+  ): { complete: boolean; unsubscribe: () => void } {
+    const filteredListener = (event: StreamEvent) => {
+      if (this.matches(event, options)) {
+        listener(event);
+      }
+    };
+
+    let complete = true;
+    if (options.lastEventId !== undefined) {
+      const lastEventId = options.lastEventId;
+      const earliestAvailable = this.buffer[0]?.id ?? this.nextId;
+      complete = lastEventId + 1 >= earliestAvailable;
+      this.buffer
+        .filter((event) => event.id > lastEventId)
+        .forEach(filteredListener);
+    }
+
+    this.emitter.on("event", filteredListener);
+
+    return {
+      complete,
+      unsubscribe: () => {
+        this.emitter.off("event", filteredListener);
+      },
+    };
+  }
+
+  /**
+   * Check an event against subscriber filters. Device and alert events are
+   * only filtered by device, transaction events by device and event type.
+   */
+  private matches(
+    event: StreamEvent,
+    options: { deviceId?: string; eventTypes?: string[] }
+  ): boolean {
+    if (event.type === "device") {
+      return !options.deviceId || event.data.device?.id === options.deviceId;
+    }
+    if (event.type === "alert") {
+      return (
+        !options.deviceId || event.data.alert?.deviceId === options.deviceId
+      );
+    }
+
+    if (options.deviceId && event.data.deviceId !== options.deviceId) {
+      return false;
+    }
+    if (
+      options.eventTypes?.length &&
+      !options.eventTypes.includes(event.data.eventType)
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Get count of connected subscribers
+   */
+  getSubscriberCount(): number {
+    return this.emitter.listenerCount("event");
+  }
+}
+
+/**
+ * Who is making a change and from where, recorded in the audit log
+ */
+export interface AuditContext {
+  actor: Principal;
+  ipAddress?: string;
+}
+
+/**
+ * Device counts for the dashboard
+ */
+export interface DeviceStats {
+  // Devices that aren't archived
+  total: number;
+  byStatus: Record<DeviceStatus, number>;
+  online: number;
+  archived: number;
+}
+
+/**
+ * Devices picked for a bulk action, by ID or by filter
+ */
+export interface DeviceSelection {
+  ids?: string[];
+  filter?: DeviceFilter;
+}
+
+export interface BulkFailure {
+  id: string;
+  code: ErrorCode;
+  error: string;
+}
 
 /**
- * Service for managing device lifecycle and transaction generation
+ * Outcome of a bulk action: the devices changed and why the others weren't
+ */
+export interface BulkResult {
+  devices: Device[];
+  failed: BulkFailure[];
+}
+
+/**
+ * Service for managing device lifecycle and transaction generation. With a
+ * seed, each device's generator draws from its own seeded random source, so
+ * together with a virtual clock its transactions are reproducible.
  */
 export class DeviceService {
-  private activeDeviceProcesses: Map<string, NodeJS.Timeout[]> = new Map();
+  // Cancels the pending timer of each running generator
+  private activeDeviceProcesses: Map<string, () => void> = new Map();
+
+  constructor(
+    private deviceRepository: DeviceRepository,
+    private transactionRepository: TransactionRepository,
+    private eventStreamService: EventStreamService,
+    private auditEventRepository: AuditEventRepository,
+    private deviceSecretRepository: DeviceSecretRepository,
+    private clock: Clock = systemClock,
+    private seed?: string
+  ) {}
+
+  /**
+   * Create a new device
+   */
+  async createDevice(
+    data: {
+      name: string;
+      deviceType: string;
+      ipAddress: string;
+      port?: number | null;
+      simulation?: SimulationConfig;
+    },
+    context: AuditContext
+  ): Promise<Device> {
+    await this.validateDeviceFields(data);
+
+    const device = await this.deviceRepository.create(data);
+    logger.info(`Device created: ${device.id}`, { name: device.name });
+
+    this.eventStreamService.publish("device", { action: "created", device });
+    await this.recordAudit("created", device.id, context, null, device);
+
+    return device;
+  }
+
+  /**
+   * Count devices by status and connectivity
+   */
+  async getDeviceStats(): Promise<DeviceStats> {
+    const { byStatus, online, archived } =
+      await this.deviceRepository.countByStatus();
+
+    const counts = Object.fromEntries(
+      DEVICE_STATUSES.map((status) => [status, 0])
+    ) as Record<DeviceStatus, number>;
+    for (const entry of byStatus) {
+      counts[entry.status] = entry.count;
+    }
+
+    return {
+      total: byStatus.reduce((sum, entry) => sum + entry.count, 0),
+      byStatus: counts,
+      online,
+      archived,
+    };
+  }
+
+  /**
+   * Get all devices
+   */
+  async getAllDevices(
+    options: { includeArchived?: boolean } = {}
+  ): Promise<Device[]> {
+    return this.deviceRepository.findAll(options);
+  }
+
+  /**
+   * Get a single device by ID
+   */
+  async getDeviceById(id: string): Promise<Device> {
+    const device = await this.deviceRepository.findById(id);
+
+    if (!device) {
+      throw new NotFoundError("DEVICE_NOT_FOUND", "Device not found");
+    }
+
+    return device;
+  }
+
+  /**
+   * Update a device's name, type, IP address or probe port. The type of an
+   * active device can't change since its generator was started for the old
+   * type.
+   */
+  async updateDevice(
+    id: string,
+    data: {
+      name?: string;
+      deviceType?: string;
+      ipAddress?: string;
+      port?: number | null;
+    },
+    context: AuditContext
+  ): Promise<Device> {
+    const device = await this.getDeviceById(id);
+
+    if (device.deletedAt) {
+      throw new ConflictError("DEVICE_ARCHIVED", "Device is archived");
+    }
+
+    if (
+      data.deviceType !== undefined &&
+      data.deviceType !== device.deviceType &&
+      device.status === "active"
+    ) {
+      throw new ConflictError(
+        "DEVICE_ACTIVE",
+        "Deactivate the device before changing its type"
+      );
+    }
+
+    await this.validateDeviceFields(data, id);
+
+    const updatedDevice = await this.deviceRepository.update(id, data);
+
+    logger.info(`Device updated: ${id}`, data);
+
+    this.eventStreamService.publish("device", {
+      action: "updated",
+      device: updatedDevice,
+    });
+    await this.recordAudit("updated", id, context, device, updatedDevice);
+
+    return updatedDevice;
+  }
+
+  /**
+   * Replace a device's simulation settings. A running generator is
+   * restarted so they take effect straight away.
+   */
+  async updateSimulation(
+    id: string,
+    simulation: SimulationConfig,
+    context: AuditContext
+  ): Promise<Device> {
+    const device = await this.getDeviceById(id);
+
+    if (device.deletedAt) {
+      throw new ConflictError("DEVICE_ARCHIVED", "Device is archived");
+    }
+
+    const updatedDevice = await this.deviceRepository.updateSimulation(
+      id,
+      simulation
+    );
+
+    if (this.activeDeviceProcesses.has(id)) {
+      this.stopTransactionGeneration(id);
+      this.startTransactionGeneration(updatedDevice);
+    }
+
+    logger.info(`Device simulation updated: ${id}`, simulation);
+
+    this.eventStreamService.publish("device", {
+      action: "updated",
+      device: updatedDevice,
+    });
+    await this.recordAudit("updated", id, context, device, updatedDevice);
+
+    return updatedDevice;
+  }
+
+  /**
+   * Bulk-generate historical transactions for a device between two times,
+   * following its simulator profile and settings. A rate, in transactions
+   * per hour, replaces the device's interval range. Rows are written in
+   * batches, so a failure part way leaves the earlier batches in place.
+   */
+  async backfillTransactions(
+    id: string,
+    options: { from: Date; to: Date; rate?: number; seed?: string }
+  ): Promise<number> {
+    const device = await this.getDeviceById(id);
+
+    if (device.deletedAt) {
+      throw new ConflictError("DEVICE_ARCHIVED", "Device is archived");
+    }
+
+    if (options.to > this.clock.now()) {
+      const message = "'to' must not be in the future";
+      throw new ValidationError(message, [
+        { location: "body", field: "to", message },
+      ]);
+    }
+
+    const profile = getSimulatorProfile(device.deviceType);
+    const config = this.getBackfillConfig(device, options.rate);
+
+    // Bursts and off-peak hours are left out of the estimate
+    const averageInterval =
+      ((config.minInterval ?? profile.interval.min) +
+        (config.maxInterval ?? profile.interval.max)) /
+      2;
+    const estimate = Math.round(
+      (options.to.getTime() - options.from.getTime()) / averageInterval
+    );
+    if (estimate > SIMULATION.MAX_BACKFILL_ROWS) {
+      throw new ValidationError(
+        `Backfill would write about ${estimate} transactions, over the ` +
+          `limit of ${SIMULATION.MAX_BACKFILL_ROWS}. Shorten the window ` +
+          "or lower the rate."
+      );
+    }
+
+    const random = this.createRandom(id, options.seed);
+    const nextInterval = createScheduler(profile, config, random);
+    const generatedAt = this.clock.now().toISOString();
+    const end = options.to.getTime();
+
+    let batch: NewTransaction[] = [];
+    let written = 0;
+    let time = options.from.getTime() + nextInterval(options.from);
+
+    while (
+      time <= end &&
+      written + batch.length < SIMULATION.MAX_BACKFILL_ROWS
+    ) {
+      const { eventType, payload } = simulateEvent(profile, random);
+      batch.push({
+        deviceId: id,
+        username: getRandomItem(SAMPLE_USERNAMES, random),
+        eventType,
+        timestamp: new Date(time),
+        payload: { ...payload, source: "backfill", generated_at: generatedAt },
+      });
+
+      if (batch.length === SIMULATION.BACKFILL_BATCH_SIZE) {
+        written += await this.transactionRepository.createMany(batch);
+        batch = [];
+      }
+
+      time += nextInterval(new Date(time));
+    }
+
+    if (batch.length > 0) {
+      written += await this.transactionRepository.createMany(batch);
+    }
+
+    logger.info(`Backfilled ${written} transaction(s) for device: ${id}`, {
+      from: options.from,
+      to: options.to,
+    });
+
+    return written;
+  }
+
+  /**
+   * Activate a device and start transaction generation
+   */
+  async activateDevice(id: string, context: AuditContext): Promise<Device> {
+    return this.transitionDevice(id, "active", undefined, context);
+  }
+
+  /**
+   * Deactivate a device and stop transaction generation
+   */
+  async deactivateDevice(id: string, context: AuditContext): Promise<Device> {
+    return this.transitionDevice(id, "inactive", undefined, context);
+  }
+
+  /**
+   * Move a device to another lifecycle status, if DEVICE_TRANSITIONS allows
+   * it. Transactions are only generated while the device is active.
+   */
+  async transitionDevice(
+    id: string,
+    status: DeviceStatus,
+    reason: string | undefined,
+    context: AuditContext
+  ): Promise<Device> {
+    const device = await this.getDeviceById(id);
+    this.checkTransition(device, status);
+
+    const updatedDevice = await this.deviceRepository.updateStatus(id, status);
+
+    // Only touch the generator once the new status is stored, so a failed
+    // write leaves an active device running
+    if (device.status === "active") {
+      this.stopTransactionGeneration(id);
+    }
+
+    // Physical devices push their own transactions
+    if (
+      status === "active" &&
+      !(await this.deviceSecretRepository.findByDeviceId(id))
+    ) {
+      this.startTransactionGeneration(updatedDevice);
+    }
+
+    logger.info(`Device ${id} moved from ${device.status} to ${status}`, {
+      reason,
+    });
+
+    const action = this.getTransitionAction(status);
+    this.eventStreamService.publish("device", {
+      action,
+      device: updatedDevice,
+    });
+    await this.recordAudit(action, id, context, device, updatedDevice, reason);
+
+    return updatedDevice;
+  }
+
+  /**
+   * Activate or deactivate many devices. Devices that can't make the move
+   * are reported as failed; the rest are updated in one transaction.
+   */
+  async bulkTransition(
+    selection: DeviceSelection,
+    status: "active" | "inactive",
+    context: AuditContext
+  ): Promise<BulkResult> {
+    const { devices, failed } = await this.selectDevices(selection);
+
+    const eligible = devices.filter((device) => {
+      try {
+        this.checkTransition(device, status);
+        return true;
+      } catch (error) {
+        if (!(error instanceof AppError)) throw error;
+        failed.push({ id: device.id, code: error.code, error: error.message });
+        return false;
+      }
+    });
+    if (eligible.length === 0) {
+      return { devices: [], failed };
+    }
+
+    const updatedDevices = await this.deviceRepository.updateStatusMany(
+      eligible.map((device) => device.id),
+      status
+    );
+
+    eligible
+      .filter((device) => device.status === "active")
+      .forEach((device) => this.stopTransactionGeneration(device.id));
+
+    // Physical devices push their own transactions
+    if (status === "active") {
+      const physicalDeviceIds = new Set(
+        await this.deviceSecretRepository.findDeviceIds()
+      );
+      updatedDevices
+        .filter((device) => !physicalDeviceIds.has(device.id))
+        .forEach((device) => this.startTransactionGeneration(device));
+    }
+
+    logger.info(`Bulk moved ${updatedDevices.length} device(s) to ${status}`, {
+      failed: failed.length,
+    });
+
+    const action = this.getTransitionAction(status);
+    const before = new Map(eligible.map((device) => [device.id, device]));
+    for (const device of updatedDevices) {
+      this.eventStreamService.publish("device", { action, device });
+      await this.recordAudit(
+        action,
+        device.id,
+        context,
+        before.get(device.id) ?? null,
+        device
+      );
+    }
+
+    return { devices: updatedDevices, failed };
+  }
+
+  /**
+   * Create many devices at once. Names are checked against existing
+   * devices and each other first, and nothing is created unless every row
+   * passes.
+   */
+  async importDevices(
+    rows: {
+      name: string;
+      deviceType: string;
+      ipAddress: string;
+      port?: number | null;
+      simulation?: SimulationConfig;
+    }[],
+    context: AuditContext
+  ): Promise<Device[]> {
+    const existingNames = new Set(
+      (
+        await this.deviceRepository.findByNames(rows.map((row) => row.name))
+      ).map((device) => device.name.toLowerCase())
+    );
+    const firstRows = new Map<string, number>();
+    const details: ErrorDetail[] = [];
+    rows.forEach((row, index) => {
+      const name = row.name.toLowerCase();
+      const field = `devices.${index}.name`;
+      if (existingNames.has(name)) {
+        details.push({
+          location: "body",
+          field,
+          message: `A device named "${row.name}" already exists`,
+        });
+      } else if (firstRows.has(name)) {
+        details.push({
+          location: "body",
+          field,
+          message: `Same name as devices.${firstRows.get(name)}`,
+        });
+      } else {
+        firstRows.set(name, index);
+      }
+    });
+    if (details.length > 0) {
+      throw new ValidationError("Validation failed", details);
+    }
+
+    const devices = await this.deviceRepository.createMany(rows);
+    logger.info(`Imported ${devices.length} device(s)`);
+
+    for (const device of devices) {
+      this.eventStreamService.publish("device", { action: "created", device });
+      await this.recordAudit("created", device.id, context, null, device);
+    }
+
+    return devices;
+  }
+
+  /**
+   * Archive a device and stop transaction generation. The device is hidden
+   * from listings but it and its transactions are kept.
+   */
+  async archiveDevice(id: string, context: AuditContext): Promise<Device> {
+    const device = await this.getDeviceById(id);
+
+    if (device.deletedAt) {
+      throw new ConflictError("DEVICE_ARCHIVED", "Device is already archived");
+    }
+
+    const archivedDevice = await this.deviceRepository.archive(
+      id,
+      device.status === "active" ? "inactive" : device.status
+    );
+
+    // Stop transaction generation if active
+    if (device.status === "active") {
+      this.stopTransactionGeneration(id);
+    }
+
+    logger.info(`Device archived: ${id}`);
+
+    this.eventStreamService.publish("device", {
+      action: "archived",
+      device: archivedDevice,
+    });
+    await this.recordAudit("archived", id, context, device, archivedDevice);
+
+    return archivedDevice;
+  }
+
+  /**
+   * Archive many devices in one transaction, stopping their transaction
+   * generation. Devices already archived are reported as failed.
+   */
+  async bulkArchive(
+    selection: DeviceSelection,
+    context: AuditContext
+  ): Promise<BulkResult> {
+    const { devices, failed } = await this.selectDevices(selection);
+
+    const eligible = devices.filter((device) => {
+      if (device.deletedAt) {
+        failed.push({
+          id: device.id,
+          code: "DEVICE_ARCHIVED",
+          error: "Device is already archived",
+        });
+        return false;
+      }
+      return true;
+    });
+    if (eligible.length === 0) {
+      return { devices: [], failed };
+    }
+
+    const archivedDevices = await this.deviceRepository.archiveMany(
+      eligible.map((device) => device.id)
+    );
+
+    eligible
+      .filter((device) => device.status === "active")
+      .forEach((device) => this.stopTransactionGeneration(device.id));
+
+    logger.info(`Bulk archived ${archivedDevices.length} device(s)`, {
+      failed: failed.length,
+    });
+
+    const before = new Map(eligible.map((device) => [device.id, device]));
+    for (const device of archivedDevices) {
+      this.eventStreamService.publish("device", { action: "archived", device });
+      await this.recordAudit(
+        "archived",
+        device.id,
+        context,
+        before.get(device.id) ?? null,
+        device
+      );
+    }
+
+    return { devices: archivedDevices, failed };
+  }
+
+  /**
+   * Restore an archived device. It comes back in the status it was archived
+   * with, which is never active.
+   */
+  async restoreDevice(id: string, context: AuditContext): Promise<Device> {
+    const device = await this.getDeviceById(id);
+
+    if (!device.deletedAt) {
+      throw new ConflictError("DEVICE_NOT_ARCHIVED", "Device is not archived");
+    }
+
+    // Another device may have taken the name while this one was archived
+    await this.validateDeviceFields({ name: device.name }, id);
+
+    const restoredDevice = await this.deviceRepository.restore(id);
+
+    logger.info(`Device restored: ${id}`);
+
+    this.eventStreamService.publish("device", {
+      action: "restored",
+      device: restoredDevice,
+    });
+    await this.recordAudit("restored", id, context, device, restoredDevice);
+
+    return restoredDevice;
+  }
+
+  /**
+   * Permanently delete an archived device along with all its transactions
+   */
+  async purgeDevice(id: string, context: AuditContext): Promise<void> {
+    const device = await this.getDeviceById(id);
+
+    if (!device.deletedAt) {
+      throw new ConflictError(
+        "DEVICE_NOT_ARCHIVED",
+        "Archive the device before purging it"
+      );
+    }
+
+    // Delete the device (cascade delete transactions via Prisma)
+    await this.deviceRepository.delete(id);
+
+    logger.info(`Device purged: ${id}`);
+
+    this.eventStreamService.publish("device", { action: "purged", device });
+    await this.recordAudit("purged", id, context, device, null);
+  }
+
+  /**
+   * Validate device fields, throwing for the first invalid one. Names must
+   * be unique, ignoring case.
+   */
+  private async validateDeviceFields(
+    data: {
+      name?: string;
+      deviceType?: string;
+      ipAddress?: string;
+    },
+    excludeId?: string
+  ): Promise<void> {
+    if (
+      data.deviceType !== undefined &&
+      !DEVICE_TYPES.includes(data.deviceType)
+    ) {
+      const message = `Invalid device type. Must be one of: ${DEVICE_TYPES.join(
+        ", "
+      )}`;
+      throw new ValidationError(message, [
+        { location: "body", field: "deviceType", message },
+      ]);
+    }
+
+    if (data.ipAddress !== undefined && isIP(data.ipAddress) === 0) {
+      const message = "Invalid IP address";
+      throw new ValidationError(message, [
+        { location: "body", field: "ipAddress", message },
+      ]);
+    }
+
+    if (data.name !== undefined) {
+      const existing = await this.deviceRepository.findByName(data.name);
+      if (existing && existing.id !== excludeId) {
+        throw new ConflictError(
+          "DEVICE_NAME_TAKEN",
+          `A device named "${existing.name}" already exists`
+        );
+      }
+    }
+  }
+
+  /**
+   * Throw unless the device may move to the status
+   */
+  private checkTransition(device: Device, status: DeviceStatus): void {
+    if (device.deletedAt) {
+      throw new ConflictError("DEVICE_ARCHIVED", "Device is archived");
+    }
+
+    if (device.status === status) {
+      throw new ConflictError(
+        status === "active"
+          ? "DEVICE_ALREADY_ACTIVE"
+          : status === "inactive"
+          ? "DEVICE_ALREADY_INACTIVE"
+          : "INVALID_TRANSITION",
+        `Device is already ${status}`
+      );
+    }
+
+    if (!DEVICE_TRANSITIONS[device.status].includes(status)) {
+      throw new ConflictError(
+        "INVALID_TRANSITION",
+        `Device can't move from ${device.status} to ${status}`
+      );
+    }
+  }
+
+  /**
+   * Audit and stream action for a move to the status
+   */
+  private getTransitionAction(status: DeviceStatus): string {
+    if (status === "active") return "activated";
+    if (status === "inactive") return "deactivated";
+    return "transitioned";
+  }
+
+  /**
+   * Look up the devices a bulk action targets. Requested IDs with no
+   * device are reported as failed.
+   */
+  private async selectDevices(
+    selection: DeviceSelection
+  ): Promise<{ devices: Device[]; failed: BulkFailure[] }> {
+    if (!selection.ids) {
+      return {
+        devices: await this.deviceRepository.findMatching(
+          selection.filter ?? {}
+        ),
+        failed: [],
+      };
+    }
+
+    const devices = await this.deviceRepository.findByIds(selection.ids);
+    const found = new Set(devices.map((device) => device.id));
+    const failed = [...new Set(selection.ids)]
+      .filter((id) => !found.has(id))
+      .map((id) => ({
+        id,
+        code: "DEVICE_NOT_FOUND" as const,
+        error: "Device not found",
+      }));
+    return { devices, failed };
+  }
+
+  /**
+   * Record a device change in the audit log
+   */
+  private async recordAudit(
+    action: string,
+    deviceId: string,
+    context: AuditContext,
+    before: Device | null,
+    after: Device | null,
+    reason?: string
+  ): Promise<void> {
+    try {
+      await this.auditEventRepository.create({
+        actorType: context.actor.kind,
+        actorId: context.actor.id,
+        actorName: context.actor.name,
+        action,
+        deviceId,
+        before: before ?? undefined,
+        after: after ?? undefined,
+        reason,
+        ipAddress: context.ipAddress,
+      });
+    } catch (error) {
+      // The change itself has been made, so don't fail the request over it
+      logger.error(`Error recording audit event for device ${deviceId}`, error);
+    }
+  }
+
+  /**
+   * Issue a new secret a physical device uses to push its events, replacing
+   * any previous one. The device stops running the in-process generator.
+   * The secret is only returned here; just its hash is stored.
+   */
+  async issueDeviceSecret(
+    id: string
+  ): Promise<{ deviceId: string; secret: string; createdAt: Date }> {
+    const device = await this.getDeviceById(id);
+
+    if (device.deletedAt) {
+      throw new ConflictError("DEVICE_ARCHIVED", "Device is archived");
+    }
+
+    const secret = generateDeviceSecret();
+    const deviceSecret = await this.deviceSecretRepository.upsert(
+      id,
+      hashApiKey(secret)
+    );
+
+    if (this.activeDeviceProcesses.has(id)) {
+      this.stopTransactionGeneration(id);
+    }
+
+    logger.info(`Device secret issued: ${id}`);
+
+    return { deviceId: id, secret, createdAt: deviceSecret.createdAt };
+  }
+
+  /**
+   * Revoke a device's secret, turning it back into a simulated device. An
+   * active device starts generating transactions again.
+   */
+  async revokeDeviceSecret(id: string): Promise<void> {
+    const device = await this.getDeviceById(id);
+
+    if (!(await this.deviceSecretRepository.findByDeviceId(id))) {
+      throw new NotFoundError(
+        "DEVICE_SECRET_NOT_FOUND",
+        "Device has no secret"
+      );
+    }
+
+    await this.deviceSecretRepository.delete(id);
+
+    if (device.status === "active" && !device.deletedAt) {
+      this.startTransactionGeneration(device);
+    }
+
+    logger.info(`Device secret revoked: ${id}`);
+  }
+
+  /**
+   * Simulation settings for a backfill. A rate sets the average interval,
+   * with delays spread from half to one and a half times it.
+   */
+  private getBackfillConfig(device: Device, rate?: number): SimulationConfig {
+    if (rate === undefined) {
+      return device;
+    }
+
+    const averageInterval = (60 * 60 * 1000) / rate;
+    return {
+      ...device,
+      minInterval: Math.round(averageInterval / 2),
+      maxInterval: Math.round(averageInterval * 1.5),
+    };
+  }
+
+  /**
+   * Random source for a device's simulated transactions, seeded when the
+   * service or the caller gives a seed
+   */
+  private createRandom(deviceId: string, seed?: string): RandomSource {
+    if (seed !== undefined) {
+      return createSeededRandom(seed);
+    }
+    if (this.seed !== undefined) {
+      return createSeededRandom(`${this.seed}:${deviceId}`);
+    }
+    return Math.random;
+  }
+
+  /**
+   * Restart transaction generation for devices left active by a previous run.
+   * Failures are logged rather than thrown since this runs at startup.
+   */
+  async resumeActiveDevices(): Promise<number> {
+    try {
+      const physicalDeviceIds = new Set(
+        await this.deviceSecretRepository.findDeviceIds()
+      );
+      const devices = (
+        await this.deviceRepository.findByStatus("active")
+      ).filter((device) => !physicalDeviceIds.has(device.id));
+
+      devices.forEach((device) => this.startTransactionGeneration(device));
+
+      if (devices.length > 0) {
+        logger.info(
+          `Resumed transaction generation for ${devices.length} device(s)`
+        );
+      }
+
+      return devices.length;
+    } catch (error) {
+      logger.error("Error resuming active devices", error);
+      return 0;
+    }
+  }
+
+  /**
+   * Start transaction generation for a device, following the simulator
+   * profile of its type and its own simulation settings
+   */
+  private startTransactionGeneration(device: Device): void {
+    const deviceId = device.id;
+
+    // Never run two generators for the same device
+    if (this.activeDeviceProcesses.has(deviceId)) {
+      return;
+    }
+
+    logger.info(`Starting transaction generation for device: ${deviceId}`);
+
+    const random = this.createRandom(deviceId);
+    const profile = getSimulatorProfile(device.deviceType);
+    const nextInterval = createScheduler(profile, device, random);
+
+    let cancelPending: () => void;
+
+    const scheduleNext = () => {
+      cancelPending = this.clock.schedule(
+        generateTransaction,
+        nextInterval(this.clock.now())
+      );
+      this.activeDeviceProcesses.set(deviceId, cancelPending);
+    };
+
+    const generateTransaction = async () => {
+      try {
+        const { eventType, payload } = simulateEvent(profile, random);
+        const timestamp = this.clock.now();
+
+        const transaction = await this.transactionRepository.create({
+          deviceId,
+          username: getRandomItem(SAMPLE_USERNAMES, random),
+          eventType,
+          timestamp,
+          payload: {
+            ...payload,
+            source: "device_subprocess",
+            generated_at: timestamp.toISOString(),
+          },
+        });
+
+        logger.debug(`Transaction created for device: ${deviceId}`);
+
+        this.eventStreamService.publish("transaction", transaction);
+      } catch (error) {
+        logger.error(
+          `Error creating transaction for device ${deviceId}`,
+          error
+        );
+      }
+
+      // Schedule next transaction unless this generator was stopped while
+      // the transaction was being written
+      if (this.activeDeviceProcesses.get(deviceId) === cancelPending) {
+        scheduleNext();
+      }
+    };
+
+    // Start the first transaction generation
+    scheduleNext();
+  }
+
+  /**
+   * Stop transaction generation for a device
+   */
+  private stopTransactionGeneration(deviceId: string): void {
+    logger.info(`Stopping transaction generation for device: ${deviceId}`);
+
+    const cancel = this.activeDeviceProcesses.get(deviceId);
+    if (cancel) {
+      cancel();
+      this.activeDeviceProcesses.delete(deviceId);
+    }
+  }
+
+  /**
+   * Stop all active device processes (for graceful shutdown)
+   */
+  stopAllProcesses(): void {
+    logger.info("Stopping all active device processes...");
+    this.activeDeviceProcesses.forEach((cancel) => cancel());
+    this.activeDeviceProcesses.clear();
+  }
+
+  /**
+   * Get count of active devices
+   */
+  getActiveDeviceCount(): number {
+    return this.activeDeviceProcesses.size;
+  }
+}
+
+export interface TransactionStats {
+  from: Date;
+  to: Date;
+  bucket: StatsBucket;
+  groupBy: StatsGroupBy | null;
+  total: number;
+  // Every bucket in the range, oldest first, including empty ones. When
+  // grouping, `groups` splits the count by the groupBy value.
+  buckets: { start: Date; count: number; groups?: Record<string, number> }[];
+  topUsernames: { username: string; count: number }[];
+  topDeniedDevices: {
+    deviceId: string;
+    name: string;
+    deviceType: string;
+    count: number;
+  }[];
+}
+
+const BUCKET_SIZES: Record<StatsBucket, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+export interface ExportRecord {
+  id: string;
+  timestamp: string;
+  deviceId: string;
+  deviceName: string;
+  deviceType: string;
+  username: string;
+  eventType: string;
+  payload: unknown;
+}
+
+/**
+ * Service for managing transactions
+ */
+export class TransactionService {
+  constructor(
+    private transactionRepository: TransactionRepository,
+    private deviceRepository: DeviceRepository,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Get all transactions with optional filtering
+   */
+  async getTransactions(options: TransactionFilters & PageOptions) {
+    const limit = Math.min(options.limit || 100, 1000); // Max 1000
+    const offset = options.cursor ? 0 : options.offset || 0;
+
+    const page = await this.transactionRepository.findAll({
+      ...options,
+      limit,
+      offset,
+    });
+
+    return {
+      transactions: page.transactions,
+      pagination: this.buildPagination(page, limit, offset),
+    };
+  }
+
+  /**
+   * Get transactions for a specific device, archived or not
+   */
+  async getDeviceTransactions(
+    deviceId: string,
+    options: TransactionFilters & PageOptions
+  ) {
+    const device = await this.deviceRepository.findById(deviceId);
+    if (!device) {
+      throw new NotFoundError("DEVICE_NOT_FOUND", "Device not found");
+    }
+
+    const limit = Math.min(options.limit || 100, 1000); // Max 1000
+    const offset = options.cursor ? 0 : options.offset || 0;
+
+    const page = await this.transactionRepository.findByDeviceId({
+      ...options,
+      deviceId,
+      limit,
+      offset,
+    });
+
+    return {
+      transactions: page.transactions,
+      pagination: this.buildPagination(page, limit, offset),
+    };
+  }
+
+  /**
+   * Stream all matching transactions as export records, batch by batch
+   */
+  async *exportTransactions(
+    options: TransactionFilters & { sort?: SortDirection }
+  ): AsyncGenerator<ExportRecord[]> {
+    for await (const batch of this.transactionRepository.streamAll(
+      options,
+      EXPORT_BATCH_SIZE
+    )) {
+      yield batch.map((transaction) => ({
+        id: transaction.id,
+        timestamp: transaction.timestamp.toISOString(),
+        deviceId: transaction.deviceId,
+        deviceName: transaction.device.name,
+        deviceType: transaction.device.deviceType,
+        username: transaction.username,
+        eventType: transaction.eventType,
+        payload: transaction.payload,
+      }));
+    }
+  }
+
+  /**
+   * Count transactions per time bucket, along with the busiest usernames
+   * and the devices denying the most access, for a time range. The counting
+   * is done by the database.
+   */
+  async getStats(
+    options: TransactionFilters & {
+      bucket: StatsBucket;
+      groupBy?: StatsGroupBy;
+      top: number;
+    }
+  ): Promise<TransactionStats> {
+    const { bucket, groupBy, top, ...filters } = options;
+    const to = filters.to ?? this.clock.now();
+    const from = filters.from ?? new Date(to.getTime() - STATS.DEFAULT_RANGE);
+
+    // Buckets are aligned to UTC, the same as date_trunc in the database
+    const size = BUCKET_SIZES[bucket];
+    const first = Math.floor(from.getTime() / size) * size;
+    const bucketCount = Math.floor((to.getTime() - first) / size) + 1;
+    if (bucketCount > STATS.MAX_BUCKETS) {
+      const message =
+        `The range spans ${bucketCount} ${bucket} buckets, over the limit ` +
+        `of ${STATS.MAX_BUCKETS}. Use a larger bucket or a shorter range.`;
+      throw new ValidationError(message, [
+        { location: "query", field: "bucket", message },
+      ]);
+    }
+
+    const range = { ...filters, from, to };
+    const [counts, topUsernames, deniedCounts] = await Promise.all([
+      this.transactionRepository.countByBucket(range, bucket, groupBy),
+      this.transactionRepository.countByUsername(range, top),
+      this.transactionRepository.countByDevice(
+        { ...range, eventTypes: ["access_denied"] },
+        top
+      ),
+    ]);
+
+    const buckets = Array.from({ length: bucketCount }, (_, index) => ({
+      start: new Date(first + index * size),
+      count: 0,
+      ...(groupBy ? { groups: {} as Record<string, number> } : {}),
+    }));
+    for (const row of counts) {
+      const entry = buckets[Math.floor((row.start.getTime() - first) / size)];
+      if (!entry) continue;
+      entry.count += row.count;
+      if (entry.groups && row.group !== null) {
+        entry.groups[row.group] = row.count;
+      }
+    }
+
+    const devices = new Map(
+      (
+        await this.deviceRepository.findByIds(
+          deniedCounts.map((entry) => entry.deviceId)
+        )
+      ).map((device) => [device.id, device])
+    );
+
+    return {
+      from,
+      to,
+      bucket,
+      groupBy: groupBy ?? null,
+      total: buckets.reduce((sum, entry) => sum + entry.count, 0),
+      buckets,
+      topUsernames,
+      topDeniedDevices: deniedCounts.map((entry) => ({
+        deviceId: entry.deviceId,
+        name: devices.get(entry.deviceId)?.name ?? entry.deviceId,
+        deviceType: devices.get(entry.deviceId)?.deviceType ?? "",
+        count: entry.count,
+      })),
+    };
+  }
+
+  /**
+   * Build pagination info, with a cursor pointing past the page's last row
+   */
+  private buildPagination(
+    page: TransactionPage,
+    limit: number,
+    offset: number
+  ) {
+    const last = page.transactions[page.transactions.length - 1];
+
+    return {
+      total: page.total,
+      limit,
+      offset,
+      nextCursor: page.hasMore && last ? encodeCursor(last) : null,
+    };
+  }
+}
+
+/**
+ * An event pushed by a physical device
+ */
+export interface IngestEvent {
+  // Client-supplied ID; resending an event with the same ID is a no-op
+  eventId: string;
+  eventType: string;
+  username: string;
+  timestamp?: Date;
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * Service for accepting heartbeats and events from physical devices, and
+ * for telling which of them are online. Events are stored as transactions
+ * alongside simulated ones.
+ */
+export class IngestionService {
+  private cancelSweep?: () => void;
+
+  constructor(
+    private deviceRepository: DeviceRepository,
+    private deviceSecretRepository: DeviceSecretRepository,
+    private transactionRepository: TransactionRepository,
+    private eventStreamService: EventStreamService,
+    private clock: Clock = systemClock,
+    // Silence, in milliseconds, before a device is considered offline
+    private offlineAfter: number = HEARTBEAT.OFFLINE_AFTER
+  ) {}
+
+  /**
+   * Record a heartbeat from a device, whether or not it is active
+   */
+  async recordHeartbeat(
+    deviceId: string,
+    secret: string | undefined
+  ): Promise<Device> {
+    const device = await this.deviceRepository.findById(deviceId);
+
+    if (!device) {
+      throw new NotFoundError("DEVICE_NOT_FOUND", "Device not found");
+    }
+
+    await this.verifyDeviceSecret(deviceId, secret);
+
+    if (device.deletedAt) {
+      throw new ConflictError("DEVICE_ARCHIVED", "Device is archived");
+    }
+
+    return this.markSeen(device);
+  }
+
+  /**
+   * Store events pushed by a device. The device must be active and send its
+   * secret, and each event type must be one its device type emits. Events
+   * whose ID the device already used are skipped and reported back.
+   */
+  async ingestEvents(
+    deviceId: string,
+    secret: string | undefined,
+    events: IngestEvent[]
+  ): Promise<{ created: Transaction[]; duplicates: string[] }> {
+    const device = await this.deviceRepository.findById(deviceId);
+
+    if (!device) {
+      throw new NotFoundError("DEVICE_NOT_FOUND", "Device not found");
+    }
+
+    await this.verifyDeviceSecret(deviceId, secret);
+
+    if (device.deletedAt) {
+      throw new ConflictError("DEVICE_ARCHIVED", "Device is archived");
+    }
+
+    if (device.status !== "active") {
+      throw new ConflictError("DEVICE_INACTIVE", `Device is ${device.status}`);
+    }
+
+    const allowedEventTypes = getSimulatorProfile(device.deviceType).events.map(
+      (event) => event.eventType
+    );
+    const details: ErrorDetail[] = [];
+    events.forEach((event, index) => {
+      if (!allowedEventTypes.includes(event.eventType)) {
+        details.push({
+          location: "body",
+          field: `events.${index}.eventType`,
+          message: `Not emitted by ${
+            device.deviceType
+          } devices. Must be one of: ${allowedEventTypes.join(", ")}`,
+        });
+      }
+    });
+    if (details.length > 0) {
+      throw new ValidationError("Validation failed", details);
+    }
+
+    const receivedAt = this.clock.now();
+    const created = await this.transactionRepository.createManyAndReturn(
+      events.map((event) => ({
+        deviceId,
+        username: event.username,
+        eventType: event.eventType,
+        timestamp: event.timestamp ?? receivedAt,
+        payload: { ...event.payload, source: "device" },
+        eventId: event.eventId,
+      }))
+    );
+
+    created.forEach((transaction) =>
+      this.eventStreamService.publish("transaction", transaction)
+    );
+    await this.markSeen(device);
+
+    const createdIds = new Set(
+      created.map((transaction) => transaction.eventId)
+    );
+    const duplicates = [
+      ...new Set(
+        events
+          .map((event) => event.eventId)
+          .filter((eventId) => !createdIds.has(eventId))
+      ),
+    ];
+
+    logger.debug(
+      `Ingested ${created.length} event(s) for device: ${deviceId}`,
+      {
+        duplicates: duplicates.length,
+      }
+    );
+
+    return { created, duplicates };
+  }
+
+  /**
+   * Start periodically marking silent devices offline
+   */
+  startOfflineSweep(): void {
+    if (this.cancelSweep) return;
+
+    const sweep = async () => {
+      await this.sweepOfflineDevices();
+      if (this.cancelSweep) {
+        this.cancelSweep = this.clock.schedule(sweep, HEARTBEAT.SWEEP_INTERVAL);
+      }
+    };
+
+    this.cancelSweep = this.clock.schedule(sweep, HEARTBEAT.SWEEP_INTERVAL);
+  }
+
+  /**
+   * Stop the offline sweep (for graceful shutdown)
+   */
+  stopOfflineSweep(): void {
+    this.cancelSweep?.();
+    this.cancelSweep = undefined;
+  }
+
+  /**
+   * Mark devices not heard from within the offline window as offline,
+   * publishing each transition. Failures are logged rather than thrown
+   * since this runs in the background.
+   */
+  async sweepOfflineDevices(): Promise<number> {
+    try {
+      const cutoff = new Date(this.clock.now().getTime() - this.offlineAfter);
+      const devices = await this.deviceRepository.findSilentSince(cutoff);
+      let count = 0;
+
+      for (const device of devices) {
+        // Skip devices heard from since they were looked up
+        if (!(await this.deviceRepository.markOffline(device.id, cutoff))) {
+          continue;
+        }
+
+        logger.info(`Device offline: ${device.id}`, {
+          lastSeenAt: device.lastSeenAt,
+        });
+        this.eventStreamService.publish("device", {
+          action: "offline",
+          device: { ...device, online: false },
+        });
+        count++;
+      }
+
+      return count;
+    } catch (error) {
+      logger.error("Error marking silent devices offline", error);
+      return 0;
+    }
+  }
+
+  /**
+   * Record that a device was heard from, publishing the transition if it
+   * was offline
+   */
+  private async markSeen(device: Device): Promise<Device> {
+    const updatedDevice = await this.deviceRepository.markSeen(
+      device.id,
+      this.clock.now()
+    );
+
+    if (!device.online) {
+      logger.info(`Device online: ${device.id}`);
+      this.eventStreamService.publish("device", {
+        action: "online",
+        device: updatedDevice,
+      });
+    }
+
+    return updatedDevice;
+  }
+
+  /**
+   * Check the secret sent by a device against its stored hash
+   */
+  private async verifyDeviceSecret(
+    deviceId: string,
+    secret: string | undefined
+  ): Promise<void> {
+    if (!secret) {
+      throw new UnauthorizedError("UNAUTHENTICATED", "Device secret required");
+    }
+
+    const deviceSecret = await this.deviceSecretRepository.findByDeviceId(
+      deviceId
+    );
+
+    if (!deviceSecret || !verifySecret(secret, deviceSecret.secretHash)) {
+      throw new UnauthorizedError(
+        "INVALID_DEVICE_SECRET",
+        "Device secret is invalid"
+      );
+    }
+  }
+}
+
+/**
+ * A device's heartbeat and reachability state with its recent probes
+ */
+export interface DeviceConnectivity {
+  deviceId: string;
+  ipAddress: string;
+  port: number;
+  online: boolean;
+  lastSeenAt: Date | null;
+  reachable: boolean | null;
+  latencyMs: number | null;
+  probedAt: Date | null;
+  probes: ProbeResult[];
+}
+
+/**
+ * Service for periodically checking that devices accept TCP connections on
+ * their IP address and port
+ */
+export class ProbeService {
+  private cancelRound?: () => void;
+
+  constructor(
+    private deviceRepository: DeviceRepository,
+    private probeResultRepository: ProbeResultRepository,
+    private eventStreamService: EventStreamService,
+    private clock: Clock = systemClock,
+    private prober: Prober = probeTcp,
+    private timeout: number = PROBE.TIMEOUT
+  ) {}
+
+  /**
+   * Start probing every device on an interval
+   */
+  startProbing(interval: number = PROBE.INTERVAL): void {
+    if (this.cancelRound) return;
+
+    const round = async () => {
+      await this.probeAll();
+      if (this.cancelRound) {
+        this.cancelRound = this.clock.schedule(round, interval);
+      }
+    };
+
+    this.cancelRound = this.clock.schedule(round, interval);
+  }
+
+  /**
+   * Stop probing (for graceful shutdown)
+   */
+  stopProbing(): void {
+    this.cancelRound?.();
+    this.cancelRound = undefined;
+  }
+
+  /**
+   * Probe every device that isn't archived, a few at a time, and drop
+   * expired results. Failures are logged rather than thrown since this runs
+   * in the background.
+   */
+  async probeAll(): Promise<number> {
+    try {
+      const queue = await this.deviceRepository.findAll();
+      const total = queue.length;
+
+      const worker = async () => {
+        for (let device = queue.shift(); device; device = queue.shift()) {
+          await this.runProbe(device).catch((error) =>
+            logger.error(`Error probing device ${device?.id}`, error)
+          );
+        }
+      };
+      await Promise.all(
+        Array.from({ length: Math.min(PROBE.CONCURRENCY, total) }, worker)
+      );
+
+      await this.probeResultRepository.deleteOlderThan(
+        new Date(this.clock.now().getTime() - PROBE.HISTORY_RETENTION)
+      );
+
+      return total;
+    } catch (error) {
+      logger.error("Error probing devices", error);
+      return 0;
+    }
+  }
+
+  /**
+   * Probe a single device now
+   */
+  async probeDevice(id: string): Promise<ProbeResult> {
+    const device = await this.getDevice(id);
+
+    if (device.deletedAt) {
+      throw new ConflictError("DEVICE_ARCHIVED", "Device is archived");
+    }
+
+    return this.runProbe(device);
+  }
+
+  /**
+   * Get a device's connectivity: whether it is sending heartbeats, whether
+   * it accepts connections, and its most recent probes
+   */
+  async getConnectivity(
+    id: string,
+    options: { limit?: number } = {}
+  ): Promise<DeviceConnectivity> {
+    const device = await this.getDevice(id);
+    const probes = await this.probeResultRepository.findByDeviceId(id, {
+      limit: options.limit ?? 50,
+    });
+
+    return {
+      deviceId: id,
+      ipAddress: device.ipAddress,
+      port: device.port ?? PROBE.DEFAULT_PORT,
+      online: device.online,
+      lastSeenAt: device.lastSeenAt,
+      reachable: device.reachable,
+      latencyMs: device.latencyMs,
+      probedAt: device.probedAt,
+      probes,
+    };
+  }
+
+  private async getDevice(id: string): Promise<Device> {
+    const device = await this.deviceRepository.findById(id);
+
+    if (!device) {
+      throw new NotFoundError("DEVICE_NOT_FOUND", "Device not found");
+    }
+
+    return device;
+  }
+
+  /**
+   * Probe a device, store the result and publish any change in
+   * reachability
+   */
+  private async runProbe(device: Device): Promise<ProbeResult> {
+    const port = device.port ?? PROBE.DEFAULT_PORT;
+    const outcome = await this.prober(device.ipAddress, port, this.timeout);
+    const probedAt = this.clock.now();
+
+    const result = await this.probeResultRepository.create({
+      deviceId: device.id,
+      ipAddress: device.ipAddress,
+      port,
+      ...outcome,
+      createdAt: probedAt,
+    });
+    const updatedDevice = await this.deviceRepository.recordProbe(device.id, {
+      reachable: outcome.reachable,
+      latencyMs: outcome.latencyMs,
+      probedAt,
+    });
+
+    if (device.reachable !== outcome.reachable) {
+      logger.info(
+        `Device ${outcome.reachable ? "reachable" : "unreachable"}: ${
+          device.id
+        }`,
+        { ipAddress: device.ipAddress, port, error: outcome.error }
+      );
+      this.eventStreamService.publish("device", {
+        action: outcome.reachable ? "reachable" : "unreachable",
+        device: updatedDevice,
+      });
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Rule fields as created; which are set depends on the rule type
+ */
+export interface NewAlertRule {
+  name: string;
+  type: AlertRuleType;
+  eventType?: string;
+  deviceId?: string;
+  threshold?: number;
+  windowSeconds?: number;
+  groupBy?: string;
+  severity: string;
+  enabled: boolean;
+}
+
+/**
+ * Describe a rule window, e.g. "2 min" or "90 s"
+ */
+function formatWindow(seconds: number): string {
+  return seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds} s`;
+}
+
+/**
+ * Service for alert rules and the alerts they raise. Rules are checked
+ * against transactions as they are published, and silence rules on an
+ * interval. A rule that triggers again for the same key (a device or
+ * username) while its alert is unresolved adds to that alert.
+ */
+export class AlertService {
+  // Enabled rules, reloaded whenever a rule changes
+  private rules: AlertRule[] = [];
+  private unsubscribe?: () => void;
+  private cancelSweep?: () => void;
+  // Silence is only counted from when the service started
+  private startedAt = new Date(0);
+  // Transactions are checked one at a time so two triggers for the same
+  // key can't both open an alert
+  private evaluation: Promise<void> = Promise.resolve();
+
+  constructor(
+    private alertRuleRepository: AlertRuleRepository,
+    private alertRepository: AlertRepository,
+    private transactionRepository: TransactionRepository,
+    private deviceRepository: DeviceRepository,
+    private eventStreamService: EventStreamService,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Load the rules and start checking them
+   */
+  async start(
+    sweepInterval: number = ALERTS.SILENCE_SWEEP_INTERVAL
+  ): Promise<void> {
+    if (this.unsubscribe) return;
+
+    this.startedAt = this.clock.now();
+    this.unsubscribe = this.eventStreamService.subscribe((event) => {
+      if (event.type === "transaction") {
+        this.enqueue(() => this.evaluateTransaction(event.data));
+      }
+    }).unsubscribe;
+
+    const sweep = async () => {
+      await this.sweepSilentDevices();
+      if (this.cancelSweep) {
+        this.cancelSweep = this.clock.schedule(sweep, sweepInterval);
+      }
+    };
+    this.cancelSweep = this.clock.schedule(sweep, sweepInterval);
+
+    try {
+      await this.loadRules();
+    } catch (error) {
+      logger.error("Error loading alert rules", error);
+    }
+  }
+
+  /**
+   * Stop checking rules (for graceful shutdown)
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    this.cancelSweep?.();
+    this.cancelSweep = undefined;
+  }
+
+  async getRules(): Promise<AlertRule[]> {
+    return this.alertRuleRepository.findAll();
+  }
+
+  async createRule(data: NewAlertRule): Promise<AlertRule> {
+    if (
+      data.deviceId &&
+      !(await this.deviceRepository.findById(data.deviceId))
+    ) {
+      throw new NotFoundError("DEVICE_NOT_FOUND", "Device not found");
+    }
+
+    const rule = await this.alertRuleRepository.create(data);
+    logger.info(`Alert rule created: ${rule.id}`, { name: rule.name });
+
+    await this.loadRules();
+    return rule;
+  }
+
+  /**
+   * Rename, re-grade, enable or disable a rule
+   */
+  async updateRule(
+    id: string,
+    data: { name?: string; severity?: string; enabled?: boolean }
+  ): Promise<AlertRule> {
+    await this.getRule(id);
+
+    const rule = await this.alertRuleRepository.update(id, data);
+    logger.info(`Alert rule updated: ${id}`, data);
+
+    await this.loadRules();
+    return rule;
+  }
+
+  /**
+   * Delete a rule along with its alerts
+   */
+  async deleteRule(id: string): Promise<void> {
+    await this.getRule(id);
+
+    await this.alertRuleRepository.delete(id);
+    logger.info(`Alert rule deleted: ${id}`);
+
+    await this.loadRules();
+  }
+
+  /**
+   * Get alerts, most recently triggered first, with optional filtering
+   */
+  async getAlerts(options: AlertFilters & { limit?: number; offset?: number }) {
+    const limit = Math.min(options.limit || 100, 1000); // Max 1000
+    const offset = options.offset || 0;
+
+    const { alerts, total } = await this.alertRepository.findAll({
+      ...options,
+      limit,
+      offset,
+    });
+
+    return {
+      alerts,
+      pagination: { total, limit, offset },
+    };
+  }
+
+  /**
+   * Mark an open alert as seen; it stays unresolved
+   */
+  async acknowledgeAlert(id: string, actor: Principal): Promise<Alert> {
+    const alert = await this.getAlert(id);
+
+    if (alert.status === "resolved") {
+      throw new ConflictError("ALERT_RESOLVED", "Alert is already resolved");
+    }
+    if (alert.status === "acknowledged") {
+      throw new ConflictError(
+        "ALERT_ALREADY_ACKNOWLEDGED",
+        "Alert is already acknowledged"
+      );
+    }
+
+    const updatedAlert = await this.alertRepository.acknowledge(
+      id,
+      actor.name,
+      this.clock.now()
+    );
+    logger.info(`Alert acknowledged: ${id}`, { by: actor.name });
+
+    this.eventStreamService.publish("alert", {
+      action: "acknowledged",
+      alert: updatedAlert,
+    });
+    return updatedAlert;
+  }
+
+  /**
+   * Close an alert. The rule can raise a new one for the same key after.
+   */
+  async resolveAlert(id: string, actor: Principal): Promise<Alert> {
+    const alert = await this.getAlert(id);
+
+    if (alert.status === "resolved") {
+      throw new ConflictError("ALERT_RESOLVED", "Alert is already resolved");
+    }
+
+    const updatedAlert = await this.alertRepository.resolve(
+      id,
+      actor.name,
+      this.clock.now()
+    );
+    logger.info(`Alert resolved: ${id}`, { by: actor.name });
+
+    this.eventStreamService.publish("alert", {
+      action: "resolved",
+      alert: updatedAlert,
+    });
+    return updatedAlert;
+  }
+
+  /**
+   * Check silence rules against active devices. A device's last activity
+   * is its latest transaction or heartbeat. Failures are logged rather
+   * than thrown since this runs in the background.
+   */
+  async sweepSilentDevices(): Promise<number> {
+    const rules = this.rules.filter((rule) => rule.type === "silence");
+    if (rules.length === 0) return 0;
+
+    try {
+      const devices = (
+        await this.deviceRepository.findByStatus("active")
+      ).filter((device) => !device.deletedAt);
+      const latestTransactions =
+        await this.transactionRepository.findLatestCreatedAt(
+          devices.map((device) => device.id)
+        );
+      const now = this.clock.now().getTime();
+
+      let triggered = 0;
+      for (const rule of rules) {
+        const window = (rule.windowSeconds ?? 0) * 1000;
+        for (const device of devices) {
+          if (rule.deviceId && rule.deviceId !== device.id) continue;
+
+          // Don't count time before the rule was last changed
+          const lastActivity = Math.max(
+            device.lastSeenAt?.getTime() ?? 0,
+            latestTransactions.get(device.id)?.getTime() ?? 0,
+            rule.updatedAt.getTime(),
+            this.startedAt.getTime()
+          );
+          if (now - lastActivity < window) continue;
+
+          await this.trigger(
+            rule,
+            device.id,
+            device.id,
+            `${device.name} has been silent since ${new Date(
+              lastActivity
+            ).toISOString()}`
+          );
+          triggered++;
+        }
+      }
+      return triggered;
+    } catch (error) {
+      logger.error("Error checking silence rules", error);
+      return 0;
+    }
+  }
+
+  private async loadRules(): Promise<void> {
+    this.rules = (await this.alertRuleRepository.findAll()).filter(
+      (rule) => rule.enabled
+    );
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.evaluation = this.evaluation
+      .then(task)
+      .catch((error) => logger.error("Error evaluating alert rules", error));
+  }
+
+  /**
+   * Check event and threshold rules against a new transaction
+   */
+  private async evaluateTransaction(
+    transaction: Transaction & { device?: Device }
+  ): Promise<void> {
+    const rules = this.rules.filter(
+      (rule) =>
+        rule.type !== "silence" &&
+        rule.eventType === transaction.eventType &&
+        (!rule.deviceId || rule.deviceId === transaction.deviceId)
+    );
+    const deviceName = transaction.device?.name ?? transaction.deviceId;
+
+    for (const rule of rules) {
+      if (rule.type === "event") {
+        await this.trigger(
+          rule,
+          transaction.deviceId,
+          transaction.deviceId,
+          `${transaction.eventType} on ${deviceName} by ${transaction.username}`
+        );
+        continue;
+      }
+
+      // Threshold rules count matching transactions up to this one
+      const byDevice = rule.groupBy === "device";
+      const windowSeconds = rule.windowSeconds ?? 0;
+      const timestamp = new Date(transaction.timestamp);
+      const count = await this.transactionRepository.count({
+        eventType: transaction.eventType,
+        deviceId: byDevice ? transaction.deviceId : rule.deviceId ?? undefined,
+        username: byDevice ? undefined : transaction.username,
+        from: new Date(timestamp.getTime() - windowSeconds * 1000),
+        to: timestamp,
+      });
+      if (count < (rule.threshold ?? 1)) continue;
+
+      await this.trigger(
+        rule,
+        byDevice
+          ? `device:${transaction.deviceId}`
+          : `username:${transaction.username}`,
+        transaction.deviceId,
+        `${count} ${transaction.eventType} ${
+          byDevice ? `on ${deviceName}` : `for ${transaction.username}`
+        } within ${formatWindow(windowSeconds)}`
+      );
+    }
+  }
+
+  /**
+   * Open an alert for the rule and key, or add to the unresolved one
+   */
+  private async trigger(
+    rule: AlertRule,
+    key: string,
+    deviceId: string,
+    message: string
+  ): Promise<void> {
+    const triggeredAt = this.clock.now();
+    const existing = await this.alertRepository.findUnresolved(rule.id, key);
+
+    const alert = existing
+      ? await this.alertRepository.recordOccurrence(existing.id, {
+          message,
+          triggeredAt,
+        })
+      : await this.alertRepository.create({
+          ruleId: rule.id,
+          deviceId,
+          key,
+          severity: rule.severity,
+          message,
+          triggeredAt,
+        });
+
+    if (!existing) {
+      logger.warn(`Alert raised by rule "${rule.name}": ${message}`);
+    }
+
+    this.eventStreamService.publish("alert", {
+      action: existing ? "updated" : "triggered",
+      alert,
+    });
+  }
+
+  private async getRule(id: string): Promise<AlertRule> {
+    const rule = await this.alertRuleRepository.findById(id);
+
+    if (!rule) {
+      throw new NotFoundError("ALERT_RULE_NOT_FOUND", "Alert rule not found");
+    }
+
+    return rule;
+  }
+
+  private async getAlert(id: string): Promise<Alert> {
+    const alert = await this.alertRepository.findById(id);
+
+    if (!alert) {
+      throw new NotFoundError("ALERT_NOT_FOUND", "Alert not found");
+    }
+
+    return alert;
+  }
+}
+
+export type PublicWebhook = Omit<Webhook, "secret">;
+
+export interface NewWebhook {
+  name: string;
+  url: string;
+  events: string[];
+  eventTypes: string[];
+  enabled: boolean;
+}
+
+/**
+ * Service for webhook subscriptions. Every stream event matching an
+ * enabled webhook is stored as a delivery, then POSTed with an HMAC
+ * signature by a background loop. Failed deliveries are retried with
+ * exponential backoff until they run out of attempts and become dead
+ * letters, which can be redelivered by hand.
+ */
+export class WebhookService {
+  // Enabled webhooks, reloaded whenever a webhook changes
+  private webhooks: Webhook[] = [];
+  private unsubscribe?: () => void;
+  private cancelRound?: () => void;
+  private cancelPrune?: () => void;
+
+  constructor(
+    private webhookRepository: WebhookRepository,
+    private webhookDeliveryRepository: WebhookDeliveryRepository,
+    private eventStreamService: EventStreamService,
+    private clock: Clock = systemClock,
+    private sender: WebhookSender = postWebhook,
+    private timeout: number = WEBHOOKS.TIMEOUT
+  ) {}
+
+  /**
+   * Load the webhooks and start queueing and sending deliveries
+   */
+  async start(interval: number = WEBHOOKS.DISPATCH_INTERVAL): Promise<void> {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = this.eventStreamService.subscribe((event) =>
+      this.queueEvent(event).catch((error) =>
+        logger.error("Error queueing webhook deliveries", error)
+      )
+    ).unsubscribe;
+
+    const round = async () => {
+      await this.dispatchDue();
+      if (this.cancelRound) {
+        this.cancelRound = this.clock.schedule(round, interval);
+      }
+    };
+    this.cancelRound = this.clock.schedule(round, interval);
+
+    const prune = async () => {
+      await this.pruneFinished();
+      if (this.cancelPrune) {
+        this.cancelPrune = this.clock.schedule(prune, WEBHOOKS.PRUNE_INTERVAL);
+      }
+    };
+    this.cancelPrune = this.clock.schedule(prune, WEBHOOKS.PRUNE_INTERVAL);
+
+    try {
+      await this.loadWebhooks();
+    } catch (error) {
+      logger.error("Error loading webhooks", error);
+    }
+  }
+
+  /**
+   * Stop queueing and sending deliveries (for graceful shutdown)
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    this.cancelRound?.();
+    this.cancelRound = undefined;
+    this.cancelPrune?.();
+    this.cancelPrune = undefined;
+  }
+
+  async getWebhooks(): Promise<PublicWebhook[]> {
+    const webhooks = await this.webhookRepository.findAll();
+    return webhooks.map((webhook) => this.toPublicWebhook(webhook));
+  }
+
+  async getWebhookById(id: string): Promise<PublicWebhook> {
+    return this.toPublicWebhook(await this.getWebhook(id));
+  }
+
+  /**
+   * Create a webhook. The signing secret is returned only here.
+   */
+  async createWebhook(
+    data: NewWebhook
+  ): Promise<{ webhook: PublicWebhook; secret: string }> {
+    const secret = generateWebhookSecret();
+
+    const webhook = await this.webhookRepository.create({ ...data, secret });
+    logger.info(`Webhook created: ${webhook.id}`, {
+      name: webhook.name,
+      url: webhook.url,
+    });
+
+    await this.loadWebhooks();
+    return { webhook: this.toPublicWebhook(webhook), secret };
+  }
+
+  async updateWebhook(
+    id: string,
+    data: Partial<NewWebhook>
+  ): Promise<PublicWebhook> {
+    await this.getWebhook(id);
+
+    const webhook = await this.webhookRepository.update(id, data);
+    logger.info(`Webhook updated: ${id}`, data);
+
+    await this.loadWebhooks();
+    return this.toPublicWebhook(webhook);
+  }
 
-  constructor(
-    private deviceRepository: DeviceRepository,
-    private transactionRepository: TransactionRepository
-  ) {}
+  /**
+   * Delete a webhook along with its deliveries
+   */
+  async deleteWebhook(id: string): Promise<void> {
+    await this.getWebhook(id);
+
+    await this.webhookRepository.delete(id);
+    logger.info(`Webhook deleted: ${id}`);
+
+    await this.loadWebhooks();
+  }
 
   /**
-   * Create a new device
+   * Send a ping to a webhook straight away, even if it's disabled. A
+   * failed ping is retried like any other delivery.
    */
-  async createDevice(data: {
-    name: string;
-    deviceType: string;
-    ipAddress: string;
-  }): Promise<{
-    success: boolean;
-    device?: any;
-    error?: string;
-  }> {
-    try {
-      // Validate device type
-      if (!DEVICE_TYPES.includes(data.deviceType)) {
-        return {
-          success: false,
-          error: `Invalid device type. Must be one of: ${DEVICE_TYPES.join(
-            ", "
-          )}`,
-        };
-      }
+  async testWebhook(id: string): Promise<WebhookDelivery> {
+    const webhook = await this.getWebhook(id);
 
-      const device = await this.deviceRepository.create(data);
-      logger.info(`Device created: ${device.id}`, { name: device.name });
+    const delivery = await this.webhookDeliveryRepository.create({
+      webhookId: id,
+      event: "ping",
+      payload: { webhookId: id, message: "Test delivery" },
+      // Not due until the attempt below schedules a retry, so the
+      // background loop can't send it as well
+      nextAttemptAt: null,
+    });
 
-      return {
-        success: true,
-        device,
-      };
-    } catch (error) {
-      logger.error("Error creating device", error);
-      return {
-        success: false,
-        error: "Failed to create device",
-      };
+    return this.attempt(delivery, webhook);
+  }
+
+  /**
+   * Get a webhook's deliveries, newest first
+   */
+  async getDeliveries(
+    webhookId: string,
+    options: { statuses?: string[]; limit?: number; offset?: number }
+  ) {
+    await this.getWebhook(webhookId);
+    return this.findDeliveries({ ...options, webhookId });
+  }
+
+  /**
+   * Get deliveries that ran out of attempts, newest first
+   */
+  async getDeadLetters(options: {
+    webhookId?: string;
+    limit?: number;
+    offset?: number;
+  }) {
+    return this.findDeliveries({ ...options, statuses: ["dead"] });
+  }
+
+  /**
+   * Send a dead delivery again now. It gets a fresh set of attempts.
+   */
+  async redeliver(id: string): Promise<WebhookDelivery> {
+    const delivery = await this.webhookDeliveryRepository.findById(id);
+
+    if (!delivery) {
+      throw new NotFoundError(
+        "WEBHOOK_DELIVERY_NOT_FOUND",
+        "Webhook delivery not found"
+      );
+    }
+    if (delivery.status !== "dead") {
+      throw new ConflictError(
+        "WEBHOOK_DELIVERY_NOT_DEAD",
+        `Delivery is ${delivery.status}; only dead deliveries can be redelivered`
+      );
     }
+
+    const webhook = await this.getWebhook(delivery.webhookId);
+    const reset = await this.webhookDeliveryRepository.update(id, {
+      status: "pending",
+      attempts: 0,
+      // Sent below rather than by the background loop
+      nextAttemptAt: null,
+    });
+    logger.info(`Webhook delivery redelivered: ${id}`);
+
+    return this.attempt(reset, webhook);
   }
 
   /**
-   * Get all devices
+   * Send every delivery that is due, a few at a time. Failures are logged
+   * rather than thrown since this runs in the background.
    */
-  async getAllDevices(): Promise<{
-    success: boolean;
-    devices?: any;
-    error?: string;
-  }> {
+  async dispatchDue(): Promise<number> {
     try {
-      const devices = await this.deviceRepository.findAll();
-      return {
-        success: true,
-        devices,
+      const queue = await this.webhookDeliveryRepository.findDue(
+        this.clock.now(),
+        WEBHOOKS.BATCH_SIZE
+      );
+      const total = queue.length;
+
+      const worker = async () => {
+        for (let delivery = queue.shift(); delivery; delivery = queue.shift()) {
+          await this.attempt(delivery, delivery.webhook).catch((error) =>
+            logger.error(
+              `Error sending webhook delivery ${delivery?.id}`,
+              error
+            )
+          );
+        }
       };
+      await Promise.all(
+        Array.from({ length: Math.min(WEBHOOKS.CONCURRENCY, total) }, worker)
+      );
+
+      return total;
     } catch (error) {
-      logger.error("Error fetching devices", error);
-      return {
-        success: false,
-        error: "Failed to fetch devices",
-      };
+      logger.error("Error sending webhook deliveries", error);
+      return 0;
     }
   }
 
   /**
-   * Get a single device by ID
+   * Drop delivered and dead deliveries past the retention period. Failures
+   * are logged rather than thrown since this runs in the background.
    */
-  async getDeviceById(id: string): Promise<{
-    success: boolean;
-    device?: any;
-    error?: string;
-  }> {
+  async pruneFinished(): Promise<number> {
     try {
-      const device = await this.deviceRepository.findById(id);
-
-      if (!device) {
-        return {
-          success: false,
-          error: "Device not found",
-        };
-      }
-
-      return {
-        success: true,
-        device,
-      };
+      return await this.webhookDeliveryRepository.deleteFinishedBefore(
+        new Date(this.clock.now().getTime() - WEBHOOKS.RETENTION)
+      );
     } catch (error) {
-      logger.error("Error fetching device", error);
-      return {
-        success: false,
-        error: "Failed to fetch device",
-      };
+      logger.error("Error pruning webhook deliveries", error);
+      return 0;
     }
   }
 
+  private async loadWebhooks(): Promise<void> {
+    this.webhooks = (await this.webhookRepository.findAll()).filter(
+      (webhook) => webhook.enabled
+    );
+  }
+
   /**
-   * Activate a device and start transaction generation
+   * Store a delivery of a stream event for every webhook that wants it
    */
-  async activateDevice(id: string): Promise<{
-    success: boolean;
-    device?: any;
-    error?: string;
-  }> {
-    try {
-      const device = await this.deviceRepository.findById(id);
+  private async queueEvent(event: StreamEvent): Promise<void> {
+    const webhookIds = this.webhooks
+      .filter(
+        (webhook) =>
+          (webhook.events.length === 0 ||
+            webhook.events.includes(event.type)) &&
+          (event.type !== "transaction" ||
+            webhook.eventTypes.length === 0 ||
+            webhook.eventTypes.includes(event.data.eventType))
+      )
+      .map((webhook) => webhook.id);
+    if (webhookIds.length === 0) return;
 
-      if (!device) {
-        return {
-          success: false,
-          error: "Device not found",
-        };
-      }
+    await this.webhookDeliveryRepository.createMany(webhookIds, {
+      event: event.type,
+      payload: event.data,
+      nextAttemptAt: this.clock.now(),
+    });
+  }
 
-      if (device.status === "active") {
-        return {
-          success: false,
-          error: "Device is already active",
-        };
-      }
+  /**
+   * POST a delivery to its webhook and record the outcome, scheduling a
+   * retry or giving up after the last attempt
+   */
+  private async attempt(
+    delivery: WebhookDelivery,
+    webhook: Webhook
+  ): Promise<WebhookDelivery> {
+    const body = JSON.stringify({
+      id: delivery.id,
+      event: delivery.event,
+      createdAt: delivery.createdAt,
+      data: delivery.payload,
+    });
+    const timestamp = String(Math.floor(this.clock.now().getTime() / 1000));
 
-      // Update device status
-      const updatedDevice = await this.deviceRepository.updateStatus(
-        id,
-        "active"
+    const outcome = await this.sender(
+      webhook.url,
+      body,
+      {
+        [WEBHOOKS.ID_HEADER]: delivery.id,
+        [WEBHOOKS.EVENT_HEADER]: delivery.event,
+        [WEBHOOKS.TIMESTAMP_HEADER]: timestamp,
+        [WEBHOOKS.SIGNATURE_HEADER]: `sha256=${signWebhookPayload(
+          webhook.secret,
+          timestamp,
+          body
+        )}`,
+      },
+      this.timeout
+    );
+
+    const attempts = delivery.attempts + 1;
+    const now = this.clock.now();
+
+    if (outcome.error === null) {
+      return this.webhookDeliveryRepository.update(delivery.id, {
+        status: "delivered",
+        attempts,
+        nextAttemptAt: null,
+        responseStatus: outcome.status,
+        error: null,
+        deliveredAt: now,
+      });
+    }
+
+    if (attempts >= WEBHOOKS.MAX_ATTEMPTS) {
+      logger.warn(
+        `Webhook delivery ${delivery.id} to ${webhook.url} is dead after ${attempts} attempts: ${outcome.error}`
       );
+      return this.webhookDeliveryRepository.update(delivery.id, {
+        status: "dead",
+        attempts,
+        nextAttemptAt: null,
+        responseStatus: outcome.status,
+        error: outcome.error,
+      });
+    }
 
-      // Start transaction generation
-      this.startTransactionGeneration(id);
+    const delay = Math.min(
+      WEBHOOKS.RETRY_DELAY * 2 ** (attempts - 1),
+      WEBHOOKS.MAX_RETRY_DELAY
+    );
+    return this.webhookDeliveryRepository.update(delivery.id, {
+      status: "pending",
+      attempts,
+      nextAttemptAt: new Date(now.getTime() + delay),
+      responseStatus: outcome.status,
+      error: outcome.error,
+    });
+  }
 
-      logger.info(`Device activated: ${id}`);
+  private async findDeliveries(
+    options: WebhookDeliveryFilters & { limit?: number; offset?: number }
+  ) {
+    const limit = Math.min(options.limit || 100, 1000); // Max 1000
+    const offset = options.offset || 0;
 
-      return {
-        success: true,
-        device: updatedDevice,
-      };
-    } catch (error) {
-      logger.error("Error activating device", error);
-      return {
-        success: false,
-        error: "Failed to activate device",
-      };
+    const { deliveries, total } = await this.webhookDeliveryRepository.findAll({
+      ...options,
+      limit,
+      offset,
+    });
+
+    return {
+      deliveries,
+      pagination: { total, limit, offset },
+    };
+  }
+
+  private async getWebhook(id: string): Promise<Webhook> {
+    const webhook = await this.webhookRepository.findById(id);
+
+    if (!webhook) {
+      throw new NotFoundError("WEBHOOK_NOT_FOUND", "Webhook not found");
     }
+
+    return webhook;
+  }
+
+  private toPublicWebhook(webhook: Webhook): PublicWebhook {
+    const { secret, ...publicWebhook } = webhook;
+    return publicWebhook;
   }
+}
+
+/**
+ * The authenticated caller of a request: a signed-in user or an API key
+ */
+export interface Principal {
+  kind: "user" | "apiKey";
+  id: string;
+  name: string;
+  role: Role;
+}
+
+export type PublicUser = Omit<User, "passwordHash">;
+export type PublicApiKey = Omit<ApiKey, "keyHash">;
+
+// Audience of URL tokens, which session checks reject
+const URL_TOKEN_AUDIENCE = "url";
+
+/**
+ * Service for users, API keys and access tokens
+ */
+export class AuthService {
+  constructor(
+    private userRepository: UserRepository,
+    private apiKeyRepository: ApiKeyRepository,
+    private tokenSecret: string
+  ) {}
 
   /**
-   * Deactivate a device and stop transaction generation
+   * Check a username and password and issue a signed access token
    */
-  async deactivateDevice(id: string): Promise<{
-    success: boolean;
-    device?: any;
-    error?: string;
-  }> {
-    try {
-      const device = await this.deviceRepository.findById(id);
+  async login(
+    username: string,
+    password: string
+  ): Promise<{ token: string; expiresAt: string; user: PublicUser }> {
+    const user = await this.userRepository.findByUsername(username);
 
-      if (!device) {
-        return {
-          success: false,
-          error: "Device not found",
-        };
-      }
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      throw new UnauthorizedError(
+        "INVALID_CREDENTIALS",
+        "Invalid username or password"
+      );
+    }
 
-      if (device.status === "inactive") {
-        return {
-          success: false,
-          error: "Device is already inactive",
-        };
-      }
+    const token = jwt.sign(
+      { username: user.username, role: user.role },
+      this.tokenSecret,
+      { subject: user.id, expiresIn: AUTH.TOKEN_TTL, algorithm: "HS256" }
+    );
 
-      // Stop transaction generation
-      this.stopTransactionGeneration(id);
+    logger.info(`User logged in: ${user.username}`);
 
-      // Update device status
-      const updatedDevice = await this.deviceRepository.updateStatus(
-        id,
-        "inactive"
+    return {
+      token,
+      expiresAt: new Date(Date.now() + AUTH.TOKEN_TTL * 1000).toISOString(),
+      user: this.toPublicUser(user),
+    };
+  }
+
+  /**
+   * Resolve a bearer credential, which is either an access token or an
+   * API key, to the principal it identifies. Access tokens only carry the
+   * user ID; the role is read from the stored user, so a lowered role or a
+   * deleted user takes effect straight away.
+   */
+  async authenticate(credential: string): Promise<Principal> {
+    if (credential.startsWith(AUTH.API_KEY_PREFIX)) {
+      return this.authenticateApiKey(credential);
+    }
+
+    const payload = this.verifyToken(credential);
+    return this.authenticateUser(payload.sub);
+  }
+
+  /**
+   * Issue a short-lived token that works only as the access_token of GET
+   * requests to one path, so the session token never goes in a URL
+   */
+  issueUrlToken(
+    principal: Principal,
+    path: UrlTokenPath
+  ): { token: string; expiresAt: string } {
+    const token = jwt.sign({ kind: principal.kind, path }, this.tokenSecret, {
+      subject: principal.id,
+      audience: URL_TOKEN_AUDIENCE,
+      expiresIn: AUTH.URL_TOKEN_TTL,
+      algorithm: "HS256",
+    });
+
+    return {
+      token,
+      expiresAt: new Date(Date.now() + AUTH.URL_TOKEN_TTL * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Resolve a URL token sent to the given path to the principal it was
+   * issued for
+   */
+  async authenticateUrlToken(token: string, path: string): Promise<Principal> {
+    const payload = this.verifyToken(token, URL_TOKEN_AUDIENCE);
+    if (payload.path !== path) {
+      throw new UnauthorizedError(
+        "INVALID_TOKEN",
+        "Access token is invalid or expired"
       );
+    }
 
-      logger.info(`Device deactivated: ${id}`);
+    if (payload.kind !== "apiKey") {
+      return this.authenticateUser(payload.sub);
+    }
 
-      return {
-        success: true,
-        device: updatedDevice,
-      };
-    } catch (error) {
-      logger.error("Error deactivating device", error);
-      return {
-        success: false,
-        error: "Failed to deactivate device",
-      };
+    const apiKey = await this.apiKeyRepository.findById(payload.sub);
+    if (!apiKey || apiKey.revokedAt) {
+      throw new UnauthorizedError(
+        "INVALID_API_KEY",
+        "API key is invalid or revoked"
+      );
     }
+
+    return {
+      kind: "apiKey",
+      id: apiKey.id,
+      name: apiKey.name,
+      role: apiKey.role as Role,
+    };
   }
 
   /**
-   * Delete a device and stop transaction generation
+   * Resolve an API key to the principal it identifies
    */
-  async deleteDevice(id: string): Promise<{
-    success: boolean;
-    error?: string;
-  }> {
-    try {
-      const device = await this.deviceRepository.findById(id);
+  async authenticateApiKey(key: string): Promise<Principal> {
+    const apiKey = await this.apiKeyRepository.findByHash(hashApiKey(key));
 
-      if (!device) {
-        return {
-          success: false,
-          error: "Device not found",
-        };
-      }
+    if (!apiKey || apiKey.revokedAt) {
+      throw new UnauthorizedError(
+        "INVALID_API_KEY",
+        "API key is invalid or revoked"
+      );
+    }
 
-      // Stop transaction generation if active
-      if (device.status === "active") {
-        this.stopTransactionGeneration(id);
-      }
+    // Usage tracking shouldn't hold up or fail the request
+    this.apiKeyRepository
+      .touch(apiKey.id)
+      .catch((error) => logger.error("Error updating API key usage", error));
 
-      // Delete the device (cascade delete transactions via Prisma)
-      await this.deviceRepository.delete(id);
+    return {
+      kind: "apiKey",
+      id: apiKey.id,
+      name: apiKey.name,
+      role: apiKey.role as Role,
+    };
+  }
 
-      logger.info(`Device deleted: ${id}`);
+  /**
+   * Get all users
+   */
+  async getUsers(): Promise<PublicUser[]> {
+    const users = await this.userRepository.findAll();
+    return users.map((user) => this.toPublicUser(user));
+  }
 
-      return {
-        success: true,
-      };
-    } catch (error) {
-      logger.error("Error deleting device", error);
-      return {
-        success: false,
-        error: "Failed to delete device",
-      };
+  /**
+   * Create a user with a hashed password
+   */
+  async createUser(data: {
+    username: string;
+    password: string;
+    role: Role;
+  }): Promise<PublicUser> {
+    const existing = await this.userRepository.findByUsername(data.username);
+    if (existing) {
+      throw new ConflictError(
+        "USERNAME_TAKEN",
+        `A user named "${data.username}" already exists`
+      );
     }
+
+    const user = await this.userRepository.create({
+      username: data.username,
+      passwordHash: await hashPassword(data.password),
+      role: data.role,
+    });
+
+    logger.info(`User created: ${user.username}`, { role: user.role });
+
+    return this.toPublicUser(user);
   }
 
   /**
-   * Start transaction generation for a device
+   * Get all API keys, including revoked ones
    */
-  private startTransactionGeneration(deviceId: string): void {
-    logger.info(`Starting transaction generation for device: ${deviceId}`);
+  async getApiKeys(): Promise<PublicApiKey[]> {
+    const apiKeys = await this.apiKeyRepository.findAll();
+    return apiKeys.map((apiKey) => this.toPublicApiKey(apiKey));
+  }
 
-    const timeouts: NodeJS.Timeout[] = [];
+  /**
+   * Create an API key. The key is returned only here; just its hash is
+   * stored.
+   */
+  async createApiKey(data: {
+    name: string;
+    role: Role;
+  }): Promise<{ apiKey: PublicApiKey; key: string }> {
+    const key = generateApiKey();
 
-    const generateTransaction = async () => {
-      try {
-        await this.transactionRepository.create({
-          deviceId,
-          username: getRandomItem(SAMPLE_USERNAMES),
-          eventType: getRandomItem(EVENT_TYPES),
-          timestamp: new Date(),
-          payload: {
-            source: "device_subprocess",
-            generated_at: new Date().toISOString(),
-          },
-        });
+    const apiKey = await this.apiKeyRepository.create({
+      name: data.name,
+      keyHash: hashApiKey(key),
+      prefix: key.slice(0, AUTH.API_KEY_PREFIX.length + 6),
+      role: data.role,
+    });
 
-        logger.debug(`Transaction created for device: ${deviceId}`);
+    logger.info(`API key created: ${apiKey.id}`, {
+      name: apiKey.name,
+      role: apiKey.role,
+    });
 
-        // Schedule next transaction
-        const nextInterval = getRandomInterval();
-        const nextTimeout = setTimeout(generateTransaction, nextInterval);
-        timeouts.push(nextTimeout);
-      } catch (error) {
-        logger.error(
-          `Error creating transaction for device ${deviceId}`,
-          error
-        );
-      }
-    };
+    return { apiKey: this.toPublicApiKey(apiKey), key };
+  }
 
-    // Start the first transaction generation
-    const initialInterval = getRandomInterval();
-    const firstTimeout = setTimeout(generateTransaction, initialInterval);
-    timeouts.push(firstTimeout);
+  /**
+   * Revoke an API key so it can no longer authenticate
+   */
+  async revokeApiKey(id: string): Promise<PublicApiKey> {
+    const apiKey = await this.apiKeyRepository.findById(id);
+
+    if (!apiKey) {
+      throw new NotFoundError("API_KEY_NOT_FOUND", "API key not found");
+    }
 
-    this.activeDeviceProcesses.set(deviceId, timeouts);
+    if (apiKey.revokedAt) {
+      return this.toPublicApiKey(apiKey);
+    }
+
+    const revokedKey = await this.apiKeyRepository.revoke(id);
+
+    logger.info(`API key revoked: ${id}`);
+
+    return this.toPublicApiKey(revokedKey);
   }
 
   /**
-   * Stop transaction generation for a device
+   * Create the initial admin user when no users exist yet. Failures are
+   * logged rather than thrown since this runs at startup.
    */
-  private stopTransactionGeneration(deviceId: string): void {
-    logger.info(`Stopping transaction generation for device: ${deviceId}`);
+  async ensureAdminUser(username: string, password?: string): Promise<void> {
+    try {
+      if ((await this.userRepository.count()) > 0) {
+        return;
+      }
 
-    const timeouts = this.activeDeviceProcesses.get(deviceId);
-    if (timeouts) {
-      timeouts.forEach((timeout) => clearTimeout(timeout));
-      this.activeDeviceProcesses.delete(deviceId);
+      if (!password) {
+        logger.warn(
+          "No users exist. Set ADMIN_PASSWORD to create the initial admin user."
+        );
+        return;
+      }
+
+      await this.createUser({ username, password, role: "admin" });
+    } catch (error) {
+      logger.error("Error creating the initial admin user", error);
     }
   }
 
   /**
-   * Stop all active device processes (for graceful shutdown)
+   * Check a token's signature and expiry. Session tokens have no audience;
+   * URL tokens must have the one asked for.
    */
-  stopAllProcesses(): void {
-    logger.info("Stopping all active device processes...");
-    this.activeDeviceProcesses.forEach((timeouts) => {
-      timeouts.forEach((timeout) => clearTimeout(timeout));
-    });
-    this.activeDeviceProcesses.clear();
+  private verifyToken(
+    token: string,
+    audience?: string
+  ): jwt.JwtPayload & { sub: string } {
+    try {
+      const payload = jwt.verify(token, this.tokenSecret, {
+        algorithms: ["HS256"],
+        ...(audience ? { audience } : {}),
+      });
+      if (
+        typeof payload === "string" ||
+        !payload.sub ||
+        (!audience && payload.aud !== undefined)
+      ) {
+        throw new Error("Unexpected token payload");
+      }
+      return payload as jwt.JwtPayload & { sub: string };
+    } catch {
+      throw new UnauthorizedError(
+        "INVALID_TOKEN",
+        "Access token is invalid or expired"
+      );
+    }
   }
 
   /**
-   * Get count of active devices
+   * Look up the user a token was issued to, with their current role
    */
-  getActiveDeviceCount(): number {
-    return this.activeDeviceProcesses.size;
+  private async authenticateUser(userId: string): Promise<Principal> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new UnauthorizedError(
+        "INVALID_TOKEN",
+        "Access token is invalid or expired"
+      );
+    }
+
+    return {
+      kind: "user",
+      id: user.id,
+      name: user.username,
+      role: user.role as Role,
+    };
+  }
+
+  private toPublicUser(user: User): PublicUser {
+    const { passwordHash, ...publicUser } = user;
+    return publicUser;
+  }
+
+  private toPublicApiKey(apiKey: ApiKey): PublicApiKey {
+    const { keyHash, ...publicApiKey } = apiKey;
+    return publicApiKey;
   }
 }
 
 /**
- * Service for managing transactions
+ * Service for querying the audit log
  */
-export class TransactionService {
-  constructor(private transactionRepository: TransactionRepository) {}
+export class AuditService {
+  constructor(
+    private auditEventRepository: AuditEventRepository,
+    private deviceRepository: DeviceRepository
+  ) {}
 
   /**
-   * Get all transactions with optional filtering
+   * Get audit events, newest first, with optional filtering
    */
-  async getTransactions(options: {
-    deviceId?: string;
-    limit?: number;
-    offset?: number;
-  }): Promise<{
-    success: boolean;
-    transactions?: any;
-    pagination?: any;
-    error?: string;
-  }> {
-    try {
-      const limit = Math.min(options.limit || 100, 1000); // Max 1000
-      const offset = options.offset || 0;
+  async getAuditEvents(
+    options: AuditEventFilters & { limit?: number; offset?: number }
+  ) {
+    const limit = Math.min(options.limit || 100, 1000); // Max 1000
+    const offset = options.offset || 0;
 
-      const { transactions, total } = await this.transactionRepository.findAll({
-        deviceId: options.deviceId,
-        limit,
-        offset,
-      });
+    const { events, total } = await this.auditEventRepository.findAll({
+      ...options,
+      limit,
+      offset,
+    });
 
-      return {
-        success: true,
-        transactions,
-        pagination: {
-          total,
-          limit,
-          offset,
-        },
-      };
-    } catch (error) {
-      logger.error("Error fetching transactions", error);
-      return {
-        success: false,
-        error: "Failed to fetch transactions",
-      };
-    }
+    return {
+      events,
+      pagination: { total, limit, offset },
+    };
   }
 
   /**
-   * Get transactions for a specific device
+   * Get the change history of a device. Purged devices keep their history.
    */
-  async getDeviceTransactions(
+  async getDeviceHistory(
     deviceId: string,
-    options: {
-      limit?: number;
-      offset?: number;
-    }
-  ): Promise<{
-    success: boolean;
-    transactions?: any;
-    pagination?: any;
-    error?: string;
-  }> {
-    try {
-      const limit = Math.min(options.limit || 100, 1000); // Max 1000
-      const offset = options.offset || 0;
-
-      const { transactions, total } =
-        await this.transactionRepository.findByDeviceId({
-          deviceId,
-          limit,
-          offset,
-        });
+    options: { limit?: number; offset?: number }
+  ) {
+    const history = await this.getAuditEvents({ ...options, deviceId });
 
-      return {
-        success: true,
-        transactions,
-        pagination: {
-          total,
-          limit,
-          offset,
-        },
-      };
-    } catch (error) {
-      logger.error("Error fetching device transactions", error);
-      return {
-        success: false,
-        error: "Failed to fetch device transactions",
-      };
+    // Tell an unknown device apart from one with no recorded changes
+    if (
+      history.pagination.total === 0 &&
+      !(await this.deviceRepository.findById(deviceId))
+    ) {
+      throw new NotFoundError("DEVICE_NOT_FOUND", "Device not found");
     }
+
+    return history;
   }
 }
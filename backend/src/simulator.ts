@@ -0,0 +1,228 @@
+import { EVENT_TYPES, SIMULATION } from "./constants";
+import {
+  getRandomInterval,
+  getRandomItem,
+  getRandomNumber,
+  getWeightedItem,
+} from "./utils";
+import type { RandomSource } from "./utils";
+
+/**
+ * Simulator profiles describing how each device type generates
+ * transactions. Add a profile here to support a new device type.
+ */
+
+type PayloadGenerator = (random: RandomSource) => Record<string, unknown>;
+
+export interface SimulatedEventType {
+  eventType: string;
+  // Relative chance of this event type being picked
+  weight: number;
+  // Payload fields specific to this event type
+  payload?: PayloadGenerator;
+}
+
+export interface SimulatorProfile {
+  events: SimulatedEventType[];
+  // Delay between transactions, in milliseconds
+  interval: { min: number; max: number };
+  // Payload fields added to every event from this device type
+  payload?: PayloadGenerator;
+}
+
+/**
+ * A device's own simulation settings, stored on the device
+ */
+export interface SimulationConfig {
+  // Null falls back to the profile's interval range
+  minInterval: number | null;
+  maxInterval: number | null;
+  burstMode: boolean;
+  schedule: string;
+}
+
+const DOOR_IDS = ["D-101", "D-102", "D-201", "D-202", "LOBBY", "SERVER-RM"];
+const PLATE_PREFIXES = ["WXY", "BKT", "JHR", "PKN", "VBA", "WMA"];
+
+const randomPlate = (random: RandomSource) =>
+  `${getRandomItem(PLATE_PREFIXES, random)} ${getRandomNumber(
+    1,
+    10000,
+    0,
+    random
+  )}`;
+
+export const SIMULATOR_PROFILES: Record<string, SimulatorProfile> = {
+  access_controller: {
+    interval: { min: 2000, max: 8000 },
+    payload: (random) => ({
+      doorId: getRandomItem(DOOR_IDS, random),
+      direction: getRandomItem(["in", "out"], random),
+    }),
+    events: [
+      {
+        eventType: "access_granted",
+        weight: 80,
+        payload: (random) => ({
+          credential: getRandomItem(["card", "pin"], random),
+        }),
+      },
+      {
+        eventType: "access_denied",
+        weight: 15,
+        payload: (random) => ({
+          reason: getRandomItem(
+            ["expired_card", "wrong_pin", "no_access"],
+            random
+          ),
+        }),
+      },
+      {
+        eventType: "unauthorized_access",
+        weight: 5,
+        payload: () => ({ reason: "door_forced" }),
+      },
+    ],
+  },
+  face_reader: {
+    interval: { min: 1000, max: 5000 },
+    events: [
+      {
+        eventType: "face_match",
+        weight: 70,
+        payload: (random) => ({
+          matchScore: getRandomNumber(0.85, 1, 3, random),
+        }),
+      },
+      {
+        eventType: "access_denied",
+        weight: 20,
+        payload: (random) => ({
+          matchScore: getRandomNumber(0.4, 0.85, 3, random),
+          reason: "below_threshold",
+        }),
+      },
+      {
+        eventType: "unauthorized_access",
+        weight: 10,
+        payload: (random) => ({
+          matchScore: getRandomNumber(0, 0.4, 3, random),
+          reason: "unknown_face",
+        }),
+      },
+    ],
+  },
+  anpr: {
+    interval: { min: 3000, max: 10000 },
+    payload: (random) => ({
+      plateNumber: randomPlate(random),
+      confidence: getRandomNumber(0.7, 1, 3, random),
+      lane: getRandomNumber(1, 4, 0, random),
+    }),
+    events: [
+      { eventType: "plate_read", weight: 85 },
+      {
+        eventType: "access_denied",
+        weight: 10,
+        payload: () => ({ reason: "plate_not_allowed" }),
+      },
+      {
+        eventType: "unauthorized_access",
+        weight: 5,
+        payload: () => ({ reason: "tailgating" }),
+      },
+    ],
+  },
+};
+
+// Share of the peak rate for each hour of the day under the business hours
+// schedule: traffic peaks at 9am and drops overnight
+const BUSINESS_HOURS_RATE = [
+  0.05, 0.05, 0.05, 0.05, 0.05, 0.1, 0.2, 0.4, 0.8, 1, 0.9, 0.8, 0.7, 0.8, 0.8,
+  0.7, 0.6, 0.5, 0.35, 0.2, 0.15, 0.1, 0.05, 0.05,
+];
+
+// Used for device types without a profile of their own
+const DEFAULT_PROFILE: SimulatorProfile = {
+  interval: { min: 1000, max: 5000 },
+  events: EVENT_TYPES.map((eventType) => ({ eventType, weight: 1 })),
+};
+
+/**
+ * Get the simulator profile for a device type
+ */
+export function getSimulatorProfile(deviceType: string): SimulatorProfile {
+  return SIMULATOR_PROFILES[deviceType] ?? DEFAULT_PROFILE;
+}
+
+/**
+ * Generate the event type and payload of one simulated transaction
+ */
+export function simulateEvent(
+  profile: SimulatorProfile,
+  random: RandomSource = Math.random
+): {
+  eventType: string;
+  payload: Record<string, unknown>;
+} {
+  const event = getWeightedItem(profile.events, random);
+
+  return {
+    eventType: event.eventType,
+    payload: {
+      ...profile.payload?.(random),
+      ...event.payload?.(random),
+    },
+  };
+}
+
+/**
+ * Share of the peak transaction rate a schedule allows at a given time
+ */
+export function getScheduleRate(schedule: string, date: Date): number {
+  if (schedule === "business_hours") {
+    return BUSINESS_HOURS_RATE[date.getHours()] ?? 1;
+  }
+  return 1;
+}
+
+/**
+ * Create the source of delays between a device's transactions. Delays come
+ * from the device's interval range, or its profile's, stretched off-peak by
+ * its schedule. In burst mode a quick run of transactions occasionally
+ * follows.
+ */
+export function createScheduler(
+  profile: SimulatorProfile,
+  config: SimulationConfig,
+  random: RandomSource = Math.random
+): (now?: Date) => number {
+  const min = config.minInterval ?? profile.interval.min;
+  const max = Math.max(config.maxInterval ?? profile.interval.max, min);
+  let burstRemaining = 0;
+
+  return (now = new Date()) => {
+    if (
+      burstRemaining === 0 &&
+      config.burstMode &&
+      random() < SIMULATION.BURST_CHANCE
+    ) {
+      burstRemaining = getRandomNumber(
+        SIMULATION.BURST_SIZE.min,
+        SIMULATION.BURST_SIZE.max + 1,
+        0,
+        random
+      );
+    }
+
+    if (burstRemaining > 0) {
+      burstRemaining--;
+      return getRandomInterval(SIMULATION.BURST_INTERVAL, random);
+    }
+
+    return Math.round(
+      getRandomInterval({ min, max }, random) /
+        getScheduleRate(config.schedule, now)
+    );
+  };
+}
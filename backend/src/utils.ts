@@ -1,24 +1,270 @@
-import { TRANSACTION_INTERVAL } from "./constants";
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+} from "crypto";
+import { promisify } from "util";
+import { AUTH, INGESTION, WEBHOOKS } from "./constants";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+/**
+ * Source of random numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Create a random source that always yields the same sequence for the same
+ * seed (mulberry32)
+ */
+export function createSeededRandom(seed: string | number): RandomSource {
+  let state = createHash("sha256")
+    .update(String(seed))
+    .digest()
+    .readUInt32LE(0);
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
 
 /**
  * Get a random item from an array
  */
-export function getRandomItem<T>(arr: T[]): T {
-  const randomIndex = Math.floor(Math.random() * arr.length);
+export function getRandomItem<T>(
+  arr: T[],
+  random: RandomSource = Math.random
+): T {
+  const randomIndex = Math.floor(random() * arr.length);
   return arr[randomIndex] as T;
 }
 
 /**
- * Get a random interval for transaction generation (1-5 seconds)
+ * Get a random item, with each item's chance proportional to its weight
  */
-export function getRandomInterval(): number {
-  return (
-    Math.floor(
-      Math.random() * (TRANSACTION_INTERVAL.MAX - TRANSACTION_INTERVAL.MIN)
-    ) + TRANSACTION_INTERVAL.MIN
+export function getWeightedItem<T extends { weight: number }>(
+  arr: T[],
+  random: RandomSource = Math.random
+): T {
+  const totalWeight = arr.reduce((sum, item) => sum + item.weight, 0);
+  let remaining = random() * totalWeight;
+
+  for (const item of arr) {
+    remaining -= item.weight;
+    if (remaining < 0) return item;
+  }
+  return arr[arr.length - 1] as T;
+}
+
+/**
+ * Get a random number in [min, max), rounded to the given decimals
+ */
+export function getRandomNumber(
+  min: number,
+  max: number,
+  decimals: number = 0,
+  random: RandomSource = Math.random
+): number {
+  const factor = 10 ** decimals;
+  return Math.floor((random() * (max - min) + min) * factor) / factor;
+}
+
+/**
+ * Get a random interval in milliseconds within a range
+ */
+export function getRandomInterval(
+  range: { min: number; max: number },
+  random: RandomSource = Math.random
+): number {
+  return getRandomNumber(range.min, range.max, 0, random);
+}
+
+/**
+ * Encode a (timestamp, id) position as an opaque pagination cursor
+ */
+export function encodeCursor(position: {
+  timestamp: Date;
+  id: string;
+}): string {
+  return Buffer.from(
+    JSON.stringify([position.timestamp.toISOString(), position.id])
+  ).toString("base64url");
+}
+
+/**
+ * Decode a pagination cursor, returning null if it is malformed
+ */
+export function decodeCursor(
+  cursor: string
+): { timestamp: Date; id: string } | null {
+  try {
+    const [timestamp, id] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    const date = new Date(timestamp);
+    if (typeof id !== "string" || isNaN(date.getTime())) {
+      return null;
+    }
+    return { timestamp: date, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Format values as one CSV line, quoting fields that need it (RFC 4180).
+ * Strings that a spreadsheet would run as a formula are prefixed with a
+ * quote, since devices can push usernames and other values themselves.
+ */
+export function toCsvRow(values: unknown[]): string {
+  return values
+    .map((value) => {
+      if (value === null || value === undefined) return "";
+      let text =
+        typeof value === "object" ? JSON.stringify(value) : String(value);
+      if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+      }
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(",");
+}
+
+/**
+ * Parse CSV text into records keyed by the header row (RFC 4180). Empty
+ * cells are left out and blank lines skipped.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  const [header = [], ...records] = rows.filter((cells) =>
+    cells.some((cell) => cell.trim() !== "")
+  );
+  const columns = header.map((column) => column.trim());
+  return records.map((cells) =>
+    Object.fromEntries(
+      cells
+        .map((cell, index) => [columns[index], cell.trim()])
+        .filter(([column, cell]) => column && cell !== "")
+    )
   );
 }
 
+/**
+ * Hash a password with a random salt, stored as "salt:hash"
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+/**
+ * Check a password against a hash produced by hashPassword
+ */
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Generate a new random API key
+ */
+export function generateApiKey(): string {
+  return AUTH.API_KEY_PREFIX + randomBytes(24).toString("base64url");
+}
+
+/**
+ * Generate a new random device secret
+ */
+export function generateDeviceSecret(): string {
+  return INGESTION.SECRET_PREFIX + randomBytes(24).toString("base64url");
+}
+
+/**
+ * Generate a new random webhook signing secret
+ */
+export function generateWebhookSecret(): string {
+  return WEBHOOKS.SECRET_PREFIX + randomBytes(24).toString("base64url");
+}
+
+/**
+ * Sign a webhook body as HMAC-SHA256 of "<timestamp>.<body>", hex encoded
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+/**
+ * Hash an API key or device secret for storage and lookup
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Check a secret against a hash produced by hashApiKey
+ */
+export function verifySecret(secret: string, hash: string): boolean {
+  const expected = Buffer.from(hash, "hex");
+  const actual = createHash("sha256").update(secret).digest();
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
 /**
  * Logger utility for consistent logging
  */
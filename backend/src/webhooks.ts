@@ -0,0 +1,56 @@
+/**
+ * HTTP delivery of webhook payloads
+ */
+
+export interface WebhookOutcome {
+  // Response status, null when no response arrived
+  status: number | null;
+  // Why the delivery failed, e.g. "HTTP 500" or "timeout"; null on a 2xx
+  error: string | null;
+}
+
+export type WebhookSender = (
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  timeout: number
+) => Promise<WebhookOutcome>;
+
+/**
+ * POST a JSON body, resolving with the response status. Any 2xx counts as
+ * delivered. Never rejects.
+ */
+export const postWebhook: WebhookSender = async (
+  url,
+  body,
+  headers,
+  timeout
+) => {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(timeout),
+    });
+    // Only the status matters; drop the body so the connection is freed
+    await response.body?.cancel();
+
+    return {
+      status: response.status,
+      error: response.ok ? null : `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    const failure = error as NodeJS.ErrnoException & {
+      cause?: NodeJS.ErrnoException;
+    };
+    if (failure.name === "TimeoutError") {
+      return { status: null, error: "timeout" };
+    }
+    return {
+      status: null,
+      error: failure.code ?? failure.cause?.code ?? String(failure.message),
+    };
+  }
+};
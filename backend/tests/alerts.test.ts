@@ -0,0 +1,265 @@
+import { beforeAll, describe, expect, spyOn, test } from "bun:test";
+import type { Alert, AlertRule } from "@prisma/client";
+import { VirtualClock } from "../src/clock";
+import type {
+  AlertRepository,
+  AlertRuleRepository,
+  DeviceRepository,
+  TransactionRepository,
+} from "../src/repositories";
+import { AlertService, EventStreamService } from "../src/services";
+import type { StreamEvent } from "../src/services";
+import { logger } from "../src/utils";
+import { adminContext, fake, makeDevice, quietLogs } from "./fixtures";
+
+beforeAll(() => {
+  quietLogs();
+  spyOn(logger, "warn").mockImplementation(() => {});
+});
+
+const device = makeDevice({ status: "active" });
+
+function makeRule(overrides: Partial<AlertRule> = {}): AlertRule {
+  const createdAt = new Date("2026-01-01T00:00:00Z");
+  return {
+    id: "rule-1",
+    name: "Forced doors",
+    type: "event",
+    eventType: "door_forced",
+    deviceId: null,
+    threshold: null,
+    windowSeconds: null,
+    groupBy: null,
+    severity: "critical",
+    enabled: true,
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  };
+}
+
+async function setup(rules: AlertRule[], options: { count?: number } = {}) {
+  const alerts = new Map<string, Alert>();
+  const events: StreamEvent[] = [];
+  const stream = new EventStreamService();
+  stream.subscribe((event) => {
+    if (event.type === "alert") events.push(event);
+  });
+  const clock = new VirtualClock(new Date("2026-01-01T09:00:00Z"));
+
+  const update = (id: string, changes: Partial<Alert>) => {
+    const alert = { ...alerts.get(id)!, ...changes };
+    alerts.set(id, alert);
+    return alert;
+  };
+
+  const service = new AlertService(
+    fake<AlertRuleRepository>({ findAll: async () => rules }),
+    fake<AlertRepository>({
+      create: async (data: Partial<Alert>) => {
+        const alert = {
+          id: `alert-${alerts.size + 1}`,
+          status: "open",
+          occurrences: 1,
+          lastTriggeredAt: data.triggeredAt,
+          acknowledgedAt: null,
+          acknowledgedBy: null,
+          resolvedAt: null,
+          resolvedBy: null,
+          ...data,
+        } as Alert;
+        alerts.set(alert.id, alert);
+        return alert;
+      },
+      findUnresolved: async (ruleId: string, key: string) =>
+        [...alerts.values()].find(
+          (alert) =>
+            alert.ruleId === ruleId &&
+            alert.key === key &&
+            alert.status !== "resolved"
+        ) ?? null,
+      recordOccurrence: async (
+        id: string,
+        data: { message: string; triggeredAt: Date }
+      ) =>
+        update(id, {
+          message: data.message,
+          lastTriggeredAt: data.triggeredAt,
+          occurrences: alerts.get(id)!.occurrences + 1,
+        }),
+      findById: async (id: string) => alerts.get(id) ?? null,
+      acknowledge: async (id: string, by: string, at: Date) =>
+        update(id, {
+          status: "acknowledged",
+          acknowledgedBy: by,
+          acknowledgedAt: at,
+        }),
+      resolve: async (id: string, by: string, at: Date) =>
+        update(id, { status: "resolved", resolvedBy: by, resolvedAt: at }),
+    }),
+    fake<TransactionRepository>({
+      count: async () => options.count ?? 0,
+      findLatestCreatedAt: async () => new Map(),
+    }),
+    fake<DeviceRepository>({ findByStatus: async () => [device] }),
+    stream,
+    clock
+  );
+  await service.start();
+
+  // Publish a transaction and wait for the rules to be checked
+  const transact = async (eventType: string, username = "john_doe") => {
+    stream.publish("transaction", {
+      deviceId: device.id,
+      device,
+      eventType,
+      username,
+      timestamp: clock.now().toISOString(),
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  };
+
+  return { service, alerts, events, clock, transact };
+}
+
+describe("alerts", () => {
+  test("an event rule opens an alert and counts repeats towards it", async () => {
+    const { service, alerts, events, transact } = await setup([makeRule()]);
+
+    await transact("access_granted");
+    expect(alerts.size).toBe(0);
+
+    await transact("door_forced");
+    await transact("door_forced");
+    service.stop();
+
+    expect(alerts.size).toBe(1);
+    expect(alerts.get("alert-1")).toMatchObject({
+      ruleId: "rule-1",
+      deviceId: device.id,
+      key: device.id,
+      severity: "critical",
+      status: "open",
+      occurrences: 2,
+      message: "door_forced on Main Gate by john_doe",
+    });
+    expect(events.map((event) => event.data.action)).toEqual([
+      "triggered",
+      "updated",
+    ]);
+  });
+
+  test("a threshold rule only triggers once the count is reached", async () => {
+    const rule = makeRule({
+      type: "threshold",
+      eventType: "access_denied",
+      threshold: 3,
+      windowSeconds: 120,
+      groupBy: "username",
+    });
+
+    const below = await setup([rule], { count: 2 });
+    await below.transact("access_denied");
+    below.service.stop();
+    expect(below.alerts.size).toBe(0);
+
+    const reached = await setup([rule], { count: 3 });
+    await reached.transact("access_denied");
+    reached.service.stop();
+    expect(reached.alerts.get("alert-1")).toMatchObject({
+      key: "username:john_doe",
+      message: "3 access_denied for john_doe within 2 min",
+    });
+  });
+
+  test("a silence rule triggers for a device quiet for the window", async () => {
+    const rule = makeRule({ type: "silence", windowSeconds: 300 });
+    const { service, alerts, clock } = await setup([rule]);
+
+    // Swept every minute, so the 5th sweep is the first past the window
+    await clock.advance(299_000);
+    expect(alerts.size).toBe(0);
+
+    await clock.advance(1_000);
+    service.stop();
+
+    expect(alerts.get("alert-1")).toMatchObject({
+      key: device.id,
+      message: "Main Gate has been silent since 2026-01-01T09:00:00.000Z",
+    });
+  });
+
+  test("an alert can be acknowledged and then resolved", async () => {
+    const { service, events, clock, transact } = await setup([makeRule()]);
+    await transact("door_forced");
+    service.stop();
+
+    await clock.advance(60_000);
+    const acknowledged = await service.acknowledgeAlert(
+      "alert-1",
+      adminContext.actor
+    );
+    expect(acknowledged).toMatchObject({
+      status: "acknowledged",
+      acknowledgedBy: "admin",
+      acknowledgedAt: new Date("2026-01-01T09:01:00Z"),
+    });
+
+    const resolved = await service.resolveAlert("alert-1", adminContext.actor);
+    expect(resolved).toMatchObject({
+      status: "resolved",
+      resolvedBy: "admin",
+      resolvedAt: new Date("2026-01-01T09:01:00Z"),
+    });
+
+    expect(events.map((event) => event.data.action)).toEqual([
+      "triggered",
+      "acknowledged",
+      "resolved",
+    ]);
+  });
+
+  test("rejects changes that don't apply to the alert's status", async () => {
+    const { service, transact } = await setup([makeRule()]);
+    await transact("door_forced");
+    service.stop();
+
+    await service.acknowledgeAlert("alert-1", adminContext.actor);
+    await expect(
+      service.acknowledgeAlert("alert-1", adminContext.actor)
+    ).rejects.toMatchObject({
+      status: 409,
+      code: "ALERT_ALREADY_ACKNOWLEDGED",
+    });
+
+    await service.resolveAlert("alert-1", adminContext.actor);
+    await expect(
+      service.acknowledgeAlert("alert-1", adminContext.actor)
+    ).rejects.toMatchObject({ status: 409, code: "ALERT_RESOLVED" });
+    await expect(
+      service.resolveAlert("alert-1", adminContext.actor)
+    ).rejects.toMatchObject({ status: 409, code: "ALERT_RESOLVED" });
+
+    await expect(
+      service.resolveAlert("missing", adminContext.actor)
+    ).rejects.toMatchObject({ status: 404, code: "ALERT_NOT_FOUND" });
+  });
+
+  test("a resolved alert is not reopened by the next trigger", async () => {
+    const { service, alerts, transact } = await setup([makeRule()]);
+    await transact("door_forced");
+    await service.resolveAlert("alert-1", adminContext.actor);
+
+    await transact("door_forced");
+    service.stop();
+
+    expect(alerts.get("alert-1")).toMatchObject({
+      status: "resolved",
+      occurrences: 1,
+    });
+    expect(alerts.get("alert-2")).toMatchObject({
+      status: "open",
+      occurrences: 1,
+    });
+  });
+});
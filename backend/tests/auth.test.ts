@@ -0,0 +1,196 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { ApiKey, User } from "@prisma/client";
+import type { NextFunction, Request, Response } from "express";
+import { authenticate } from "../src/middleware";
+import type { ApiKeyRepository, UserRepository } from "../src/repositories";
+import { AuthService } from "../src/services";
+import { hashPassword } from "../src/utils";
+import { fake, quietLogs } from "./fixtures";
+
+beforeAll(quietLogs);
+
+async function setup() {
+  const createdAt = new Date("2026-01-01T00:00:00Z");
+  const users = new Map<string, User>([
+    [
+      "user-1",
+      {
+        id: "user-1",
+        username: "olivia",
+        passwordHash: await hashPassword("correct horse"),
+        role: "operator",
+        createdAt,
+        updatedAt: createdAt,
+      },
+    ],
+  ]);
+  const apiKey = {
+    id: "key-1",
+    name: "Reporting",
+    role: "viewer",
+    revokedAt: null,
+  } as ApiKey;
+
+  const service = new AuthService(
+    fake<UserRepository>({
+      findById: async (id: string) => users.get(id) ?? null,
+      findByUsername: async (username: string) =>
+        [...users.values()].find((user) => user.username === username) ?? null,
+    }),
+    fake<ApiKeyRepository>({
+      findById: async (id: string) => (id === apiKey.id ? apiKey : null),
+    }),
+    "test-secret"
+  );
+
+  return { service, users, apiKey };
+}
+
+describe("access tokens", () => {
+  test("resolve to the user who logged in", async () => {
+    const { service } = await setup();
+    const { token } = await service.login("olivia", "correct horse");
+
+    expect(await service.authenticate(token)).toEqual({
+      kind: "user",
+      id: "user-1",
+      name: "olivia",
+      role: "operator",
+    });
+  });
+
+  test("carry the user's current role, not the one at login", async () => {
+    const { service, users } = await setup();
+    const { token } = await service.login("olivia", "correct horse");
+
+    users.set("user-1", { ...users.get("user-1")!, role: "viewer" });
+
+    expect(await service.authenticate(token)).toMatchObject({
+      role: "viewer",
+    });
+  });
+
+  test("stop working once the user is deleted", async () => {
+    const { service, users } = await setup();
+    const { token } = await service.login("olivia", "correct horse");
+
+    users.delete("user-1");
+
+    await expect(service.authenticate(token)).rejects.toMatchObject({
+      status: 401,
+      code: "INVALID_TOKEN",
+    });
+  });
+
+  test("are rejected when signed with another secret", async () => {
+    const { service } = await setup();
+    const other = new AuthService(
+      fake<UserRepository>({
+        findByUsername: async () => ({
+          id: "user-1",
+          username: "olivia",
+          passwordHash: await hashPassword("correct horse"),
+          role: "admin",
+        }),
+      }),
+      fake<ApiKeyRepository>({}),
+      "another-secret"
+    );
+    const { token } = await other.login("olivia", "correct horse");
+
+    await expect(service.authenticate(token)).rejects.toMatchObject({
+      status: 401,
+      code: "INVALID_TOKEN",
+    });
+  });
+
+  test("reject a wrong password", async () => {
+    const { service } = await setup();
+
+    await expect(service.login("olivia", "wrong")).rejects.toMatchObject({
+      status: 401,
+      code: "INVALID_CREDENTIALS",
+    });
+  });
+});
+
+describe("URL tokens", () => {
+  const olivia = {
+    kind: "user" as const,
+    id: "user-1",
+    name: "olivia",
+    role: "operator" as const,
+  };
+
+  // Run the authenticate middleware on a GET with only an access_token
+  async function authenticateUrl(
+    service: AuthService,
+    path: string,
+    token: string
+  ) {
+    const res = { locals: {} as Record<string, unknown> };
+    await authenticate(service)(
+      {
+        method: "GET",
+        path,
+        query: { access_token: token },
+        header: () => undefined,
+      } as unknown as Request,
+      res as unknown as Response,
+      (() => {}) as NextFunction
+    );
+    return res.locals.principal;
+  }
+
+  test("authenticate GET requests to the path they were issued for", async () => {
+    const { service } = await setup();
+    const { token, expiresAt } = service.issueUrlToken(
+      olivia,
+      "/transactions/stream"
+    );
+
+    expect(Date.parse(expiresAt) - Date.now()).toBeLessThanOrEqual(60_000);
+    expect(
+      await authenticateUrl(service, "/transactions/stream", token)
+    ).toEqual(olivia);
+    await expect(
+      authenticateUrl(service, "/transactions/export", token)
+    ).rejects.toMatchObject({ status: 401, code: "INVALID_TOKEN" });
+  });
+
+  test("are not accepted in place of a session token", async () => {
+    const { service } = await setup();
+    const { token } = service.issueUrlToken(olivia, "/transactions/export");
+
+    await expect(service.authenticate(token)).rejects.toMatchObject({
+      status: 401,
+      code: "INVALID_TOKEN",
+    });
+  });
+
+  test("a session token is not accepted in a URL", async () => {
+    const { service } = await setup();
+    const { token } = await service.login("olivia", "correct horse");
+
+    await expect(
+      authenticateUrl(service, "/transactions/stream", token)
+    ).rejects.toMatchObject({ status: 401, code: "INVALID_TOKEN" });
+  });
+
+  test("issued to an API key stop working once it is revoked", async () => {
+    const { service, apiKey } = await setup();
+    const { token } = service.issueUrlToken(
+      { kind: "apiKey", id: apiKey.id, name: apiKey.name, role: "viewer" },
+      "/transactions/export"
+    );
+
+    expect(
+      await authenticateUrl(service, "/transactions/export", token)
+    ).toMatchObject({ kind: "apiKey", id: "key-1", role: "viewer" });
+
+    apiKey.revokedAt = new Date();
+    await expect(
+      authenticateUrl(service, "/transactions/export", token)
+    ).rejects.toMatchObject({ status: 401, code: "INVALID_API_KEY" });
+  });
+});
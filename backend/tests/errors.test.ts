@@ -0,0 +1,117 @@
+import { describe, expect, test } from "bun:test";
+import { Prisma } from "@prisma/client";
+import { toAppError } from "../src/app";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from "../src/errors";
+import { validate } from "../src/middleware";
+import { createDeviceBodySchema } from "../src/schemas";
+
+const prismaError = (code: string) =>
+  new Prisma.PrismaClientKnownRequestError("Prisma error", {
+    code,
+    clientVersion: Prisma.prismaVersion.client,
+  });
+
+describe("domain errors", () => {
+  test("carry their HTTP status and code", () => {
+    const cases = [
+      [new ValidationError("Bad input"), 400, "VALIDATION_FAILED"],
+      [new UnauthorizedError("UNAUTHENTICATED", "No"), 401, "UNAUTHENTICATED"],
+      [new ForbiddenError("FORBIDDEN", "No"), 403, "FORBIDDEN"],
+      [new NotFoundError("DEVICE_NOT_FOUND", "No"), 404, "DEVICE_NOT_FOUND"],
+      [new ConflictError("DEVICE_ARCHIVED", "No"), 409, "DEVICE_ARCHIVED"],
+    ] as const;
+
+    for (const [error, status, code] of cases) {
+      expect(error.status).toBe(status);
+      expect(error.toBody()).toMatchObject({ error: error.message, code });
+    }
+  });
+
+  test("validation errors include their details", () => {
+    const details = [
+      { location: "body" as const, field: "name", message: "Required" },
+    ];
+
+    expect(new ValidationError("Validation failed", details).toBody()).toEqual({
+      error: "Validation failed",
+      code: "VALIDATION_FAILED",
+      details,
+    });
+  });
+});
+
+describe("toAppError", () => {
+  test("passes domain errors through", () => {
+    const error = new NotFoundError("DEVICE_NOT_FOUND", "Device not found");
+    expect(toAppError(error)).toBe(error);
+  });
+
+  test("maps Prisma errors to domain errors", () => {
+    expect(toAppError(prismaError("P2025"))).toMatchObject({
+      status: 404,
+      code: "RECORD_NOT_FOUND",
+    });
+    expect(toAppError(prismaError("P2002"))).toMatchObject({
+      status: 409,
+      code: "CONFLICT",
+    });
+    expect(toAppError(prismaError("P1001"))).toMatchObject({
+      status: 503,
+      code: "SERVICE_UNAVAILABLE",
+    });
+  });
+
+  test("maps malformed JSON bodies to INVALID_JSON", () => {
+    expect(toAppError({ type: "entity.parse.failed" })).toMatchObject({
+      status: 400,
+      code: "INVALID_JSON",
+    });
+  });
+
+  test("leaves unexpected errors unmapped", () => {
+    expect(toAppError(new Error("boom"))).toBeUndefined();
+    expect(toAppError(prismaError("P2003"))).toBeUndefined();
+  });
+});
+
+describe("validate", () => {
+  const run = (body: unknown) => {
+    let passed: unknown;
+    const res = { locals: {} as Record<string, unknown> };
+    validate({ body: createDeviceBodySchema })(
+      { body } as never,
+      res as never,
+      (error?: unknown) => {
+        passed = error;
+      }
+    );
+    return { error: passed, locals: res.locals };
+  };
+
+  test("stores the parsed body", () => {
+    const { error, locals } = run({
+      name: "Gate",
+      deviceType: "anpr",
+      ipAddress: "10.0.0.1",
+    });
+
+    expect(error).toBeUndefined();
+    expect(locals.body).toMatchObject({ name: "Gate", deviceType: "anpr" });
+  });
+
+  test("reports every invalid field as a ValidationError", () => {
+    const { error } = run({ name: "", deviceType: "toaster" });
+
+    expect(error).toBeInstanceOf(ValidationError);
+    const fields = (error as ValidationError).details.map((d) => d.field);
+    expect(fields).toEqual(
+      expect.arrayContaining(["name", "deviceType", "ipAddress"])
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import { EventEmitter } from "events";
+import type { Request, Response } from "express";
+import { TransactionHandler } from "../src/handlers";
+import type {
+  EventStreamService,
+  ExportRecord,
+  TransactionService,
+} from "../src/services";
+import { toCsvRow } from "../src/utils";
+import { fake } from "./fixtures";
+
+const record: ExportRecord = {
+  id: "1",
+  timestamp: "2026-01-01T09:00:00.000Z",
+  deviceId: "device-1",
+  deviceName: "Main Gate",
+  deviceType: "access_controller",
+  username: "john_doe",
+  eventType: "access_granted",
+  payload: null,
+};
+
+// Response whose buffer is always full: every write waits for a drain
+class SlowResponse extends EventEmitter {
+  locals = { query: { format: "csv" } };
+  chunks: string[] = [];
+  ended = false;
+  maxCloseListeners = 0;
+
+  writeHead() {
+    return this;
+  }
+
+  write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    this.maxCloseListeners = Math.max(
+      this.maxCloseListeners,
+      this.listenerCount("close")
+    );
+    setImmediate(() => this.emit("drain"));
+    return false;
+  }
+
+  end() {
+    this.ended = true;
+    this.emit("close");
+  }
+}
+
+function setup(batches: number) {
+  const handler = new TransactionHandler(
+    fake<TransactionService>({
+      exportTransactions: async function* () {
+        for (let i = 0; i < batches; i++) yield [record];
+      },
+    }),
+    fake<EventStreamService>({})
+  );
+  const res = new SlowResponse();
+  const run = () =>
+    handler.exportTransactions({} as Request, res as unknown as Response);
+  return { res, run };
+}
+
+describe("transaction export", () => {
+  test("waits for each drain without piling up listeners", async () => {
+    const { res, run } = setup(50);
+
+    await run();
+
+    expect(res.ended).toBe(true);
+    // Header row plus one chunk per batch
+    expect(res.chunks).toHaveLength(51);
+    expect(res.maxCloseListeners).toBe(1);
+    expect(res.listenerCount("drain")).toBe(0);
+  });
+
+  test("stops when the client goes away mid-wait", async () => {
+    const { res, run } = setup(50);
+    res.write = function (chunk: string) {
+      this.chunks.push(chunk);
+      // Never drains; the client hangs up after the first batch
+      if (this.chunks.length === 2) setImmediate(() => this.emit("close"));
+      return false;
+    };
+
+    await run();
+
+    expect(res.chunks).toHaveLength(2);
+    expect(res.listenerCount("drain")).toBe(0);
+  });
+});
+
+describe("toCsvRow", () => {
+  test("quotes fields with separators, quotes or line breaks", () => {
+    expect(toCsvRow(["plain", "a,b", 'say "hi"', "two\nlines", null])).toBe(
+      'plain,"a,b","say ""hi""","two\nlines",'
+    );
+    expect(toCsvRow([{ door: "north" }, 42])).toBe('"{""door"":""north""}",42');
+  });
+
+  test("defuses strings a spreadsheet would run as formulas", () => {
+    expect(
+      toCsvRow(['=HYPERLINK("http://x")', "+1", "-1", "@SUM(A1)", "\tx"])
+    ).toBe(`"'=HYPERLINK(""http://x"")",'+1,'-1,'@SUM(A1),'\tx`);
+    expect(toCsvRow(["\r=1+1"])).toBe(`"'\r=1+1"`);
+    // Numbers are left alone so they stay numeric
+    expect(toCsvRow([-5, "john=doe"])).toBe("-5,john=doe");
+  });
+});
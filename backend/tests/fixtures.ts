@@ -0,0 +1,49 @@
+import { spyOn } from "bun:test";
+import type { Device } from "@prisma/client";
+import type { AuditContext } from "../src/services";
+import { logger } from "../src/utils";
+
+/**
+ * Shared builders for tests. Repositories are replaced by small in-memory
+ * fakes with just the methods the code under test calls.
+ */
+
+// Keep info logs out of the test output; errors still show
+export function quietLogs(): void {
+  spyOn(logger, "info").mockImplementation(() => {});
+}
+
+// Cast a partial fake to the repository or service type it stands in for
+export function fake<T>(implementation: Partial<Record<keyof T, unknown>>): T {
+  return implementation as unknown as T;
+}
+
+export function makeDevice(overrides: Partial<Device> = {}): Device {
+  const createdAt = new Date("2026-01-01T00:00:00Z");
+  return {
+    id: "11111111-1111-4111-8111-111111111111",
+    name: "Main Gate",
+    deviceType: "access_controller",
+    ipAddress: "10.0.0.10",
+    status: "inactive",
+    createdAt,
+    updatedAt: createdAt,
+    deletedAt: null,
+    minInterval: null,
+    maxInterval: null,
+    burstMode: false,
+    schedule: "always",
+    lastSeenAt: null,
+    online: false,
+    port: null,
+    reachable: null,
+    latencyMs: null,
+    probedAt: null,
+    ...overrides,
+  };
+}
+
+export const adminContext: AuditContext = {
+  actor: { kind: "user", id: "admin-id", name: "admin", role: "admin" },
+  ipAddress: "127.0.0.1",
+};
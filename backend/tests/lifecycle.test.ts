@@ -0,0 +1,176 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { Device } from "@prisma/client";
+import { VirtualClock } from "../src/clock";
+import type { DeviceStatus } from "../src/constants";
+import type {
+  AuditEventRepository,
+  DeviceRepository,
+  DeviceSecretRepository,
+  TransactionRepository,
+} from "../src/repositories";
+import { DeviceService, EventStreamService } from "../src/services";
+import type { StreamEvent } from "../src/services";
+import { adminContext, fake, makeDevice, quietLogs } from "./fixtures";
+
+beforeAll(quietLogs);
+
+function setup(
+  initial: Device[],
+  options: { physicalIds?: string[]; failWrites?: boolean } = {}
+) {
+  const devices = new Map(initial.map((device) => [device.id, device]));
+  const audits: { action: string; reason?: string }[] = [];
+  const events: StreamEvent[] = [];
+  const stream = new EventStreamService();
+  stream.subscribe((event) => events.push(event));
+
+  const setStatus = (id: string, status: DeviceStatus) => {
+    if (options.failWrites) throw new Error("database is down");
+    const device = { ...devices.get(id)!, status };
+    devices.set(id, device);
+    return device;
+  };
+
+  const service = new DeviceService(
+    fake<DeviceRepository>({
+      findById: async (id: string) => devices.get(id) ?? null,
+      findByIds: async (ids: string[]) =>
+        ids.flatMap((id) => devices.get(id) ?? []),
+      findByStatus: async (status: DeviceStatus) =>
+        [...devices.values()].filter((device) => device.status === status),
+      updateStatus: async (id: string, status: DeviceStatus) =>
+        setStatus(id, status),
+      updateStatusMany: async (ids: string[], status: DeviceStatus) =>
+        ids.map((id) => setStatus(id, status)),
+    }),
+    fake<TransactionRepository>({}),
+    stream,
+    fake<AuditEventRepository>({
+      create: async (data: { action: string; reason?: string }) => {
+        audits.push({ action: data.action, reason: data.reason });
+      },
+    }),
+    fake<DeviceSecretRepository>({
+      findByDeviceId: async (id: string) =>
+        options.physicalIds?.includes(id) ? { deviceId: id } : null,
+      findDeviceIds: async () => options.physicalIds ?? [],
+    }),
+    new VirtualClock()
+  );
+
+  return { service, devices, audits, events };
+}
+
+describe("device lifecycle", () => {
+  test("activating starts the generator and deactivating stops it", async () => {
+    const device = makeDevice({ status: "provisioning" });
+    const { service, audits, events } = setup([device]);
+
+    const active = await service.activateDevice(device.id, adminContext);
+    expect(active.status).toBe("active");
+    expect(service.getActiveDeviceCount()).toBe(1);
+
+    const inactive = await service.deactivateDevice(device.id, adminContext);
+    expect(inactive.status).toBe("inactive");
+    expect(service.getActiveDeviceCount()).toBe(0);
+
+    expect(audits.map((audit) => audit.action)).toEqual([
+      "activated",
+      "deactivated",
+    ]);
+    expect(events.map((event) => event.data.action)).toEqual([
+      "activated",
+      "deactivated",
+    ]);
+  });
+
+  test("other moves are recorded with their reason", async () => {
+    const device = makeDevice({ status: "active" });
+    const { service, audits } = setup([device]);
+    await service.resumeActiveDevices();
+
+    const updated = await service.transitionDevice(
+      device.id,
+      "maintenance",
+      "Replacing the reader",
+      adminContext
+    );
+
+    expect(updated.status).toBe("maintenance");
+    expect(service.getActiveDeviceCount()).toBe(0);
+    expect(audits).toEqual([
+      { action: "transitioned", reason: "Replacing the reader" },
+    ]);
+  });
+
+  test("rejects moves DEVICE_TRANSITIONS doesn't allow", async () => {
+    const cases: [DeviceStatus, DeviceStatus, string][] = [
+      ["active", "active", "DEVICE_ALREADY_ACTIVE"],
+      ["inactive", "inactive", "DEVICE_ALREADY_INACTIVE"],
+      ["faulted", "active", "INVALID_TRANSITION"],
+      ["decommissioned", "inactive", "INVALID_TRANSITION"],
+    ];
+
+    for (const [from, to, code] of cases) {
+      const device = makeDevice({ status: from });
+      const { service, devices } = setup([device]);
+
+      await expect(
+        service.transitionDevice(device.id, to, undefined, adminContext)
+      ).rejects.toMatchObject({ status: 409, code });
+      expect(devices.get(device.id)?.status).toBe(from);
+    }
+  });
+
+  test("rejects moves of archived devices", async () => {
+    const device = makeDevice({ deletedAt: new Date() });
+    const { service } = setup([device]);
+
+    await expect(
+      service.activateDevice(device.id, adminContext)
+    ).rejects.toMatchObject({ code: "DEVICE_ARCHIVED" });
+  });
+
+  test("doesn't run the generator for physical devices", async () => {
+    const device = makeDevice();
+    const { service } = setup([device], { physicalIds: [device.id] });
+
+    await service.activateDevice(device.id, adminContext);
+
+    expect(service.getActiveDeviceCount()).toBe(0);
+  });
+
+  test("keeps an active device's generator when the status write fails", async () => {
+    const device = makeDevice({ status: "active" });
+    const { service } = setup([device], { failWrites: true });
+    await service.resumeActiveDevices();
+
+    await expect(
+      service.transitionDevice(device.id, "faulted", undefined, adminContext)
+    ).rejects.toThrow("database is down");
+    expect(service.getActiveDeviceCount()).toBe(1);
+
+    await expect(
+      service.bulkTransition({ ids: [device.id] }, "inactive", adminContext)
+    ).rejects.toThrow("database is down");
+    expect(service.getActiveDeviceCount()).toBe(1);
+  });
+
+  test("bulk moves report devices that can't make the move", async () => {
+    const active = makeDevice({ id: "a", status: "active" });
+    const retired = makeDevice({ id: "b", status: "decommissioned" });
+    const { service } = setup([active, retired]);
+
+    const result = await service.bulkTransition(
+      { ids: ["a", "b", "missing"] },
+      "inactive",
+      adminContext
+    );
+
+    expect(result.devices.map((device) => device.id)).toEqual(["a"]);
+    expect(result.failed.map((f) => [f.id, f.code])).toEqual([
+      ["missing", "DEVICE_NOT_FOUND"],
+      ["b", "INVALID_TRANSITION"],
+    ]);
+  });
+});
@@ -0,0 +1,201 @@
+import { afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { createServer } from "net";
+import type { AddressInfo, Server } from "net";
+import type { Device, ProbeResult } from "@prisma/client";
+import { VirtualClock } from "../src/clock";
+import { DeviceHandler } from "../src/handlers";
+import { probeTcp } from "../src/probe";
+import type {
+  DeviceRepository,
+  ProbeResultRepository,
+} from "../src/repositories";
+import {
+  DeviceService,
+  EventStreamService,
+  ProbeService,
+} from "../src/services";
+import type { StreamEvent } from "../src/services";
+import { adminContext, fake, makeDevice, quietLogs } from "./fixtures";
+
+beforeAll(quietLogs);
+
+let server: Server | undefined;
+
+afterEach(() => {
+  server?.close();
+  server = undefined;
+});
+
+// Stub device: a TCP listener on a free local port
+async function listen(): Promise<number> {
+  server = createServer((socket) => socket.end());
+  await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+  return (server.address() as AddressInfo).port;
+}
+
+// A port with nothing listening on it
+async function closedPort(): Promise<number> {
+  const stub = createServer();
+  await new Promise<void>((resolve) => stub.listen(0, "127.0.0.1", resolve));
+  const { port } = stub.address() as AddressInfo;
+  await new Promise((resolve) => stub.close(resolve));
+  return port;
+}
+
+describe("probeTcp", () => {
+  test("reports a listening port as reachable", async () => {
+    const port = await listen();
+
+    const outcome = await probeTcp("127.0.0.1", port, 1000);
+
+    expect(outcome.reachable).toBe(true);
+    expect(outcome.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(outcome.error).toBeNull();
+  });
+
+  test("reports a refused connection as unreachable", async () => {
+    const outcome = await probeTcp("127.0.0.1", await closedPort(), 1000);
+
+    expect(outcome).toEqual({
+      reachable: false,
+      latencyMs: null,
+      error: "ECONNREFUSED",
+    });
+  });
+});
+
+describe("ProbeService", () => {
+  function setup(device: Device) {
+    const clock = new VirtualClock(new Date("2026-01-01T09:00:00Z"));
+    const results: ProbeResult[] = [];
+    const events: StreamEvent[] = [];
+    const stream = new EventStreamService();
+    stream.subscribe((event) => events.push(event));
+
+    const service = new ProbeService(
+      fake<DeviceRepository>({
+        findById: async () => device,
+        recordProbe: async (
+          id: string,
+          probe: Pick<Device, "reachable" | "latencyMs" | "probedAt">
+        ) => ({ ...device, ...probe }),
+      }),
+      fake<ProbeResultRepository>({
+        create: async (data: Omit<ProbeResult, "id">) => {
+          const result = { ...data, id: String(results.length + 1) };
+          results.push(result);
+          return result;
+        },
+      }),
+      stream,
+      clock
+    );
+
+    return { service, results, events };
+  }
+
+  test("probes the device's own port and publishes the change", async () => {
+    const port = await listen();
+    const device = makeDevice({ ipAddress: "127.0.0.1", port });
+    const { service, results, events } = setup(device);
+
+    const result = await service.probeDevice(device.id);
+
+    expect(result).toMatchObject({
+      deviceId: device.id,
+      ipAddress: "127.0.0.1",
+      port,
+      reachable: true,
+      error: null,
+      createdAt: new Date("2026-01-01T09:00:00Z"),
+    });
+    expect(results).toHaveLength(1);
+    expect(events.map((e) => [e.type, e.data.action])).toEqual([
+      ["device", "reachable"],
+    ]);
+  });
+
+  test("records a failed probe without publishing an unchanged state", async () => {
+    const device = makeDevice({
+      ipAddress: "127.0.0.1",
+      port: await closedPort(),
+      reachable: false,
+    });
+    const { service, events } = setup(device);
+
+    const result = await service.probeDevice(device.id);
+
+    expect(result.reachable).toBe(false);
+    expect(result.error).toBe("ECONNREFUSED");
+    expect(events).toHaveLength(0);
+  });
+
+  test("refuses to probe archived devices", async () => {
+    const device = makeDevice({ deletedAt: new Date() });
+    const { service } = setup(device);
+
+    await expect(service.probeDevice(device.id)).rejects.toMatchObject({
+      code: "DEVICE_ARCHIVED",
+    });
+  });
+});
+
+describe("DeviceHandler port", () => {
+  function setup() {
+    const calls: { method: string; data: unknown }[] = [];
+    const handler = new DeviceHandler(
+      fake<DeviceService>({
+        createDevice: async (data: unknown) => {
+          calls.push({ method: "createDevice", data });
+          return makeDevice();
+        },
+        updateDevice: async (id: string, data: unknown) => {
+          calls.push({ method: "updateDevice", data });
+          return makeDevice();
+        },
+      })
+    );
+    const res = {
+      locals: { principal: adminContext.actor } as Record<string, unknown>,
+      status: () => res,
+      json: () => res,
+    };
+    return { handler, calls, res };
+  }
+
+  test("is passed on when creating a device", async () => {
+    const { handler, calls, res } = setup();
+    res.locals.body = {
+      name: "Gate",
+      deviceType: "anpr",
+      ipAddress: "127.0.0.1",
+      port: 8080,
+    };
+
+    await handler.createDevice({} as never, res as never);
+
+    expect(calls).toEqual([
+      {
+        method: "createDevice",
+        data: expect.objectContaining({ port: 8080 }),
+      },
+    ]);
+  });
+
+  test("is passed on when updating a device", async () => {
+    const { handler, calls, res } = setup();
+    res.locals.body = { port: 8080 };
+
+    await handler.updateDevice(
+      { params: { id: makeDevice().id } } as never,
+      res as never
+    );
+
+    expect(calls).toEqual([
+      {
+        method: "updateDevice",
+        data: expect.objectContaining({ port: 8080 }),
+      },
+    ]);
+  });
+});
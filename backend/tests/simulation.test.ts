@@ -0,0 +1,124 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import type { Transaction } from "@prisma/client";
+import { VirtualClock } from "../src/clock";
+import type {
+  AuditEventRepository,
+  DeviceRepository,
+  DeviceSecretRepository,
+  NewTransaction,
+  TransactionRepository,
+} from "../src/repositories";
+import { DeviceService, EventStreamService } from "../src/services";
+import { createSeededRandom } from "../src/utils";
+import { fake, makeDevice, quietLogs } from "./fixtures";
+
+beforeAll(quietLogs);
+
+// Recorded from the "test" seed; changes to the simulator profiles or the
+// random source show up here
+const EXPECTED_SEQUENCE = [
+  ["2026-01-01T09:00:04.629Z", "fiona_green", "access_granted"],
+  ["2026-01-01T09:00:09.448Z", "charlie_brown", "access_granted"],
+  ["2026-01-01T09:00:15.906Z", "diana_prince", "access_granted"],
+  ["2026-01-01T09:00:19.010Z", "alice_johnson", "access_granted"],
+  ["2026-01-01T09:00:23.083Z", "john_doe", "access_granted"],
+  ["2026-01-01T09:00:25.580Z", "evan_davis", "unauthorized_access"],
+  ["2026-01-01T09:00:28.361Z", "alice_johnson", "access_granted"],
+];
+
+/**
+ * Run one active device's generator for 30 seconds of virtual time and
+ * return what it wrote
+ */
+async function simulate(seed: string): Promise<NewTransaction[]> {
+  const clock = new VirtualClock(new Date("2026-01-01T09:00:00Z"));
+  const created: NewTransaction[] = [];
+  const device = makeDevice({ status: "active" });
+
+  const service = new DeviceService(
+    fake<DeviceRepository>({ findByStatus: async () => [device] }),
+    fake<TransactionRepository>({
+      create: async (data: NewTransaction) => {
+        created.push(data);
+        return { ...data, id: String(created.length) } as Transaction;
+      },
+    }),
+    new EventStreamService(clock),
+    fake<AuditEventRepository>({}),
+    fake<DeviceSecretRepository>({ findDeviceIds: async () => [] }),
+    clock,
+    seed
+  );
+
+  await service.resumeActiveDevices();
+  await clock.advance(30_000);
+  service.stopAllProcesses();
+
+  return created;
+}
+
+describe("createSeededRandom", () => {
+  test("repeats the same sequence for the same seed", () => {
+    const first = createSeededRandom("test");
+    const second = createSeededRandom("test");
+    const other = createSeededRandom("other");
+
+    const values = Array.from({ length: 5 }, first);
+    expect(Array.from({ length: 5 }, second)).toEqual(values);
+    expect(Array.from({ length: 5 }, other)).not.toEqual(values);
+    values.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe("seeded simulation", () => {
+  test("generates the exact same transactions on every run", async () => {
+    const transactions = await simulate("test");
+
+    expect(
+      transactions.map((t) => [
+        t.timestamp.toISOString(),
+        t.username,
+        t.eventType,
+      ])
+    ).toEqual(EXPECTED_SEQUENCE);
+    expect(await simulate("test")).toEqual(transactions);
+  });
+
+  test("generates a different sequence for another seed", async () => {
+    const transactions = await simulate("another seed");
+
+    expect(transactions.length).toBeGreaterThan(0);
+    expect(
+      transactions.map((t) => [
+        t.timestamp.toISOString(),
+        t.username,
+        t.eventType,
+      ])
+    ).not.toEqual(EXPECTED_SEQUENCE);
+  });
+});
+
+describe("event stream IDs", () => {
+  test("are numbered from the clock and replay from the last seen ID", () => {
+    const clock = new VirtualClock(new Date("2026-01-01T09:00:00Z"));
+    const stream = new EventStreamService(clock);
+
+    const ids = ["first", "second", "third"].map(
+      (name) => stream.publish("device", { name }).id
+    );
+    const start = Date.parse("2026-01-01T09:00:00Z");
+    expect(ids).toEqual([start, start + 1, start + 2]);
+
+    const replayed: number[] = [];
+    const { complete, unsubscribe } = stream.subscribe(
+      (event) => replayed.push(event.id),
+      { lastEventId: start }
+    );
+    unsubscribe();
+    expect(complete).toBe(true);
+    expect(replayed).toEqual([start + 1, start + 2]);
+  });
+});
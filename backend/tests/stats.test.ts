@@ -0,0 +1,143 @@
+import { describe, expect, test } from "bun:test";
+import { VirtualClock } from "../src/clock";
+import type {
+  BucketCount,
+  DeviceRepository,
+  TransactionFilters,
+  TransactionRepository,
+} from "../src/repositories";
+import { TransactionService } from "../src/services";
+import { fake, makeDevice } from "./fixtures";
+
+const device = makeDevice();
+
+function setup(counts: BucketCount[] = []) {
+  const ranges: TransactionFilters[] = [];
+  const clock = new VirtualClock(new Date("2026-01-01T09:30:15Z"));
+
+  const service = new TransactionService(
+    fake<TransactionRepository>({
+      countByBucket: async (filters: TransactionFilters) => {
+        ranges.push(filters);
+        return counts;
+      },
+      countByUsername: async () => [{ username: "john_doe", count: 3 }],
+      countByDevice: async () => [
+        { deviceId: device.id, count: 2 },
+        { deviceId: "purged-device", count: 1 },
+      ],
+    }),
+    fake<DeviceRepository>({ findByIds: async () => [device] }),
+    clock
+  );
+
+  return { service, ranges, clock };
+}
+
+describe("transaction stats", () => {
+  test("defaults to the day up to the clock's now", async () => {
+    const { service, ranges } = setup();
+
+    const stats = await service.getStats({ bucket: "hour", top: 10 });
+
+    expect(stats.to).toEqual(new Date("2026-01-01T09:30:15Z"));
+    expect(stats.from).toEqual(new Date("2025-12-31T09:30:15Z"));
+    expect(ranges[0]).toMatchObject({ from: stats.from, to: stats.to });
+    // Partial hours at both ends get their own bucket
+    expect(stats.buckets).toHaveLength(25);
+    expect(stats.buckets[0]!.start).toEqual(new Date("2025-12-31T09:00:00Z"));
+    expect(stats.buckets[24]!.start).toEqual(new Date("2026-01-01T09:00:00Z"));
+  });
+
+  test("fills empty buckets with zero and totals the rest", async () => {
+    const { service } = setup([
+      { start: new Date("2026-01-01T09:01:00Z"), group: null, count: 4 },
+      { start: new Date("2026-01-01T09:03:00Z"), group: null, count: 2 },
+    ]);
+
+    const stats = await service.getStats({
+      from: new Date("2026-01-01T09:00:30Z"),
+      to: new Date("2026-01-01T09:04:00Z"),
+      bucket: "minute",
+      top: 10,
+    });
+
+    expect(
+      stats.buckets.map((entry) => [entry.start.toISOString(), entry.count])
+    ).toEqual([
+      ["2026-01-01T09:00:00.000Z", 0],
+      ["2026-01-01T09:01:00.000Z", 4],
+      ["2026-01-01T09:02:00.000Z", 0],
+      ["2026-01-01T09:03:00.000Z", 2],
+      ["2026-01-01T09:04:00.000Z", 0],
+    ]);
+    expect(stats.total).toBe(6);
+    expect(stats.groupBy).toBeNull();
+    expect(stats.topUsernames).toEqual([{ username: "john_doe", count: 3 }]);
+    expect(stats.topDeniedDevices).toEqual([
+      {
+        deviceId: device.id,
+        name: "Main Gate",
+        deviceType: "access_controller",
+        count: 2,
+      },
+      {
+        deviceId: "purged-device",
+        name: "purged-device",
+        deviceType: "",
+        count: 1,
+      },
+    ]);
+  });
+
+  test("splits each bucket by the groupBy value", async () => {
+    const { service } = setup([
+      {
+        start: new Date("2026-01-01T00:00:00Z"),
+        group: "access_granted",
+        count: 5,
+      },
+      {
+        start: new Date("2026-01-01T00:00:00Z"),
+        group: "access_denied",
+        count: 1,
+      },
+    ]);
+
+    const stats = await service.getStats({
+      from: new Date("2026-01-01T00:00:00Z"),
+      to: new Date("2026-01-02T12:00:00Z"),
+      bucket: "day",
+      groupBy: "eventType",
+      top: 10,
+    });
+
+    expect(stats.groupBy).toBe("eventType");
+    expect(stats.buckets).toEqual([
+      {
+        start: new Date("2026-01-01T00:00:00Z"),
+        count: 6,
+        groups: { access_granted: 5, access_denied: 1 },
+      },
+      { start: new Date("2026-01-02T00:00:00Z"), count: 0, groups: {} },
+    ]);
+  });
+
+  test("rejects ranges with too many buckets", async () => {
+    const { service, ranges } = setup();
+
+    await expect(
+      service.getStats({
+        from: new Date("2025-12-01T00:00:00Z"),
+        bucket: "minute",
+        top: 10,
+      })
+    ).rejects.toMatchObject({
+      status: 400,
+      code: "VALIDATION_FAILED",
+      message: expect.stringContaining("spans 45211 minute buckets"),
+      details: [{ location: "query", field: "bucket" }],
+    });
+    expect(ranges).toHaveLength(0);
+  });
+});
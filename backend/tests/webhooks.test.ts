@@ -0,0 +1,297 @@
+import { afterEach, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { createServer } from "http";
+import type { IncomingHttpHeaders, Server } from "http";
+import type { AddressInfo } from "net";
+import type { Webhook, WebhookDelivery } from "@prisma/client";
+import { VirtualClock } from "../src/clock";
+import { WEBHOOKS } from "../src/constants";
+import type {
+  WebhookDeliveryRepository,
+  WebhookRepository,
+} from "../src/repositories";
+import { EventStreamService, WebhookService } from "../src/services";
+import { logger, signWebhookPayload } from "../src/utils";
+import { fake, quietLogs } from "./fixtures";
+
+beforeAll(() => {
+  quietLogs();
+  spyOn(logger, "warn").mockImplementation(() => {});
+});
+
+const SECRET = "elid_whk_test-secret";
+
+let server: Server | undefined;
+
+afterEach(() => {
+  server?.close();
+  server = undefined;
+});
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+// Stub receiver: records each request and answers with `status`, after
+// `hold` settles when one is set
+async function receive() {
+  const receiver = {
+    requests: [] as Received[],
+    status: 204,
+    hold: undefined as Promise<void> | undefined,
+    url: "",
+  };
+  server = createServer(async (req, res) => {
+    let body = "";
+    for await (const chunk of req) body += chunk;
+    receiver.requests.push({ headers: req.headers, body });
+    await receiver.hold;
+    res.writeHead(receiver.status).end();
+  });
+  await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+  receiver.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  return receiver;
+}
+
+function setup(url: string) {
+  const clock = new VirtualClock(new Date("2026-01-01T09:00:00Z"));
+  const webhook: Webhook = {
+    id: "webhook-1",
+    name: "Ops",
+    url,
+    secret: SECRET,
+    events: [],
+    eventTypes: [],
+    enabled: true,
+    createdAt: clock.now(),
+    updatedAt: clock.now(),
+  };
+  const deliveries = new Map<string, WebhookDelivery>();
+  const stream = new EventStreamService();
+
+  const create = (data: {
+    webhookId: string;
+    event: string;
+    payload: unknown;
+    nextAttemptAt: Date | null;
+  }) => {
+    const delivery = {
+      id: `delivery-${deliveries.size + 1}`,
+      status: "pending",
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      createdAt: clock.now(),
+      deliveredAt: null,
+      ...data,
+    } as WebhookDelivery;
+    deliveries.set(delivery.id, delivery);
+    return delivery;
+  };
+
+  const service = new WebhookService(
+    fake<WebhookRepository>({
+      findAll: async () => [webhook],
+      findById: async (id: string) => (id === webhook.id ? webhook : null),
+    }),
+    fake<WebhookDeliveryRepository>({
+      create: async (data: Parameters<typeof create>[0]) => create(data),
+      createMany: async (
+        webhookIds: string[],
+        data: { event: string; payload: unknown; nextAttemptAt: Date }
+      ) => webhookIds.map((webhookId) => create({ ...data, webhookId })).length,
+      findById: async (id: string) => deliveries.get(id) ?? null,
+      findDue: async (now: Date) =>
+        [...deliveries.values()]
+          .filter(
+            (delivery) =>
+              delivery.status === "pending" &&
+              delivery.nextAttemptAt !== null &&
+              delivery.nextAttemptAt <= now
+          )
+          .map((delivery) => ({ ...delivery, webhook })),
+      update: async (id: string, data: Partial<WebhookDelivery>) => {
+        const delivery = { ...deliveries.get(id)!, ...data };
+        deliveries.set(id, delivery);
+        return delivery;
+      },
+      deleteFinishedBefore: async (cutoff: Date) => {
+        let count = 0;
+        for (const delivery of deliveries.values()) {
+          if (delivery.status === "pending" || delivery.createdAt >= cutoff) {
+            continue;
+          }
+          deliveries.delete(delivery.id);
+          count++;
+        }
+        return count;
+      },
+    }),
+    stream,
+    clock
+  );
+
+  return { service, deliveries, stream, clock };
+}
+
+describe("webhook delivery", () => {
+  test("queues stream events and sends them signed", async () => {
+    const receiver = await receive();
+    const { service, deliveries, stream } = setup(receiver.url);
+    await service.start();
+
+    stream.publish("device", { action: "activated", deviceId: "device-1" });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(await service.dispatchDue()).toBe(1);
+    service.stop();
+
+    expect(receiver.requests).toHaveLength(1);
+    const { headers, body } = receiver.requests[0]!;
+    const timestamp = String(Date.parse("2026-01-01T09:00:00Z") / 1000);
+    expect(headers["x-webhook-id"]).toBe("delivery-1");
+    expect(headers["x-webhook-event"]).toBe("device");
+    expect(headers["x-webhook-timestamp"]).toBe(timestamp);
+    expect(headers["x-webhook-signature"]).toBe(
+      `sha256=${signWebhookPayload(SECRET, timestamp, body)}`
+    );
+    expect(JSON.parse(body)).toMatchObject({
+      id: "delivery-1",
+      event: "device",
+      data: { action: "activated", deviceId: "device-1" },
+    });
+
+    expect(deliveries.get("delivery-1")).toMatchObject({
+      status: "delivered",
+      attempts: 1,
+      nextAttemptAt: null,
+      responseStatus: 204,
+    });
+  });
+
+  test("retries with backoff and gives up after the last attempt", async () => {
+    const receiver = await receive();
+    receiver.status = 500;
+    const { service, deliveries, stream, clock } = setup(receiver.url);
+    await service.start();
+    stream.publish("device", { action: "activated" });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    service.stop();
+
+    const delays: number[] = [];
+    for (let attempt = 1; attempt <= WEBHOOKS.MAX_ATTEMPTS; attempt++) {
+      const sentAt = clock.now().getTime();
+      expect(await service.dispatchDue()).toBe(1);
+      expect(receiver.requests).toHaveLength(attempt);
+
+      const delivery = deliveries.get("delivery-1")!;
+      expect(delivery.attempts).toBe(attempt);
+      expect(delivery.error).toBe("HTTP 500");
+      if (!delivery.nextAttemptAt) break;
+
+      // Nothing is sent before the retry is due
+      const delay = delivery.nextAttemptAt.getTime() - sentAt;
+      delays.push(delay);
+      await clock.advance(delay - 1);
+      expect(await service.dispatchDue()).toBe(0);
+      await clock.advance(1);
+    }
+
+    expect(delays).toEqual(
+      [15, 30, 60, 120, 240, 480, 960].map((s) => s * 1000)
+    );
+    expect(deliveries.get("delivery-1")).toMatchObject({
+      status: "dead",
+      attempts: WEBHOOKS.MAX_ATTEMPTS,
+      nextAttemptAt: null,
+      responseStatus: 500,
+    });
+  });
+
+  test("a test delivery in flight isn't picked up by the background loop", async () => {
+    const receiver = await receive();
+    let release = () => {};
+    receiver.hold = new Promise((resolve) => (release = resolve));
+    const { service, deliveries } = setup(receiver.url);
+
+    const sending = service.testWebhook("webhook-1");
+    while (receiver.requests.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+    expect(await service.dispatchDue()).toBe(0);
+    release();
+
+    expect(await sending).toMatchObject({ event: "ping", status: "delivered" });
+    expect(receiver.requests).toHaveLength(1);
+    expect(deliveries.size).toBe(1);
+  });
+
+  test("a redelivery in flight isn't picked up by the background loop", async () => {
+    const receiver = await receive();
+    receiver.status = 500;
+    const { service, deliveries } = setup(receiver.url);
+
+    const failed = await service.testWebhook("webhook-1");
+    deliveries.set(failed.id, {
+      ...failed,
+      status: "dead",
+      attempts: WEBHOOKS.MAX_ATTEMPTS,
+      nextAttemptAt: null,
+    });
+
+    receiver.status = 200;
+    let release = () => {};
+    receiver.hold = new Promise((resolve) => (release = resolve));
+    const sending = service.redeliver(failed.id);
+    while (receiver.requests.length < 2) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+    expect(await service.dispatchDue()).toBe(0);
+    release();
+
+    expect(await sending).toMatchObject({ status: "delivered", attempts: 1 });
+    expect(receiver.requests).toHaveLength(2);
+  });
+
+  test("only dead deliveries can be redelivered", async () => {
+    const receiver = await receive();
+    const { service } = setup(receiver.url);
+    const delivered = await service.testWebhook("webhook-1");
+
+    await expect(service.redeliver(delivered.id)).rejects.toMatchObject({
+      status: 409,
+      code: "WEBHOOK_DELIVERY_NOT_DEAD",
+    });
+    await expect(service.redeliver("missing")).rejects.toMatchObject({
+      status: 404,
+      code: "WEBHOOK_DELIVERY_NOT_FOUND",
+    });
+  });
+
+  test("drops finished deliveries once they are past retention", async () => {
+    const receiver = await receive();
+    const { service, deliveries, stream, clock } = setup(receiver.url);
+    // Only the retention sweep matters here, so keep dispatch rounds rare
+    await service.start(10 * WEBHOOKS.RETENTION);
+
+    const queue = async (status: string) => {
+      stream.publish("device", { action: "activated" });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      const id = `delivery-${deliveries.size}`;
+      deliveries.set(id, { ...deliveries.get(id)!, status });
+    };
+    await queue("delivered");
+    await queue("dead");
+    await queue("pending");
+
+    await clock.advance(WEBHOOKS.RETENTION - WEBHOOKS.PRUNE_INTERVAL);
+    await queue("delivered");
+    expect(deliveries.size).toBe(4);
+
+    // The first sweep more than the retention period after the first three
+    await clock.advance(2 * WEBHOOKS.PRUNE_INTERVAL);
+    service.stop();
+
+    // Still retrying, or not old enough yet
+    expect([...deliveries.keys()]).toEqual(["delivery-3", "delivery-4"]);
+  });
+});
@@ -1,30 +1,120 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import type {
+  DeviceStatus,
+  Principal,
+  TransactionFilters,
+} from "./services/api";
+import { transactionApi } from "./services/api";
+import { AlertsPanel } from "./components/AlertsPanel";
 import { CreateDevice } from "./components/CreateDevice";
+import { DashboardView } from "./components/DashboardView";
+import { DeviceHistory } from "./components/DeviceHistory";
 import { DeviceList } from "./components/DeviceList";
+import { DevicePage } from "./components/DevicePage";
+import { Link } from "./components/Link";
+import { Login } from "./components/Login";
 import { TransactionView } from "./components/TransactionView";
-import { useDevices, useTransactions } from "./hooks/useDevices";
+import {
+  useDeviceHistory,
+  useDevices,
+  useEventStream,
+  useTransactions,
+} from "./hooks/useDevices";
+import { useAlerts } from "./hooks/useAlerts";
+import { hasRole, useAuth } from "./hooks/useAuth";
+import { findRange } from "./hooks/useDashboard";
+import { filtersFromQuery, filtersToQuery, useRoute } from "./hooks/useRoute";
 import "./App.css";
 
 function App() {
+  const { principal, checking, error, login, logout } = useAuth();
+
+  if (checking) {
+    return <div className="app-container" />;
+  }
+
+  if (!principal) {
+    return <Login onLogin={login} error={error} />;
+  }
+
+  return <Dashboard principal={principal} onLogout={logout} />;
+}
+
+interface DashboardProps {
+  principal: Principal;
+  onLogout: () => void;
+}
+
+function Dashboard({ principal, onLogout }: DashboardProps) {
   // All state hooks first
+  const { route, query, setQuery } = useRoute();
   const [activatingId, setActivatingId] = useState<string | undefined>();
   const [deactivatingId, setDeactivatingId] = useState<string | undefined>();
-  const [deletingId, setDeletingId] = useState<string | undefined>();
+  const [transitioningId, setTransitioningId] = useState<string | undefined>();
+  const [archivingId, setArchivingId] = useState<string | undefined>();
+  const [restoringId, setRestoringId] = useState<string | undefined>();
+  const [purgingId, setPurgingId] = useState<string | undefined>();
+  const [showArchived, setShowArchived] = useState(false);
+  const [historyDeviceId, setHistoryDeviceId] = useState<string | undefined>();
   const [createError, setCreateError] = useState<string | null>(null);
 
+  // Filters live in the query string so filtered views can be linked to.
+  // Other pages use the query string for their own state.
+  const transactionFilters = useMemo(
+    () => (route.name === "devices" ? filtersFromQuery(query) : {}),
+    [route.name, query]
+  );
+  const setTransactionFilters = (filters: TransactionFilters) =>
+    setQuery(filtersToQuery(filters, query));
+
   // Custom hooks from our custom hook file
   const {
     devices,
     loading: devicesLoading,
     error: devicesError,
     fetchDevices,
+    applyDeviceEvent,
     createDevice,
+    importDevices,
+    updateDevice,
     activateDevice,
     deactivateDevice,
-    deleteDevice,
-  } = useDevices();
+    transitionDevice,
+    bulkAction,
+    archiveDevice,
+    restoreDevice,
+    purgeDevice,
+  } = useDevices({ includeArchived: showArchived });
 
-  const { transactions, loading: txnsLoading, pagination } = useTransactions();
+  const {
+    alerts,
+    rules: alertRules,
+    loading: alertsLoading,
+    error: alertsError,
+    fetchAlerts,
+    applyAlertEvent,
+    acknowledgeAlert,
+    resolveAlert,
+    createRule: createAlertRule,
+    setRuleEnabled: setAlertRuleEnabled,
+    deleteRule: deleteAlertRule,
+  } = useAlerts();
+
+  // Keep devices and alerts current on every page
+  const { connected: live } = useEventStream(
+    {},
+    {
+      onDeviceEvent: applyDeviceEvent,
+      onAlertEvent: applyAlertEvent,
+      onResync: () => {
+        fetchDevices();
+        fetchAlerts();
+      },
+    }
+  );
+
+  const historyDevice = devices.find((d) => d.id === historyDeviceId);
+  const history = useDeviceHistory(historyDeviceId, historyDevice?.updatedAt);
 
   // All effect hooks
   useEffect(() => {
@@ -32,9 +122,19 @@ function App() {
   }, [fetchDevices]);
 
   useEffect(() => {
-    const interval = setInterval(fetchDevices, 5000);
+    fetchAlerts();
+  }, [fetchAlerts]);
+
+  // Device and alert changes arrive over the event stream; poll only as a
+  // fallback
+  useEffect(() => {
+    if (live) return;
+    const interval = setInterval(() => {
+      fetchDevices();
+      fetchAlerts();
+    }, 5000);
     return () => clearInterval(interval);
-  }, [fetchDevices]);
+  }, [fetchDevices, fetchAlerts, live]);
 
   // All event handlers (not hooks, just regular functions)
   const handleCreateDevice = async (
@@ -68,76 +168,252 @@ function App() {
     }
   };
 
-  const handleDeleteDevice = async (id: string) => {
-    setDeletingId(id);
+  const handleTransitionDevice = async (
+    id: string,
+    status: DeviceStatus,
+    reason?: string
+  ) => {
+    setTransitioningId(id);
+    try {
+      await transitionDevice(id, status, reason);
+    } finally {
+      setTransitioningId(undefined);
+    }
+  };
+
+  const handleArchiveDevice = async (id: string) => {
+    setArchivingId(id);
+    try {
+      await archiveDevice(id);
+    } finally {
+      setArchivingId(undefined);
+    }
+  };
+
+  const handleRestoreDevice = async (id: string) => {
+    setRestoringId(id);
+    try {
+      await restoreDevice(id);
+    } finally {
+      setRestoringId(undefined);
+    }
+  };
+
+  const handlePurgeDevice = async (id: string) => {
+    setPurgingId(id);
     try {
-      await deleteDevice(id);
+      await purgeDevice(id);
     } finally {
-      setDeletingId(undefined);
+      setPurgingId(undefined);
     }
   };
 
   return (
     <div className="app-container">
       <div className="app-header">
+        <div className="app-user">
+          <span>
+            {principal.name}{" "}
+            <span className="role-badge">{principal.role}</span>
+          </span>
+          <button className="btn btn-secondary" onClick={onLogout}>
+            Sign Out
+          </button>
+        </div>
         <h1>🔐 Device Management System</h1>
         <p>
           Manage and monitor security devices with real-time transaction
           tracking
         </p>
+        <nav className="app-nav">
+          <Link to="/" className={route.name === "dashboard" ? "" : "active"}>
+            Devices
+          </Link>
+          <Link
+            to="/dashboard"
+            className={route.name === "dashboard" ? "active" : ""}
+          >
+            Dashboard
+          </Link>
+        </nav>
       </div>
 
-      <div className="app-content">
-        <div className="device-section">
-          <div className="section">
-            <h2 className="section-title">Devices</h2>
+      {route.name === "dashboard" ? (
+        <DashboardView
+          devices={devices}
+          range={findRange(query.get("range"))}
+          onRangeChange={(range) =>
+            setQuery(new URLSearchParams({ range: range.key }))
+          }
+        />
+      ) : route.name === "device" ? (
+        <DevicePage
+          key={route.id}
+          deviceId={route.id}
+          query={query}
+          onQueryChange={setQuery}
+          canOperate={hasRole(principal, "operator")}
+          canAdminister={hasRole(principal, "admin")}
+        />
+      ) : route.name === "not_found" ? (
+        <div className="section app-not-found">
+          <h2 className="section-title">Page not found</h2>
+          <Link to="/">← All devices</Link>
+        </div>
+      ) : (
+        <div className="app-content">
+          <div className="device-section">
+            <div className="section" style={{ marginBottom: "20px" }}>
+              <AlertsPanel
+                alerts={alerts}
+                rules={alertRules}
+                devices={devices}
+                loading={alertsLoading}
+                error={alertsError}
+                canOperate={hasRole(principal, "operator")}
+                onAcknowledge={acknowledgeAlert}
+                onResolve={resolveAlert}
+                onCreateRule={createAlertRule}
+                onToggleRule={setAlertRuleEnabled}
+                onDeleteRule={deleteAlertRule}
+              />
+            </div>
 
-            {createError && <div className="error-banner">{createError}</div>}
+            <div className="section">
+              <h2 className="section-title">
+                Devices
+                <label className="section-toggle">
+                  <input
+                    type="checkbox"
+                    checked={showArchived}
+                    onChange={(e) => setShowArchived(e.target.checked)}
+                  />
+                  Show archived
+                </label>
+              </h2>
 
-            <CreateDevice
-              onCreate={handleCreateDevice}
-              loading={devicesLoading}
-            />
+              {createError && <div className="error-banner">{createError}</div>}
 
-            {devicesError && (
-              <div className="error-banner" style={{ marginTop: "15px" }}>
-                {devicesError}
-              </div>
-            )}
+              {hasRole(principal, "operator") && (
+                <CreateDevice
+                  onCreate={handleCreateDevice}
+                  onImport={importDevices}
+                  loading={devicesLoading}
+                />
+              )}
 
-            <div style={{ marginTop: "20px" }}>
-              <DeviceList
-                devices={devices}
-                loading={devicesLoading}
-                onActivate={handleActivateDevice}
-                onDeactivate={handleDeactivateDevice}
-                onDelete={handleDeleteDevice}
-                activatingId={activatingId}
-                deactivatingId={deactivatingId}
-                deletingId={deletingId}
-              />
+              {devicesError && (
+                <div className="error-banner" style={{ marginTop: "15px" }}>
+                  {devicesError}
+                </div>
+              )}
+
+              {historyDevice && (
+                <div style={{ marginTop: "20px" }}>
+                  <DeviceHistory
+                    deviceName={historyDevice.name}
+                    events={history.events}
+                    loading={history.loading}
+                    error={history.error}
+                    hasMore={history.hasMore}
+                    onLoadMore={history.loadMore}
+                    onClose={() => setHistoryDeviceId(undefined)}
+                  />
+                </div>
+              )}
+
+              <div style={{ marginTop: "20px" }}>
+                <DeviceList
+                  devices={devices}
+                  loading={devicesLoading}
+                  onActivate={handleActivateDevice}
+                  onDeactivate={handleDeactivateDevice}
+                  onTransition={handleTransitionDevice}
+                  onArchive={handleArchiveDevice}
+                  onRestore={handleRestoreDevice}
+                  onPurge={handlePurgeDevice}
+                  onUpdate={updateDevice}
+                  onBulkAction={bulkAction}
+                  activatingId={activatingId}
+                  deactivatingId={deactivatingId}
+                  transitioningId={transitioningId}
+                  archivingId={archivingId}
+                  restoringId={restoringId}
+                  purgingId={purgingId}
+                  canOperate={hasRole(principal, "operator")}
+                  canAdminister={hasRole(principal, "admin")}
+                  onShowHistory={
+                    hasRole(principal, "operator")
+                      ? setHistoryDeviceId
+                      : undefined
+                  }
+                />
+              </div>
             </div>
           </div>
-        </div>
 
-        <div className="transaction-section">
-          <div className="section">
-            <TransactionView
-              transactions={transactions}
-              loading={txnsLoading}
+          <div className="transaction-section">
+            <TransactionSection
+              filters={transactionFilters}
+              onFiltersChange={setTransactionFilters}
             />
-            <div
-              style={{
-                marginTop: "10px",
-                textAlign: "center",
-                fontSize: "12px",
-                color: "#999",
-              }}
-            >
-              Total transactions: {pagination.total}
-            </div>
           </div>
         </div>
+      )}
+    </div>
+  );
+}
+
+interface TransactionSectionProps {
+  filters: TransactionFilters;
+  onFiltersChange: (filters: TransactionFilters) => void;
+}
+
+// Transactions across all devices. Only mounted on the devices page, so
+// other pages don't fetch or poll for them.
+function TransactionSection({
+  filters,
+  onFiltersChange,
+}: TransactionSectionProps) {
+  const {
+    transactions,
+    loading,
+    loadingOlder,
+    error,
+    pagination,
+    hasMore,
+    live,
+    loadOlder,
+  } = useTransactions(undefined, 3000, { filters });
+
+  // The export streams as a file download, so let the browser fetch it
+  const handleExport = async (format: "csv" | "ndjson") => {
+    window.location.assign(await transactionApi.getExportUrl(format, filters));
+  };
+
+  return (
+    <div className="section">
+      <TransactionView
+        transactions={transactions}
+        loading={loading}
+        live={live}
+        error={error}
+        filters={filters}
+        onFiltersChange={onFiltersChange}
+        hasMore={hasMore}
+        loadingOlder={loadingOlder}
+        onLoadOlder={loadOlder}
+        onExport={handleExport}
+      />
+      <div
+        style={{
+          marginTop: "10px",
+          textAlign: "center",
+          fontSize: "12px",
+          color: "#999",
+        }}
+      >
+        Total transactions: {pagination.total}
       </div>
     </div>
   );
@@ -0,0 +1,349 @@
+import { useState } from "react";
+import type {
+  Alert,
+  AlertRule,
+  AlertSeverity,
+  CreateAlertRuleBody,
+  Device,
+} from "../services/api";
+import { ALERT_SEVERITIES, EVENT_TYPES } from "../constants";
+import "../styles/AlertsPanel.css";
+
+interface AlertsPanelProps {
+  alerts: Alert[];
+  rules: AlertRule[];
+  devices: Device[];
+  loading: boolean;
+  error: string | null;
+  // Operators can work alerts and manage rules
+  canOperate: boolean;
+  onAcknowledge: (id: string) => void;
+  onResolve: (id: string) => void;
+  onCreateRule: (data: CreateAlertRuleBody) => Promise<{ error?: string }>;
+  onToggleRule: (id: string, enabled: boolean) => void;
+  onDeleteRule: (id: string) => void;
+}
+
+const emptyRule = {
+  name: "",
+  type: "threshold" as CreateAlertRuleBody["type"],
+  eventType: "access_denied",
+  deviceId: "",
+  threshold: "5",
+  windowMinutes: "2",
+  groupBy: "username" as "username" | "device",
+  severity: "warning" as AlertSeverity,
+};
+
+// Summarise what a rule watches for, e.g. "≥ 5 access_denied per username
+// within 2 min"
+const describeRule = (rule: AlertRule, devices: Device[]) => {
+  const device = rule.deviceId
+    ? devices.find((d) => d.id === rule.deviceId)?.name ?? "unknown device"
+    : "any device";
+  const window = `${Math.round((rule.windowSeconds ?? 0) / 60)} min`;
+
+  if (rule.type === "event") return `any ${rule.eventType} on ${device}`;
+  if (rule.type === "silence") return `${device} silent for ${window}`;
+  const count = `≥ ${rule.threshold} ${rule.eventType} per ${rule.groupBy}`;
+  return `${count} within ${window} on ${device}`;
+};
+
+export const AlertsPanel = ({
+  alerts,
+  rules,
+  devices,
+  loading,
+  error,
+  canOperate,
+  onAcknowledge,
+  onResolve,
+  onCreateRule,
+  onToggleRule,
+  onDeleteRule,
+}: AlertsPanelProps) => {
+  const [showRules, setShowRules] = useState(false);
+  const [form, setForm] = useState(emptyRule);
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const ruleNames = new Map(rules.map((rule) => [rule.id, rule.name]));
+  const deviceNames = new Map(devices.map((d) => [d.id, d.name]));
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+    setFormError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      setFormError("Rule name is required");
+      return;
+    }
+
+    const common = {
+      name: form.name,
+      severity: form.severity,
+      deviceId: form.deviceId || undefined,
+    };
+    const windowSeconds = Math.round(Number(form.windowMinutes) * 60);
+    const data: CreateAlertRuleBody =
+      form.type === "event"
+        ? { ...common, type: "event", eventType: form.eventType }
+        : form.type === "silence"
+        ? { ...common, type: "silence", windowSeconds }
+        : {
+            ...common,
+            type: "threshold",
+            eventType: form.eventType,
+            threshold: Number(form.threshold),
+            windowSeconds,
+            groupBy: form.groupBy,
+          };
+
+    setSubmitting(true);
+    const result = await onCreateRule(data);
+    setSubmitting(false);
+    if (result.error) {
+      setFormError(result.error);
+    } else {
+      setForm(emptyRule);
+    }
+  };
+
+  return (
+    <div className="alerts-panel">
+      <div className="alerts-panel-header">
+        <h2 className="section-title">
+          Alerts
+          {alerts.length > 0 && (
+            <span className="alerts-count">{alerts.length}</span>
+          )}
+        </h2>
+        <button
+          className="btn btn-secondary"
+          onClick={() => setShowRules((show) => !show)}
+        >
+          {showRules ? "Hide rules" : `Rules (${rules.length})`}
+        </button>
+      </div>
+
+      {error && <div className="error-banner">{error}</div>}
+
+      {!loading && alerts.length === 0 && !error && (
+        <div className="empty-state">
+          <p>No open alerts</p>
+        </div>
+      )}
+
+      <ul className="alerts-list">
+        {alerts.map((alert) => (
+          <li
+            key={alert.id}
+            className={`alert-item severity-${alert.severity} ${
+              alert.status === "acknowledged" ? "alert-acknowledged" : ""
+            }`}
+          >
+            <div className="alert-summary">
+              <span className={`severity-badge severity-${alert.severity}`}>
+                {alert.severity}
+              </span>
+              <strong>{ruleNames.get(alert.ruleId) ?? "Alert"}</strong>
+              {alert.occurrences > 1 && (
+                <span className="alert-occurrences">×{alert.occurrences}</span>
+              )}
+              <time>{new Date(alert.lastTriggeredAt).toLocaleString()}</time>
+            </div>
+            <div className="alert-message">{alert.message}</div>
+            <div className="alert-meta">
+              {alert.deviceId && (
+                <span>
+                  {deviceNames.get(alert.deviceId) ?? "Unknown device"}
+                </span>
+              )}
+              {alert.acknowledgedBy && (
+                <span>Acknowledged by {alert.acknowledgedBy}</span>
+              )}
+              {canOperate && (
+                <span className="alert-actions">
+                  {alert.status === "open" && (
+                    <button
+                      className="btn btn-secondary"
+                      onClick={() => onAcknowledge(alert.id)}
+                    >
+                      Acknowledge
+                    </button>
+                  )}
+                  <button
+                    className="btn btn-primary"
+                    onClick={() => onResolve(alert.id)}
+                  >
+                    Resolve
+                  </button>
+                </span>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {showRules && (
+        <div className="alert-rules">
+          <ul className="alert-rules-list">
+            {rules.map((rule) => (
+              <li key={rule.id} className="alert-rule">
+                <span className={`severity-badge severity-${rule.severity}`}>
+                  {rule.severity}
+                </span>
+                <div className="alert-rule-text">
+                  <strong>{rule.name}</strong>
+                  <small>{describeRule(rule, devices)}</small>
+                </div>
+                {canOperate ? (
+                  <>
+                    <label className="alert-rule-toggle">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(e) =>
+                          onToggleRule(rule.id, e.target.checked)
+                        }
+                      />
+                      Enabled
+                    </label>
+                    <button
+                      className="btn btn-danger"
+                      onClick={() => {
+                        if (
+                          window.confirm(
+                            `Delete rule "${rule.name}" and its alerts?`
+                          )
+                        ) {
+                          onDeleteRule(rule.id);
+                        }
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </>
+                ) : (
+                  !rule.enabled && <small>Disabled</small>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {canOperate && (
+            <form className="alert-rule-form" onSubmit={handleSubmit}>
+              <input
+                type="text"
+                name="name"
+                value={form.name}
+                onChange={handleChange}
+                placeholder="Rule name"
+                disabled={submitting}
+              />
+              <select
+                name="type"
+                value={form.type}
+                onChange={handleChange}
+                disabled={submitting}
+              >
+                <option value="threshold">Repeated events</option>
+                <option value="event">Any event</option>
+                <option value="silence">Device silent</option>
+              </select>
+              {form.type !== "silence" && (
+                <select
+                  name="eventType"
+                  value={form.eventType}
+                  onChange={handleChange}
+                  disabled={submitting}
+                >
+                  {EVENT_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {type}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {form.type === "threshold" && (
+                <>
+                  <input
+                    type="number"
+                    name="threshold"
+                    min={1}
+                    value={form.threshold}
+                    onChange={handleChange}
+                    title="Events"
+                    disabled={submitting}
+                  />
+                  <select
+                    name="groupBy"
+                    value={form.groupBy}
+                    onChange={handleChange}
+                    disabled={submitting}
+                  >
+                    <option value="username">per username</option>
+                    <option value="device">per device</option>
+                  </select>
+                </>
+              )}
+              {form.type !== "event" && (
+                <label>
+                  within
+                  <input
+                    type="number"
+                    name="windowMinutes"
+                    min={1}
+                    value={form.windowMinutes}
+                    onChange={handleChange}
+                    disabled={submitting}
+                  />
+                  min
+                </label>
+              )}
+              <select
+                name="deviceId"
+                value={form.deviceId}
+                onChange={handleChange}
+                disabled={submitting}
+              >
+                <option value="">Any device</option>
+                {devices.map((device) => (
+                  <option key={device.id} value={device.id}>
+                    {device.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                name="severity"
+                value={form.severity}
+                onChange={handleChange}
+                disabled={submitting}
+              >
+                {ALERT_SEVERITIES.map((severity) => (
+                  <option key={severity} value={severity}>
+                    {severity}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                className="btn btn-primary"
+                disabled={submitting}
+              >
+                {submitting ? "Adding..." : "Add rule"}
+              </button>
+              {formError && <div className="error-message">{formError}</div>}
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,24 @@
 import { useState } from "react";
+import type { DeviceImport } from "../services/api";
+import { DEVICE_TYPES } from "../constants";
 import "../styles/CreateDevice.css";
 
-const DEVICE_TYPES = ["access_controller", "face_reader", "anpr"];
-
 interface CreateDeviceProps {
   onCreate: (
     name: string,
     deviceType: string,
     ipAddress: string
   ) => Promise<void>;
+  // Bulk creation from a CSV or JSON file; hidden when not given
+  onImport?: (
+    data: DeviceImport
+  ) => Promise<{ error?: string; data?: { created: number } }>;
   loading?: boolean;
 }
 
 export const CreateDevice = ({
   onCreate,
+  onImport,
   loading = false,
 }: CreateDeviceProps) => {
   const [showForm, setShowForm] = useState(false);
@@ -24,6 +29,11 @@ export const CreateDevice = ({
   });
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState<{
+    error?: string;
+    message?: string;
+  } | null>(null);
 
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
@@ -66,12 +76,58 @@ export const CreateDevice = ({
     }
   };
 
+  // Send .json files as rows and anything else as CSV text
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !onImport) return;
+
+    setImporting(true);
+    setImportResult(null);
+    try {
+      const text = await file.text();
+      const result = await onImport(
+        file.name.toLowerCase().endsWith(".json") ? JSON.parse(text) : text
+      );
+      setImportResult(
+        result.error
+          ? { error: result.error }
+          : { message: `Imported ${result.data?.created ?? 0} device(s)` }
+      );
+    } catch {
+      setImportResult({ error: "The file isn't valid JSON" });
+    } finally {
+      setImporting(false);
+    }
+  };
+
   return (
     <div className="create-device-container">
       {!showForm ? (
-        <button className="btn btn-success" onClick={() => setShowForm(true)}>
-          + Add New Device
-        </button>
+        <>
+          <button className="btn btn-success" onClick={() => setShowForm(true)}>
+            + Add New Device
+          </button>
+          {onImport && (
+            <label className="import-devices">
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={handleImport}
+                disabled={importing}
+              />
+              {importing
+                ? "Importing..."
+                : "or import devices from a CSV or JSON file"}
+            </label>
+          )}
+          {importResult?.error && (
+            <div className="error-message">{importResult.error}</div>
+          )}
+          {importResult?.message && (
+            <div className="import-message">{importResult.message}</div>
+          )}
+        </>
       ) : (
         <div className="create-device-form">
           <h3>Create New Device</h3>
@@ -0,0 +1,327 @@
+import type { Device, TransactionStats } from "../services/api";
+import type { DashboardRange } from "../hooks/useDashboard";
+import {
+  DASHBOARD_RANGES,
+  sumGroups,
+  useDashboard,
+} from "../hooks/useDashboard";
+import { EVENT_TYPES } from "../constants";
+import { Link } from "./Link";
+import "../styles/DashboardView.css";
+
+interface DashboardViewProps {
+  // Used to name devices in the heatmap
+  devices: Device[];
+  range: DashboardRange;
+  onRangeChange: (range: DashboardRange) => void;
+}
+
+const EVENT_COLORS: Record<string, string> = {
+  access_granted: "#4caf50",
+  access_denied: "#f44336",
+  face_match: "#667eea",
+  plate_read: "#ff9800",
+  unauthorized_access: "#9c27b0",
+};
+
+// Devices shown in the heatmap, busiest first
+const HEATMAP_DEVICES = 10;
+// Adjacent buckets are merged so the heatmap stays readable
+const HEATMAP_COLUMNS = 48;
+
+const formatEventType = (type: string) => type.replace(/_/g, " ");
+
+const formatBucket = (start: string, bucket: TransactionStats["bucket"]) => {
+  const date = new Date(start);
+  if (bucket === "day") return date.toLocaleDateString();
+  if (bucket === "minute") {
+    return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  }
+  return date.toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+  });
+};
+
+export const VolumeChart = ({ stats }: { stats: TransactionStats }) => {
+  const max = Math.max(1, ...stats.buckets.map((bucket) => bucket.count));
+  const width = 10;
+  const labels = [0, Math.floor(stats.buckets.length / 2)]
+    .concat(stats.buckets.length - 1)
+    .map((index) => stats.buckets[index]);
+
+  return (
+    <div className="volume-chart">
+      <svg
+        viewBox={`0 0 ${stats.buckets.length * width} 100`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Events over time"
+      >
+        {stats.buckets.map((bucket, index) => {
+          let y = 100;
+          return (
+            <g key={bucket.start}>
+              <title>
+                {`${formatBucket(bucket.start, stats.bucket)}: ${bucket.count}`}
+              </title>
+              {EVENT_TYPES.map((type) => {
+                const count = bucket.groups?.[type] ?? 0;
+                if (count === 0) return null;
+                const height = (count / max) * 100;
+                y -= height;
+                return (
+                  <rect
+                    key={type}
+                    x={index * width + 1}
+                    y={y}
+                    width={width - 2}
+                    height={height}
+                    fill={EVENT_COLORS[type]}
+                  />
+                );
+              })}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="volume-chart-axis">
+        {labels.map((bucket, index) =>
+          bucket ? (
+            <span key={index}>{formatBucket(bucket.start, stats.bucket)}</span>
+          ) : null
+        )}
+      </div>
+      <div className="chart-legend">
+        {EVENT_TYPES.map((type) => (
+          <span key={type}>
+            <i style={{ background: EVENT_COLORS[type] }} />
+            {formatEventType(type)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const Distribution = ({ stats }: { stats: TransactionStats }) => {
+  const totals = sumGroups(stats);
+  if (totals.length === 0) {
+    return <p className="chart-empty">No events in this range</p>;
+  }
+
+  return (
+    <ul className="distribution">
+      {totals.map(([type, count]) => (
+        <li key={type}>
+          <span className="distribution-label">{formatEventType(type)}</span>
+          <span className="distribution-bar">
+            <span
+              style={{
+                width: `${(count / stats.total) * 100}%`,
+                background: EVENT_COLORS[type] ?? "#999",
+              }}
+            />
+          </span>
+          <span className="distribution-value">
+            {count} ({Math.round((count / stats.total) * 100)}%)
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const Heatmap = ({
+  stats,
+  devices,
+}: {
+  stats: TransactionStats;
+  devices: Device[];
+}) => {
+  const rows = sumGroups(stats).slice(0, HEATMAP_DEVICES);
+  if (rows.length === 0) {
+    return <p className="chart-empty">No device activity in this range</p>;
+  }
+
+  const names = new Map(devices.map((device) => [device.id, device.name]));
+  const span = Math.ceil(stats.buckets.length / HEATMAP_COLUMNS);
+  const columns = Array.from(
+    { length: Math.ceil(stats.buckets.length / span) },
+    (_, index) => stats.buckets.slice(index * span, (index + 1) * span)
+  );
+  const cells = rows.map(([deviceId]) =>
+    columns.map((buckets) =>
+      buckets.reduce((sum, bucket) => sum + (bucket.groups?.[deviceId] ?? 0), 0)
+    )
+  );
+  const max = Math.max(1, ...cells.flat());
+
+  return (
+    <div className="heatmap">
+      {rows.map(([deviceId, total], row) => (
+        <div key={deviceId} className="heatmap-row">
+          <Link
+            to={`/devices/${deviceId}`}
+            className="heatmap-label"
+            title={deviceId}
+          >
+            {names.get(deviceId) ?? deviceId.slice(0, 8)}
+          </Link>
+          <span className="heatmap-cells">
+            {cells[row].map((count, column) => (
+              <span
+                key={column}
+                className="heatmap-cell"
+                style={{
+                  opacity: count === 0 ? 0.06 : 0.2 + (count / max) * 0.8,
+                }}
+                title={`${formatBucket(
+                  columns[column][0].start,
+                  stats.bucket
+                )}: ${count}`}
+              />
+            ))}
+          </span>
+          <span className="heatmap-total">{total}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const DashboardView = ({
+  devices,
+  range,
+  onRangeChange,
+}: DashboardViewProps) => {
+  const {
+    volume,
+    activity,
+    devices: deviceStats,
+    loading,
+    error,
+    live,
+    updatedAt,
+  } = useDashboard(range);
+
+  const totals = new Map(volume ? sumGroups(volume) : []);
+  const granted = totals.get("access_granted") ?? 0;
+  const denied = totals.get("access_denied") ?? 0;
+  const decided = granted + denied;
+
+  return (
+    <div className="dashboard">
+      <div className="dashboard-toolbar">
+        <div className="dashboard-ranges">
+          {DASHBOARD_RANGES.map((option) => (
+            <button
+              key={option.key}
+              className={`btn ${option === range ? "btn-primary" : ""}`}
+              onClick={() => onRangeChange(option)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <span className="dashboard-status">
+          <span className={`live-indicator ${live ? "live" : ""}`} />
+          {live ? "Live" : "Polling"}
+          {updatedAt && ` · updated ${updatedAt.toLocaleTimeString()}`}
+          {loading && " · refreshing..."}
+        </span>
+      </div>
+
+      {error && <div className="error-banner">{error}</div>}
+
+      <div className="dashboard-cards">
+        <div className="stat-card">
+          <span className="stat-value">{volume?.total ?? "–"}</span>
+          <span className="stat-label">Events</span>
+        </div>
+        <div className="stat-card">
+          <span className="stat-value">
+            {decided > 0 ? `${Math.round((denied / decided) * 100)}%` : "–"}
+          </span>
+          <span className="stat-label">
+            Denied ({denied} denied / {granted} granted)
+          </span>
+          <span className="ratio-bar">
+            <span
+              style={{
+                width: decided > 0 ? `${(granted / decided) * 100}%` : "0",
+              }}
+            />
+          </span>
+        </div>
+        <div className="stat-card">
+          <span className="stat-value">
+            {deviceStats?.byStatus.active ?? "–"}
+          </span>
+          <span className="stat-label">Active devices</span>
+        </div>
+        <div className="stat-card">
+          <span className="stat-value">
+            {deviceStats
+              ? deviceStats.total - deviceStats.byStatus.active
+              : "–"}
+          </span>
+          <span className="stat-label">Inactive devices</span>
+        </div>
+        <div className="stat-card">
+          <span className="stat-value">
+            {deviceStats ? `${deviceStats.online} / ${deviceStats.total}` : "–"}
+          </span>
+          <span className="stat-label">Online</span>
+        </div>
+      </div>
+
+      <div className="dashboard-grid">
+        <div className="section dashboard-wide">
+          <h2 className="section-title">Event volume</h2>
+          {volume && <VolumeChart stats={volume} />}
+        </div>
+
+        <div className="section">
+          <h2 className="section-title">Event types</h2>
+          {volume && <Distribution stats={volume} />}
+        </div>
+
+        <div className="section">
+          <h2 className="section-title">Top users</h2>
+          {volume && volume.topUsernames.length > 0 ? (
+            <ol className="top-list">
+              {volume.topUsernames.map((entry) => (
+                <li key={entry.username}>
+                  <span>{entry.username}</span>
+                  <span>{entry.count}</span>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="chart-empty">No events in this range</p>
+          )}
+          <h3 className="top-list-title">Most denials</h3>
+          {volume && volume.topDeniedDevices.length > 0 ? (
+            <ol className="top-list">
+              {volume.topDeniedDevices.map((entry) => (
+                <li key={entry.deviceId}>
+                  <Link to={`/devices/${entry.deviceId}`}>{entry.name}</Link>
+                  <span>{entry.count}</span>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="chart-empty">No denials in this range</p>
+          )}
+        </div>
+
+        <div className="section dashboard-wide">
+          <h2 className="section-title">Device activity</h2>
+          {activity && <Heatmap stats={activity} devices={devices} />}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import type { AuditEvent, Device } from "../services/api";
+import "../styles/DeviceHistory.css";
+
+interface DeviceHistoryProps {
+  deviceName: string;
+  events: AuditEvent[];
+  loading: boolean;
+  error: string | null;
+  hasMore: boolean;
+  onLoadMore: () => void;
+  onClose?: () => void;
+}
+
+const TRACKED_FIELDS: (keyof Device)[] = [
+  "name",
+  "deviceType",
+  "ipAddress",
+  "port",
+  "status",
+  "minInterval",
+  "maxInterval",
+  "burstMode",
+  "schedule",
+];
+
+// Fields whose value differs between the before and after snapshots
+const getChanges = (event: AuditEvent) => {
+  if (!event.before || !event.after) return [];
+  return TRACKED_FIELDS.filter(
+    (field) => event.before?.[field] !== event.after?.[field]
+  ).map((field) => ({
+    field,
+    from: String(event.before?.[field]),
+    to: String(event.after?.[field]),
+  }));
+};
+
+export const DeviceHistory = ({
+  deviceName,
+  events,
+  loading,
+  error,
+  hasMore,
+  onLoadMore,
+  onClose,
+}: DeviceHistoryProps) => {
+  return (
+    <div className="device-history">
+      <div className="device-history-header">
+        <h3>History: {deviceName}</h3>
+        {onClose && (
+          <button className="btn btn-secondary" onClick={onClose}>
+            Close
+          </button>
+        )}
+      </div>
+
+      {error && <div className="error-banner">{error}</div>}
+
+      {!loading && events.length === 0 && !error && (
+        <div className="empty-state">
+          <p>No recorded changes</p>
+        </div>
+      )}
+
+      <ul className="device-history-list">
+        {events.map((event) => (
+          <li key={event.id} className="device-history-item">
+            <div className="device-history-summary">
+              <span className={`history-action action-${event.action}`}>
+                {event.action}
+              </span>
+              <span>
+                by <strong>{event.actorName}</strong>
+                {event.actorType === "apiKey" && " (API key)"}
+              </span>
+              <time>{new Date(event.createdAt).toLocaleString()}</time>
+            </div>
+            {event.reason && (
+              <div className="device-history-reason">{event.reason}</div>
+            )}
+            {getChanges(event).map((change) => (
+              <div key={change.field} className="device-history-change">
+                {change.field}: <del>{change.from}</del> → {change.to}
+              </div>
+            ))}
+            {event.ipAddress && (
+              <small className="device-history-ip">
+                from {event.ipAddress}
+              </small>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {(loading || hasMore) && (
+        <button
+          className="btn btn-secondary device-history-more"
+          onClick={onLoadMore}
+          disabled={loading}
+        >
+          {loading ? "Loading..." : "Load more"}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,15 +1,51 @@
-import type { Device } from "../services/api";
+import { useState } from "react";
+import type {
+  BulkAction,
+  BulkResult,
+  Device,
+  DeviceStatus,
+} from "../services/api";
+import { DEVICE_TRANSITIONS, DEVICE_TYPES } from "../constants";
+import { Link } from "./Link";
 import "../styles/DeviceList.css";
 
+type DeviceFields = Pick<Device, "name" | "deviceType" | "ipAddress">;
+
+const formatStatus = (status: string) =>
+  status.charAt(0).toUpperCase() + status.slice(1);
+
 interface DeviceListProps {
   devices: Device[];
   loading: boolean;
   onActivate: (id: string) => Promise<void>;
   onDeactivate: (id: string) => Promise<void>;
-  onDelete: (id: string) => Promise<void>;
+  onTransition: (
+    id: string,
+    status: DeviceStatus,
+    reason?: string
+  ) => Promise<void>;
+  onArchive: (id: string) => Promise<void>;
+  onRestore: (id: string) => Promise<void>;
+  onPurge: (id: string) => Promise<void>;
+  onUpdate: (
+    id: string,
+    data: Partial<DeviceFields>
+  ) => Promise<{ error?: string }>;
+  onBulkAction: (
+    action: BulkAction,
+    ids: string[]
+  ) => Promise<{ error?: string; data?: BulkResult }>;
   activatingId?: string;
   deactivatingId?: string;
-  deletingId?: string;
+  transitioningId?: string;
+  archivingId?: string;
+  restoringId?: string;
+  purgingId?: string;
+  // Operators may edit, activate and deactivate; admins may also archive,
+  // restore and purge
+  canOperate: boolean;
+  canAdminister: boolean;
+  onShowHistory?: (id: string) => void;
 }
 
 export const DeviceList = ({
@@ -17,11 +53,153 @@ export const DeviceList = ({
   loading,
   onActivate,
   onDeactivate,
-  onDelete,
+  onTransition,
+  onArchive,
+  onRestore,
+  onPurge,
+  onUpdate,
+  onBulkAction,
   activatingId,
   deactivatingId,
-  deletingId,
+  transitioningId,
+  archivingId,
+  restoringId,
+  purgingId,
+  canOperate,
+  canAdminister,
+  onShowHistory,
 }: DeviceListProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<DeviceFields>({
+    name: "",
+    deviceType: "",
+    ipAddress: "",
+  });
+  const [saving, setSaving] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkPending, setBulkPending] = useState<BulkAction | null>(null);
+  const [bulkOutcome, setBulkOutcome] = useState<{
+    message?: string;
+    error?: string;
+  } | null>(null);
+
+  // Devices that left the list since being selected are ignored
+  const selectedIds = devices
+    .filter((device) => selected.has(device.id))
+    .map((device) => device.id);
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(
+      selectedIds.length === devices.length
+        ? new Set()
+        : new Set(devices.map((device) => device.id))
+    );
+  };
+
+  const handleBulkAction = async (action: BulkAction) => {
+    if (
+      action === "delete" &&
+      !confirm(
+        `Archive ${selectedIds.length} device(s)? Their transactions will be kept.`
+      )
+    ) {
+      return;
+    }
+
+    setBulkPending(action);
+    setBulkOutcome(null);
+    const result = await onBulkAction(action, selectedIds);
+    setBulkPending(null);
+    if (result.error) {
+      setBulkOutcome({ error: result.error });
+      return;
+    }
+
+    // Name the devices that were skipped and why
+    const failed = result.data?.failed ?? [];
+    const names = new Map(devices.map((device) => [device.id, device.name]));
+    setBulkOutcome({
+      message: result.data?.message,
+      error:
+        failed.length > 0
+          ? `Skipped ${failed
+              .map((f) => `${names.get(f.id) ?? f.id}: ${f.error}`)
+              .join("; ")}`
+          : undefined,
+    });
+    setSelected(new Set());
+  };
+
+  const startEditing = (device: Device) => {
+    setEditingId(device.id);
+    setDraft({
+      name: device.name,
+      deviceType: device.deviceType,
+      ipAddress: device.ipAddress,
+    });
+    setEditError(null);
+  };
+
+  const handleDraftChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setDraft((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+    setEditError(null);
+  };
+
+  // Ask for an optional reason; cancelling the prompt cancels the change
+  const handleTransition = (device: Device, status: DeviceStatus) => {
+    const reason = prompt(
+      `Move "${device.name}" to ${status}. Reason (optional):`
+    );
+    if (reason === null) return;
+    onTransition(device.id, status, reason.trim() || undefined);
+  };
+
+  const handleSave = async (device: Device) => {
+    if (!draft.name.trim() || !draft.ipAddress.trim()) {
+      setEditError("Device name and IP address are required");
+      return;
+    }
+
+    // Only send the fields that actually changed
+    const changes: Partial<DeviceFields> = {};
+    (Object.keys(draft) as (keyof DeviceFields)[]).forEach((field) => {
+      const value = draft[field].trim();
+      if (value !== device[field]) changes[field] = value;
+    });
+    if (Object.keys(changes).length === 0) {
+      setEditingId(null);
+      return;
+    }
+
+    setSaving(true);
+    const result = await onUpdate(device.id, changes);
+    setSaving(false);
+    if (result.error) {
+      setEditError(result.error);
+    } else {
+      setEditingId(null);
+    }
+  };
+
   if (loading && devices.length === 0) {
     return (
       <div className="device-list-container">
@@ -42,66 +220,298 @@ export const DeviceList = ({
 
   return (
     <div className="device-list-container">
+      {canOperate && (
+        <div className="bulk-toolbar">
+          <label className="bulk-select-all">
+            <input
+              type="checkbox"
+              checked={selectedIds.length === devices.length}
+              onChange={toggleAll}
+            />
+            {selectedIds.length > 0
+              ? `${selectedIds.length} selected`
+              : "Select all"}
+          </label>
+          {selectedIds.length > 0 && (
+            <div className="bulk-actions">
+              <button
+                className="btn btn-primary"
+                onClick={() => handleBulkAction("activate")}
+                disabled={bulkPending !== null}
+              >
+                {bulkPending === "activate" ? "Activating..." : "Activate"}
+              </button>
+              <button
+                className="btn btn-danger"
+                onClick={() => handleBulkAction("deactivate")}
+                disabled={bulkPending !== null}
+              >
+                {bulkPending === "deactivate"
+                  ? "Deactivating..."
+                  : "Deactivate"}
+              </button>
+              {canAdminister && (
+                <button
+                  className="btn btn-delete"
+                  onClick={() => handleBulkAction("delete")}
+                  disabled={bulkPending !== null}
+                >
+                  {bulkPending === "delete" ? "Archiving..." : "Archive"}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+      {bulkOutcome?.message && (
+        <div className="bulk-message">{bulkOutcome.message}</div>
+      )}
+      {bulkOutcome?.error && (
+        <div className="bulk-error">{bulkOutcome.error}</div>
+      )}
       <div className="device-list">
         {devices.map((device) => (
           <div
             key={device.id}
-            className={`device-card status-${device.status}`}
+            className={`device-card status-${
+              device.deletedAt ? "archived" : device.status
+            }`}
           >
             <div className="device-header">
-              <div className="device-info">
-                <h3>{device.name}</h3>
-                <p className="device-type">{device.deviceType}</p>
-                <p className="device-ip">{device.ipAddress}</p>
-              </div>
+              {canOperate && (
+                <input
+                  type="checkbox"
+                  className="device-select"
+                  checked={selected.has(device.id)}
+                  onChange={() => toggleSelected(device.id)}
+                  aria-label={`Select ${device.name}`}
+                />
+              )}
+              {editingId === device.id ? (
+                <div className="device-edit-form">
+                  <input
+                    type="text"
+                    name="name"
+                    value={draft.name}
+                    onChange={handleDraftChange}
+                    disabled={saving}
+                    aria-label="Device name"
+                  />
+                  <select
+                    name="deviceType"
+                    value={draft.deviceType}
+                    onChange={handleDraftChange}
+                    disabled={saving || device.status === "active"}
+                    title={
+                      device.status === "active"
+                        ? "Deactivate the device to change its type"
+                        : undefined
+                    }
+                    aria-label="Device type"
+                  >
+                    {DEVICE_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {type.replace(/_/g, " ").toUpperCase()}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    name="ipAddress"
+                    value={draft.ipAddress}
+                    onChange={handleDraftChange}
+                    disabled={saving}
+                    aria-label="IP address"
+                  />
+                  {editError && <div className="edit-error">{editError}</div>}
+                </div>
+              ) : (
+                <div className="device-info">
+                  <h3>
+                    <Link to={`/devices/${device.id}`}>{device.name}</Link>
+                  </h3>
+                  <p className="device-type">{device.deviceType}</p>
+                  <p className="device-ip">{device.ipAddress}</p>
+                </div>
+              )}
               <div className="device-status">
-                <span className={`status-badge status-${device.status}`}>
-                  {device.status.charAt(0).toUpperCase() +
-                    device.status.slice(1)}
-                </span>
+                {device.deletedAt ? (
+                  <span className="status-badge status-archived">Archived</span>
+                ) : (
+                  <span className={`status-badge status-${device.status}`}>
+                    {formatStatus(device.status)}
+                  </span>
+                )}
+                {device.lastSeenAt ? (
+                  <span
+                    className={`connectivity ${
+                      device.online
+                        ? "connectivity-online"
+                        : "connectivity-offline"
+                    }`}
+                    title={`Last seen ${new Date(
+                      device.lastSeenAt
+                    ).toLocaleString()}`}
+                  >
+                    {device.online ? "Online" : "Offline"}
+                  </span>
+                ) : (
+                  <span
+                    className="connectivity connectivity-unknown"
+                    title="No heartbeat received yet"
+                  >
+                    Never seen
+                  </span>
+                )}
+                {device.reachable !== null && device.probedAt && (
+                  <span
+                    className={`reachability reachability-${
+                      device.reachable ? "up" : "down"
+                    }`}
+                    title={`Probed ${
+                      device.port ? `port ${device.port}` : "the default port"
+                    } at ${new Date(device.probedAt).toLocaleString()}`}
+                  >
+                    {device.reachable
+                      ? `Reachable · ${device.latencyMs} ms`
+                      : "Unreachable"}
+                  </span>
+                )}
               </div>
             </div>
 
-            <div className="device-actions">
-              {device.status === "inactive" ? (
+            {device.deletedAt ? (
+              canAdminister && (
+                <div className="device-actions">
+                  <button
+                    className="btn btn-primary"
+                    onClick={() => onRestore(device.id)}
+                    disabled={restoringId === device.id}
+                  >
+                    {restoringId === device.id ? "Restoring..." : "Restore"}
+                  </button>
+                  <button
+                    className="btn btn-danger"
+                    onClick={() => {
+                      if (
+                        confirm(
+                          `Permanently delete "${device.name}" and all of its transactions? This cannot be undone.`
+                        )
+                      ) {
+                        onPurge(device.id);
+                      }
+                    }}
+                    disabled={purgingId === device.id}
+                  >
+                    {purgingId === device.id ? "Purging..." : "Purge"}
+                  </button>
+                </div>
+              )
+            ) : editingId === device.id ? (
+              <div className="device-actions">
                 <button
                   className="btn btn-primary"
-                  onClick={() => onActivate(device.id)}
-                  disabled={activatingId === device.id}
+                  onClick={() => handleSave(device)}
+                  disabled={saving}
                 >
-                  {activatingId === device.id ? "Activating..." : "Activate"}
+                  {saving ? "Saving..." : "Save"}
                 </button>
-              ) : (
                 <button
-                  className="btn btn-danger"
-                  onClick={() => onDeactivate(device.id)}
-                  disabled={deactivatingId === device.id}
+                  className="btn btn-secondary"
+                  onClick={() => setEditingId(null)}
+                  disabled={saving}
                 >
-                  {deactivatingId === device.id
-                    ? "Deactivating..."
-                    : "Deactivate"}
+                  Cancel
                 </button>
-              )}
-              <button
-                className="btn btn-delete"
-                onClick={() => {
-                  if (
-                    confirm(`Are you sure you want to delete "${device.name}"?`)
-                  ) {
-                    onDelete(device.id);
-                  }
-                }}
-                disabled={deletingId === device.id}
-              >
-                {deletingId === device.id ? "Deleting..." : "Delete"}
-              </button>
-            </div>
+              </div>
+            ) : (
+              canOperate && (
+                <div className="device-actions">
+                  {device.status === "active" ? (
+                    <button
+                      className="btn btn-danger"
+                      onClick={() => onDeactivate(device.id)}
+                      disabled={deactivatingId === device.id}
+                    >
+                      {deactivatingId === device.id
+                        ? "Deactivating..."
+                        : "Deactivate"}
+                    </button>
+                  ) : (
+                    DEVICE_TRANSITIONS[device.status].includes("active") && (
+                      <button
+                        className="btn btn-primary"
+                        onClick={() => onActivate(device.id)}
+                        disabled={activatingId === device.id}
+                      >
+                        {activatingId === device.id
+                          ? "Activating..."
+                          : "Activate"}
+                      </button>
+                    )
+                  )}
+                  {DEVICE_TRANSITIONS[device.status].length > 0 && (
+                    <select
+                      className="status-select"
+                      value=""
+                      onChange={(e) =>
+                        handleTransition(device, e.target.value as DeviceStatus)
+                      }
+                      disabled={transitioningId === device.id}
+                      aria-label="Change status"
+                    >
+                      <option value="" disabled>
+                        {transitioningId === device.id
+                          ? "Moving..."
+                          : "Move to..."}
+                      </option>
+                      {DEVICE_TRANSITIONS[device.status].map((status) => (
+                        <option key={status} value={status}>
+                          {formatStatus(status)}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {canAdminister && (
+                    <button
+                      className="btn btn-delete"
+                      onClick={() => {
+                        if (
+                          confirm(
+                            `Archive "${device.name}"? Its transactions will be kept.`
+                          )
+                        ) {
+                          onArchive(device.id);
+                        }
+                      }}
+                      disabled={archivingId === device.id}
+                    >
+                      {archivingId === device.id ? "Archiving..." : "Archive"}
+                    </button>
+                  )}
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => startEditing(device)}
+                  >
+                    Edit
+                  </button>
+                </div>
+              )
+            )}
 
             <div className="device-meta">
               <small>ID: {device.id.substring(0, 8)}...</small>
               <small>
                 Created: {new Date(device.createdAt).toLocaleDateString()}
               </small>
+              {onShowHistory && (
+                <button
+                  className="link-button"
+                  onClick={() => onShowHistory(device.id)}
+                >
+                  History
+                </button>
+              )}
             </div>
           </div>
         ))}
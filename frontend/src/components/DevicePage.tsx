@@ -0,0 +1,419 @@
+import { useMemo } from "react";
+import type { Device, DeviceStatus, TransactionFilters } from "../services/api";
+import { transactionApi } from "../services/api";
+import { DEVICE_TRANSITIONS } from "../constants";
+import {
+  DASHBOARD_RANGES,
+  findRange,
+  sumGroups,
+  useDeviceStats,
+} from "../hooks/useDashboard";
+import {
+  useDevice,
+  useDeviceHistory,
+  useTransactions,
+} from "../hooks/useDevices";
+import { filtersFromQuery, filtersToQuery, navigate } from "../hooks/useRoute";
+import { DeviceHistory } from "./DeviceHistory";
+import { Distribution, VolumeChart } from "./DashboardView";
+import { Link } from "./Link";
+import { TransactionView } from "./TransactionView";
+import "../styles/DashboardView.css";
+import "../styles/DeviceList.css";
+import "../styles/DevicePage.css";
+
+interface DevicePageProps {
+  deviceId: string;
+  // Transaction filters and the stats range, as in the URL
+  query: URLSearchParams;
+  onQueryChange: (query: URLSearchParams) => void;
+  canOperate: boolean;
+  canAdminister: boolean;
+}
+
+const formatStatus = (status: string) =>
+  status.charAt(0).toUpperCase() + status.slice(1);
+
+const formatTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : "Never";
+
+const DeviceDetails = ({ device }: { device: Device }) => (
+  <dl className="device-details">
+    <dt>ID</dt>
+    <dd className="device-details-id">{device.id}</dd>
+    <dt>Type</dt>
+    <dd>{device.deviceType.replace(/_/g, " ")}</dd>
+    <dt>Address</dt>
+    <dd>
+      {device.ipAddress}
+      {device.port !== null && `:${device.port}`}
+    </dd>
+    <dt>Last seen</dt>
+    <dd>{formatTime(device.lastSeenAt)}</dd>
+    <dt>Probe</dt>
+    <dd>
+      {device.reachable === null
+        ? "Not probed yet"
+        : device.reachable
+        ? `Reachable · ${device.latencyMs} ms`
+        : "Unreachable"}
+      {device.probedAt && ` (${formatTime(device.probedAt)})`}
+    </dd>
+    <dt>Simulation</dt>
+    <dd>
+      {device.minInterval !== null && device.maxInterval !== null
+        ? `Every ${device.minInterval}-${device.maxInterval} ms`
+        : "Device type default"}
+      {device.burstMode && ", bursts"}
+      {device.schedule === "business_hours" && ", business hours only"}
+    </dd>
+    <dt>Created</dt>
+    <dd>{formatTime(device.createdAt)}</dd>
+    <dt>Updated</dt>
+    <dd>{formatTime(device.updatedAt)}</dd>
+    {device.deletedAt && (
+      <>
+        <dt>Archived</dt>
+        <dd>{formatTime(device.deletedAt)}</dd>
+      </>
+    )}
+  </dl>
+);
+
+export const DevicePage = ({
+  deviceId,
+  query,
+  onQueryChange,
+  canOperate,
+  canAdminister,
+}: DevicePageProps) => {
+  const filters = useMemo(() => filtersFromQuery(query), [query]);
+  const range = findRange(query.get("range"));
+
+  const {
+    device,
+    error,
+    notFound,
+    pending,
+    applyDeviceEvent,
+    activate,
+    deactivate,
+    transition,
+    archive,
+    restore,
+    purge,
+  } = useDevice(deviceId);
+
+  const {
+    transactions,
+    loading: txnsLoading,
+    loadingOlder,
+    error: txnsError,
+    pagination,
+    hasMore,
+    live,
+    loadOlder,
+  } = useTransactions(deviceId, 3000, {
+    filters,
+    onDeviceEvent: applyDeviceEvent,
+  });
+
+  const {
+    stats,
+    loading: statsLoading,
+    error: statsError,
+  } = useDeviceStats(deviceId, range);
+
+  // The change history is only visible to operators
+  const history = useDeviceHistory(
+    canOperate ? deviceId : undefined,
+    device?.updatedAt
+  );
+
+  const totals = new Map(stats ? sumGroups(stats) : []);
+  const granted = totals.get("access_granted") ?? 0;
+  const denied = totals.get("access_denied") ?? 0;
+  const decided = granted + denied;
+
+  const handleFiltersChange = (next: TransactionFilters) => {
+    onQueryChange(filtersToQuery(next, query));
+  };
+
+  const handleRangeChange = (key: string) => {
+    const next = new URLSearchParams(query);
+    next.set("range", key);
+    onQueryChange(next);
+  };
+
+  // Ask for an optional reason; cancelling the prompt cancels the change
+  const handleTransition = (status: DeviceStatus) => {
+    if (!device) return;
+    const reason = prompt(
+      `Move "${device.name}" to ${status}. Reason (optional):`
+    );
+    if (reason === null) return;
+    transition(status, reason.trim() || undefined);
+  };
+
+  const handleArchive = () => {
+    if (!device) return;
+    if (confirm(`Archive "${device.name}"? Its transactions will be kept.`)) {
+      archive();
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!device) return;
+    if (
+      !confirm(
+        `Permanently delete "${device.name}" and all of its transactions? This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+    const result = await purge();
+    if (!result.error) navigate("/");
+  };
+
+  const handleExport = async (format: "csv" | "ndjson") => {
+    window.location.assign(
+      await transactionApi.getExportUrl(format, { ...filters, deviceId })
+    );
+  };
+
+  if (notFound) {
+    return (
+      <div className="device-page">
+        <div className="section device-page-missing">
+          <h2 className="section-title">Device not found</h2>
+          <p>It may have been purged, or the link is wrong.</p>
+          <Link to="/">← All devices</Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!device) {
+    return (
+      <div className="device-page">
+        <div className="section">
+          {error ? (
+            <div className="error-banner">{error}</div>
+          ) : (
+            <div className="loading">Loading device...</div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="device-page">
+      <div className="section device-page-header">
+        <Link to="/" className="device-page-back">
+          ← All devices
+        </Link>
+        <div className="device-page-title">
+          <h2>{device.name}</h2>
+          {device.deletedAt ? (
+            <span className="status-badge status-archived">Archived</span>
+          ) : (
+            <span className={`status-badge status-${device.status}`}>
+              {formatStatus(device.status)}
+            </span>
+          )}
+          {device.lastSeenAt && (
+            <span
+              className={`connectivity ${
+                device.online ? "connectivity-online" : "connectivity-offline"
+              }`}
+            >
+              {device.online ? "Online" : "Offline"}
+            </span>
+          )}
+        </div>
+
+        {error && <div className="error-banner">{error}</div>}
+
+        {device.deletedAt
+          ? canAdminister && (
+              <div className="device-actions">
+                <button
+                  className="btn btn-primary"
+                  onClick={restore}
+                  disabled={pending !== null}
+                >
+                  {pending === "restore" ? "Restoring..." : "Restore"}
+                </button>
+                <button
+                  className="btn btn-danger"
+                  onClick={handlePurge}
+                  disabled={pending !== null}
+                >
+                  {pending === "purge" ? "Purging..." : "Purge"}
+                </button>
+              </div>
+            )
+          : canOperate && (
+              <div className="device-actions">
+                {device.status === "active" ? (
+                  <button
+                    className="btn btn-danger"
+                    onClick={deactivate}
+                    disabled={pending !== null}
+                  >
+                    {pending === "deactivate"
+                      ? "Deactivating..."
+                      : "Deactivate"}
+                  </button>
+                ) : (
+                  DEVICE_TRANSITIONS[device.status].includes("active") && (
+                    <button
+                      className="btn btn-primary"
+                      onClick={activate}
+                      disabled={pending !== null}
+                    >
+                      {pending === "activate" ? "Activating..." : "Activate"}
+                    </button>
+                  )
+                )}
+                {DEVICE_TRANSITIONS[device.status].length > 0 && (
+                  <select
+                    className="status-select"
+                    value=""
+                    onChange={(e) =>
+                      handleTransition(e.target.value as DeviceStatus)
+                    }
+                    disabled={pending !== null}
+                    aria-label="Change status"
+                  >
+                    <option value="" disabled>
+                      {pending === "transition"
+                        ? "Changing..."
+                        : "Change status..."}
+                    </option>
+                    {DEVICE_TRANSITIONS[device.status].map((status) => (
+                      <option key={status} value={status}>
+                        {formatStatus(status)}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {canAdminister && (
+                  <button
+                    className="btn btn-delete"
+                    onClick={handleArchive}
+                    disabled={pending !== null}
+                  >
+                    {pending === "archive" ? "Archiving..." : "Archive"}
+                  </button>
+                )}
+              </div>
+            )}
+      </div>
+
+      <div className="device-page-grid">
+        <div className="section">
+          <h2 className="section-title">Details</h2>
+          <DeviceDetails device={device} />
+        </div>
+
+        <div className="section">
+          <h2 className="section-title">
+            Activity
+            <span className="device-page-ranges">
+              {DASHBOARD_RANGES.map((option) => (
+                <button
+                  key={option.key}
+                  className={`btn ${option === range ? "btn-primary" : ""}`}
+                  onClick={() => handleRangeChange(option.key)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </span>
+          </h2>
+
+          {statsError && <div className="error-banner">{statsError}</div>}
+
+          <div className="dashboard-cards">
+            <div className="stat-card">
+              <span className="stat-value">{stats?.total ?? "–"}</span>
+              <span className="stat-label">
+                Events{statsLoading && " · refreshing..."}
+              </span>
+            </div>
+            <div className="stat-card">
+              <span className="stat-value">
+                {decided > 0 ? `${Math.round((denied / decided) * 100)}%` : "–"}
+              </span>
+              <span className="stat-label">
+                Denied ({denied} denied / {granted} granted)
+              </span>
+              <span className="ratio-bar">
+                <span
+                  style={{
+                    width: decided > 0 ? `${(granted / decided) * 100}%` : "0",
+                  }}
+                />
+              </span>
+            </div>
+          </div>
+
+          {stats && <VolumeChart stats={stats} />}
+          {stats && (
+            <>
+              <h3 className="top-list-title">Event types</h3>
+              <Distribution stats={stats} />
+            </>
+          )}
+          <h3 className="top-list-title">Top users</h3>
+          {stats && stats.topUsernames.length > 0 ? (
+            <ol className="top-list">
+              {stats.topUsernames.map((entry) => (
+                <li key={entry.username}>
+                  <span>{entry.username}</span>
+                  <span>{entry.count}</span>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="chart-empty">No events in this range</p>
+          )}
+        </div>
+
+        {canOperate && (
+          <div className="section device-page-wide">
+            <DeviceHistory
+              deviceName={device.name}
+              events={history.events}
+              loading={history.loading}
+              error={history.error}
+              hasMore={history.hasMore}
+              onLoadMore={history.loadMore}
+            />
+          </div>
+        )}
+
+        <div className="section device-page-wide">
+          <TransactionView
+            transactions={transactions}
+            loading={txnsLoading}
+            deviceName={device.name}
+            live={live}
+            error={txnsError}
+            filters={filters}
+            onFiltersChange={handleFiltersChange}
+            hasMore={hasMore}
+            loadingOlder={loadingOlder}
+            onLoadOlder={loadOlder}
+            onExport={handleExport}
+          />
+          <div className="device-page-total">
+            Total transactions: {pagination.total}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
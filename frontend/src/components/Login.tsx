@@ -0,0 +1,69 @@
+import { useState } from "react";
+import "../styles/Login.css";
+
+interface LoginProps {
+  onLogin: (username: string, password: string) => Promise<unknown>;
+  error?: string | null;
+}
+
+export const Login = ({ onLogin, error }: LoginProps) => {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) return;
+
+    setSubmitting(true);
+    try {
+      await onLogin(username.trim(), password);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="login-container">
+      <form className="login-form" onSubmit={handleSubmit}>
+        <h1>🔐 Device Management System</h1>
+        <p>Sign in to manage and monitor devices</p>
+
+        <div className="login-field">
+          <label htmlFor="username">Username</label>
+          <input
+            type="text"
+            id="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+            disabled={submitting}
+          />
+        </div>
+
+        <div className="login-field">
+          <label htmlFor="password">Password</label>
+          <input
+            type="password"
+            id="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            disabled={submitting}
+          />
+        </div>
+
+        {error && <div className="login-error">{error}</div>}
+
+        <button
+          type="submit"
+          className="btn btn-primary"
+          disabled={submitting || !username.trim() || !password}
+        >
+          {submitting ? "Signing in..." : "Sign In"}
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -1,17 +1,224 @@
-import type { Transaction } from "../services/api";
+import { useEffect, useRef, useState } from "react";
+import type { Transaction, TransactionFilters } from "../services/api";
+import { DEVICE_TYPES, EVENT_TYPES } from "../constants";
 import "../styles/TransactionView.css";
 
 interface TransactionViewProps {
   transactions: Transaction[];
   loading: boolean;
   deviceName?: string;
+  live?: boolean;
+  error?: string | null;
+  filters?: TransactionFilters;
+  onFiltersChange?: (filters: TransactionFilters) => void;
+  hasMore?: boolean;
+  loadingOlder?: boolean;
+  onLoadOlder?: () => void;
+  onExport?: (format: "csv" | "ndjson") => void;
 }
 
+// Convert between ISO timestamps and datetime-local input values
+const toInputValue = (iso?: string) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+};
+
+const toIsoValue = (value: string) =>
+  value ? new Date(value).toISOString() : undefined;
+
+const TransactionFilterBar = ({
+  filters,
+  onApply,
+}: {
+  filters: TransactionFilters;
+  onApply: (filters: TransactionFilters) => void;
+}) => {
+  const [draft, setDraft] = useState({
+    from: toInputValue(filters.from),
+    to: toInputValue(filters.to),
+    eventType: filters.eventType || [],
+    username: filters.username || filters.usernamePrefix || "",
+    prefixMatch: !!filters.usernamePrefix,
+    deviceType: filters.deviceType || "",
+    sort: filters.sort || "desc",
+  });
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setDraft((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+  };
+
+  const toggleEventType = (type: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      eventType: prev.eventType.includes(type)
+        ? prev.eventType.filter((t) => t !== type)
+        : [...prev.eventType, type],
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const username = draft.username.trim() || undefined;
+    onApply({
+      from: toIsoValue(draft.from),
+      to: toIsoValue(draft.to),
+      eventType: draft.eventType.length ? draft.eventType : undefined,
+      username: draft.prefixMatch ? undefined : username,
+      usernamePrefix: draft.prefixMatch ? username : undefined,
+      deviceType: draft.deviceType || undefined,
+      sort: draft.sort === "asc" ? "asc" : undefined,
+    });
+  };
+
+  const handleReset = () => {
+    setDraft({
+      from: "",
+      to: "",
+      eventType: [],
+      username: "",
+      prefixMatch: false,
+      deviceType: "",
+      sort: "desc",
+    });
+    onApply({});
+  };
+
+  return (
+    <form className="transaction-filters" onSubmit={handleSubmit}>
+      <div className="filter-row">
+        <label>
+          From
+          <input
+            type="datetime-local"
+            name="from"
+            value={draft.from}
+            onChange={handleChange}
+          />
+        </label>
+        <label>
+          To
+          <input
+            type="datetime-local"
+            name="to"
+            value={draft.to}
+            onChange={handleChange}
+          />
+        </label>
+        <label>
+          Device Type
+          <select
+            name="deviceType"
+            value={draft.deviceType}
+            onChange={handleChange}
+          >
+            <option value="">All</option>
+            {DEVICE_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type.replace(/_/g, " ").toUpperCase()}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="filter-row">
+        <label>
+          Username
+          <input
+            type="text"
+            name="username"
+            value={draft.username}
+            onChange={handleChange}
+            placeholder="e.g., john_doe"
+          />
+        </label>
+        <label className="filter-checkbox">
+          <input
+            type="checkbox"
+            checked={draft.prefixMatch}
+            onChange={(e) =>
+              setDraft((prev) => ({ ...prev, prefixMatch: e.target.checked }))
+            }
+          />
+          Prefix match
+        </label>
+        <label>
+          Sort
+          <select name="sort" value={draft.sort} onChange={handleChange}>
+            <option value="desc">Newest first</option>
+            <option value="asc">Oldest first</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="filter-event-types">
+        {EVENT_TYPES.map((type) => (
+          <button
+            key={type}
+            type="button"
+            className={`badge badge-${type} ${
+              draft.eventType.includes(type) ? "selected" : ""
+            }`}
+            onClick={() => toggleEventType(type)}
+          >
+            {type.replace(/_/g, " ")}
+          </button>
+        ))}
+      </div>
+
+      <div className="filter-actions">
+        <button type="submit" className="btn btn-primary">
+          Apply
+        </button>
+        <button
+          type="button"
+          className="btn btn-secondary"
+          onClick={handleReset}
+        >
+          Reset
+        </button>
+      </div>
+    </form>
+  );
+};
+
 export const TransactionView = ({
   transactions,
   loading,
   deviceName,
+  live = false,
+  error,
+  filters = {},
+  onFiltersChange,
+  hasMore = false,
+  loadingOlder = false,
+  onLoadOlder,
+  onExport,
 }: TransactionViewProps) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const olderLabel = filters.sort === "asc" ? "Load newer" : "Load older";
+
+  // Load the next page when the end of the table scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !onLoadOlder || !hasMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) onLoadOlder();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [onLoadOlder, hasMore]);
+
   return (
     <div className="transaction-view-container">
       <div className="transaction-header">
@@ -21,9 +228,26 @@ export const TransactionView = ({
         <div className="transaction-count">
           {loading && <span className="loading-indicator">Updating...</span>}
           <span className="count">{transactions.length} transactions</span>
+          {onExport && (
+            <div className="export-actions">
+              <button onClick={() => onExport("csv")}>Export CSV</button>
+              <button onClick={() => onExport("ndjson")}>Export NDJSON</button>
+            </div>
+          )}
         </div>
       </div>
 
+      {onFiltersChange && (
+        // Remount when the filters change from outside, e.g. going back
+        <TransactionFilterBar
+          key={JSON.stringify(filters)}
+          filters={filters}
+          onApply={onFiltersChange}
+        />
+      )}
+
+      {error && <div className="error-banner">{error}</div>}
+
       {transactions.length === 0 ? (
         <div className="empty-state">
           <p>No transactions yet.</p>
@@ -59,12 +283,24 @@ export const TransactionView = ({
               ))}
             </tbody>
           </table>
+          {onLoadOlder && hasMore && (
+            <div ref={sentinelRef} className="load-older">
+              <button
+                className="btn btn-secondary"
+                onClick={onLoadOlder}
+                disabled={loadingOlder}
+              >
+                {loadingOlder ? "Loading..." : olderLabel}
+              </button>
+            </div>
+          )}
         </div>
       )}
 
       <div className="transaction-footer">
         <small>
-          Auto-updating every 3 seconds • {new Date().toLocaleTimeString()}
+          {live ? "Live updates" : "Auto-updating every 3 seconds"} •{" "}
+          {new Date().toLocaleTimeString()}
         </small>
       </div>
     </div>
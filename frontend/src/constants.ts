@@ -0,0 +1,26 @@
+import type { DeviceStatus } from "../../backend/src/constants";
+
+export const DEVICE_TYPES = ["access_controller", "face_reader", "anpr"];
+
+export const EVENT_TYPES = [
+  "access_granted",
+  "access_denied",
+  "face_match",
+  "plate_read",
+  "unauthorized_access",
+];
+
+// Statuses each status may move to; decommissioned is final
+export const DEVICE_TRANSITIONS: Record<DeviceStatus, DeviceStatus[]> = {
+  provisioning: ["active", "inactive", "decommissioned"],
+  active: ["inactive", "maintenance", "faulted"],
+  inactive: ["active", "maintenance", "decommissioned"],
+  maintenance: ["active", "inactive", "decommissioned"],
+  faulted: ["maintenance", "inactive"],
+  decommissioned: [],
+};
+
+export const ALERT_SEVERITIES = ["info", "warning", "critical"] as const;
+
+// Ordered from least to most privileged
+export const ROLES = ["viewer", "operator", "admin"] as const;
@@ -0,0 +1,143 @@
+import { useState, useCallback } from "react";
+import type {
+  Alert,
+  AlertEvent,
+  AlertRule,
+  CreateAlertRuleBody,
+} from "../services/api";
+import { alertApi } from "../services/api";
+
+const ALERT_LIMIT = 100;
+
+// Unresolved alerts and the rules that raise them
+export const useAlerts = () => {
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAlerts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const [alertResult, ruleResult] = await Promise.all([
+      alertApi.getAlerts({
+        status: "open,acknowledged",
+        limit: ALERT_LIMIT,
+      }),
+      alertApi.getRules(),
+    ]);
+    if (alertResult.error || ruleResult.error) {
+      setError(alertResult.error || ruleResult.error || null);
+    } else {
+      setAlerts(alertResult.data || []);
+      setRules(ruleResult.data || []);
+    }
+    setLoading(false);
+  }, []);
+
+  // Replace an alert in the list, dropping it once resolved
+  const applyAlert = useCallback((alert: Alert) => {
+    setAlerts((prev) => {
+      if (alert.status === "resolved") {
+        return prev.filter((a) => a.id !== alert.id);
+      }
+      return [alert, ...prev.filter((a) => a.id !== alert.id)].sort(
+        (a, b) =>
+          new Date(b.lastTriggeredAt).getTime() -
+          new Date(a.lastTriggeredAt).getTime()
+      );
+    });
+  }, []);
+
+  const acknowledgeAlert = useCallback(
+    async (id: string) => {
+      setError(null);
+      const result = await alertApi.acknowledgeAlert(id);
+      if (result.error) {
+        setError(result.error);
+        if (result.code === "ALERT_NOT_FOUND") {
+          setAlerts((prev) => prev.filter((a) => a.id !== id));
+        }
+        return { error: result.error };
+      }
+      if (result.data) applyAlert(result.data.alert);
+      return { data: result.data?.alert };
+    },
+    [applyAlert]
+  );
+
+  const resolveAlert = useCallback(
+    async (id: string) => {
+      setError(null);
+      const result = await alertApi.resolveAlert(id);
+      if (result.error) {
+        setError(result.error);
+        if (
+          result.code === "ALERT_NOT_FOUND" ||
+          result.code === "ALERT_RESOLVED"
+        ) {
+          setAlerts((prev) => prev.filter((a) => a.id !== id));
+        }
+        return { error: result.error };
+      }
+      if (result.data) applyAlert(result.data.alert);
+      return { data: result.data?.alert };
+    },
+    [applyAlert]
+  );
+
+  const createRule = useCallback(async (data: CreateAlertRuleBody) => {
+    const result = await alertApi.createRule(data);
+    if (result.error) {
+      return { error: result.error };
+    }
+    const rule = result.data;
+    if (rule) setRules((prev) => [...prev, rule]);
+    return { data: rule };
+  }, []);
+
+  const setRuleEnabled = useCallback(async (id: string, enabled: boolean) => {
+    setError(null);
+    const result = await alertApi.updateRule(id, { enabled });
+    if (result.error) {
+      setError(result.error);
+      return { error: result.error };
+    }
+    const rule = result.data?.rule;
+    if (rule) setRules((prev) => prev.map((r) => (r.id === id ? rule : r)));
+    return { data: rule };
+  }, []);
+
+  // Deleting a rule also deletes its alerts
+  const deleteRule = useCallback(async (id: string) => {
+    setError(null);
+    const result = await alertApi.deleteRule(id);
+    if (result.error) {
+      setError(result.error);
+      return { error: result.error };
+    }
+    setRules((prev) => prev.filter((r) => r.id !== id));
+    setAlerts((prev) => prev.filter((a) => a.ruleId !== id));
+    return { data: result.data };
+  }, []);
+
+  // Apply an alert change pushed over the event stream
+  const applyAlertEvent = useCallback(
+    (event: AlertEvent) => applyAlert(event.alert),
+    [applyAlert]
+  );
+
+  return {
+    alerts,
+    rules,
+    loading,
+    error,
+    fetchAlerts,
+    applyAlertEvent,
+    acknowledgeAlert,
+    resolveAlert,
+    createRule,
+    setRuleEnabled,
+    deleteRule,
+  };
+};
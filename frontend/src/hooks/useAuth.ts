@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Principal, Role } from "../services/api";
+import { authApi } from "../services/api";
+import { ROLES } from "../constants";
+
+// Check whether a principal has at least the given role
+export const hasRole = (principal: Principal | null, role: Role) =>
+  principal !== null && ROLES.indexOf(principal.role) >= ROLES.indexOf(role);
+
+export const useAuth = () => {
+  const [principal, setPrincipal] = useState<Principal | null>(null);
+  // A stored token is checked against the server before it is trusted
+  const [checking, setChecking] = useState(() => authApi.hasToken());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => authApi.onUnauthorized(() => setPrincipal(null)), []);
+
+  // Restore the session from a stored token
+  useEffect(() => {
+    if (!authApi.hasToken()) return;
+
+    const restore = async () => {
+      const result = await authApi.getCurrentPrincipal();
+      setPrincipal(result.data ?? null);
+      setChecking(false);
+    };
+    restore();
+  }, []);
+
+  const login = useCallback(async (username: string, password: string) => {
+    setError(null);
+    const result = await authApi.login(username, password);
+    if (result.error) {
+      setError(result.error);
+      return { error: result.error };
+    } else {
+      const user = result.data?.user;
+      if (user) {
+        setPrincipal({
+          kind: "user",
+          id: user.id,
+          name: user.username,
+          role: user.role,
+        });
+      }
+      return { data: user };
+    }
+  }, []);
+
+  const logout = useCallback(() => {
+    authApi.logout();
+    setPrincipal(null);
+  }, []);
+
+  return {
+    principal,
+    checking,
+    error,
+    login,
+    logout,
+  };
+};
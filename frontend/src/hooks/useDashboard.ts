@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { DeviceStats, TransactionStats } from "../services/api";
+import { statsApi } from "../services/api";
+import { useEventStream } from "./useDevices";
+
+export interface DashboardRange {
+  // Identifies the range in the URL
+  key: string;
+  label: string;
+  // Length of the range in ms, ending now
+  duration: number;
+  bucket: TransactionStats["bucket"];
+}
+
+export const DASHBOARD_RANGES: DashboardRange[] = [
+  { key: "1h", label: "1 hour", duration: 60 * 60 * 1000, bucket: "minute" },
+  {
+    key: "24h",
+    label: "24 hours",
+    duration: 24 * 60 * 60 * 1000,
+    bucket: "hour",
+  },
+  {
+    key: "7d",
+    label: "7 days",
+    duration: 7 * 24 * 60 * 60 * 1000,
+    bucket: "hour",
+  },
+  {
+    key: "30d",
+    label: "30 days",
+    duration: 30 * 24 * 60 * 60 * 1000,
+    bucket: "day",
+  },
+];
+
+// The range named in the URL, defaulting to the last 24 hours
+export const findRange = (key: string | null) =>
+  DASHBOARD_RANGES.find((range) => range.key === key) ?? DASHBOARD_RANGES[1];
+
+// Total count per group across every bucket, largest first
+export const sumGroups = (stats: TransactionStats) => {
+  const totals = new Map<string, number>();
+  for (const bucket of stats.buckets) {
+    for (const [group, count] of Object.entries(bucket.groups ?? {})) {
+      totals.set(group, (totals.get(group) ?? 0) + count);
+    }
+  }
+  return [...totals.entries()].sort((a, b) => b[1] - a[1]);
+};
+
+// The range's bounds, ending now, as stats query parameters
+const rangeQuery = (range: DashboardRange) => {
+  const to = new Date();
+  const from = new Date(to.getTime() - range.duration);
+  return { from: from.toISOString(), to: to.toISOString() };
+};
+
+// How often to refresh while events stream in, and without the stream
+const LIVE_REFRESH_INTERVAL = 5000;
+const POLL_INTERVAL = 30000;
+
+// Aggregates for the dashboard over the range ending now. Refreshes soon
+// after new transactions or device changes arrive on the event stream.
+export const useDashboard = (range: DashboardRange) => {
+  const [volume, setVolume] = useState<TransactionStats | null>(null);
+  const [activity, setActivity] = useState<TransactionStats | null>(null);
+  const [devices, setDevices] = useState<DeviceStats | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<Date | null>(null);
+  const stale = useRef(false);
+
+  const fetchStats = useCallback(async () => {
+    stale.current = false;
+    setLoading(true);
+    setError(null);
+
+    const query = { ...rangeQuery(range), bucket: range.bucket };
+    const [volumeResult, activityResult, deviceResult] = await Promise.all([
+      statsApi.getTransactionStats({ ...query, groupBy: "eventType" }),
+      statsApi.getTransactionStats({ ...query, groupBy: "deviceId" }),
+      statsApi.getDeviceStats(),
+    ]);
+
+    const failed = volumeResult.error || activityResult.error;
+    if (failed || deviceResult.error) {
+      setError(failed || deviceResult.error || null);
+    } else {
+      setVolume(volumeResult.data ?? null);
+      setActivity(activityResult.data ?? null);
+      setDevices(deviceResult.data ?? null);
+      setUpdatedAt(new Date(query.to));
+    }
+    setLoading(false);
+  }, [range]);
+
+  const { connected: live } = useEventStream(
+    {},
+    {
+      onTransaction: () => {
+        stale.current = true;
+      },
+      onDeviceEvent: () => {
+        stale.current = true;
+      },
+      onResync: () => {
+        stale.current = true;
+      },
+    }
+  );
+
+  useEffect(() => {
+    const fetch = async () => {
+      await fetchStats();
+    };
+    fetch();
+  }, [fetchStats]);
+
+  // Batch streamed changes into one refresh every few seconds; poll only
+  // while the stream is unavailable
+  useEffect(() => {
+    const interval = setInterval(
+      () => {
+        if (!live || stale.current) fetchStats();
+      },
+      live ? LIVE_REFRESH_INTERVAL : POLL_INTERVAL
+    );
+    return () => clearInterval(interval);
+  }, [fetchStats, live]);
+
+  return {
+    volume,
+    activity,
+    devices,
+    loading,
+    error,
+    live,
+    updatedAt,
+    refresh: fetchStats,
+  };
+};
+
+// Transaction statistics of one device over the range ending now, split by
+// event type. Refreshes like the dashboard, from the device's own events.
+export const useDeviceStats = (deviceId: string, range: DashboardRange) => {
+  const [stats, setStats] = useState<TransactionStats | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stale = useRef(false);
+
+  const fetchStats = useCallback(async () => {
+    stale.current = false;
+    setLoading(true);
+    setError(null);
+    const result = await statsApi.getTransactionStats({
+      ...rangeQuery(range),
+      bucket: range.bucket,
+      groupBy: "eventType",
+      deviceId,
+    });
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setStats(result.data ?? null);
+    }
+    setLoading(false);
+  }, [deviceId, range]);
+
+  const { connected: live } = useEventStream(
+    { deviceId },
+    {
+      onTransaction: () => {
+        stale.current = true;
+      },
+      onResync: () => {
+        stale.current = true;
+      },
+    }
+  );
+
+  useEffect(() => {
+    const fetch = async () => {
+      await fetchStats();
+    };
+    fetch();
+  }, [fetchStats]);
+
+  useEffect(() => {
+    const interval = setInterval(
+      () => {
+        if (!live || stale.current) fetchStats();
+      },
+      live ? LIVE_REFRESH_INTERVAL : POLL_INTERVAL
+    );
+    return () => clearInterval(interval);
+  }, [fetchStats, live]);
+
+  return { stats, loading, error, refresh: fetchStats };
+};
@@ -1,8 +1,59 @@
-import { useState, useEffect, useCallback } from "react";
-import type { Device, Transaction } from "../services/api";
-import { deviceApi, transactionApi } from "../services/api";
+import { useState, useEffect, useCallback, useRef } from "react";
+import type {
+  AlertEvent,
+  AuditEvent,
+  BulkAction,
+  Device,
+  DeviceEvent,
+  DeviceImport,
+  DeviceStatus,
+  PaginationInfo,
+  Transaction,
+  TransactionFilters,
+} from "../services/api";
+import {
+  auditApi,
+  deviceApi,
+  transactionApi,
+  streamApi,
+} from "../services/api";
 
-export const useDevices = () => {
+const TRANSACTION_LIMIT = 100;
+const HISTORY_LIMIT = 50;
+const MAX_RECONNECT_DELAY = 30000;
+
+// Check a streamed transaction against the filters the stream can't apply
+const matchesFilters = (
+  transaction: Transaction,
+  filters: TransactionFilters
+) => {
+  const timestamp = new Date(transaction.timestamp);
+  if (filters.from && timestamp < new Date(filters.from)) return false;
+  if (filters.to && timestamp > new Date(filters.to)) return false;
+  if (filters.username && transaction.username !== filters.username) {
+    return false;
+  }
+  if (
+    filters.usernamePrefix &&
+    !transaction.username.startsWith(filters.usernamePrefix)
+  ) {
+    return false;
+  }
+  if (
+    filters.deviceType &&
+    transaction.device?.deviceType !== filters.deviceType
+  ) {
+    return false;
+  }
+  return true;
+};
+
+// A device the server no longer knows was purged elsewhere; drop its card
+const withoutDevice = (id: string) => (devices: Device[]) =>
+  devices.filter((d) => d.id !== id);
+
+export const useDevices = (options: { includeArchived?: boolean } = {}) => {
+  const { includeArchived = false } = options;
   const [devices, setDevices] = useState<Device[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -10,14 +61,14 @@ export const useDevices = () => {
   const fetchDevices = useCallback(async () => {
     setLoading(true);
     setError(null);
-    const result = await deviceApi.getDevices();
+    const result = await deviceApi.getDevices({ includeArchived });
     if (result.error) {
       setError(result.error);
     } else {
       setDevices(result.data || []);
     }
     setLoading(false);
-  }, []);
+  }, [includeArchived]);
 
   const createDevice = useCallback(
     async (name: string, deviceType: string, ipAddress: string) => {
@@ -41,10 +92,50 @@ export const useDevices = () => {
     []
   );
 
+  const importDevices = useCallback(async (data: DeviceImport) => {
+    setError(null);
+    const result = await deviceApi.importDevices(data);
+    if (result.error) {
+      return { error: result.error };
+    } else {
+      const newDevices = result.data?.devices || [];
+      const ids = new Set(newDevices.map((d) => d.id));
+      setDevices((prev) => [
+        ...newDevices,
+        ...prev.filter((d) => !ids.has(d.id)),
+      ]);
+      return { data: result.data };
+    }
+  }, []);
+
+  const updateDevice = useCallback(
+    async (
+      id: string,
+      data: Partial<Pick<Device, "name" | "deviceType" | "ipAddress">>
+    ) => {
+      setError(null);
+      const result = await deviceApi.updateDevice(id, data);
+      if (result.error) {
+        if (result.code === "DEVICE_NOT_FOUND") setDevices(withoutDevice(id));
+        return { error: result.error };
+      } else {
+        const updatedDevice = result.data?.device;
+        if (updatedDevice) {
+          setDevices((prev) =>
+            prev.map((d) => (d.id === id ? updatedDevice : d))
+          );
+        }
+        return { data: updatedDevice };
+      }
+    },
+    []
+  );
+
   const activateDevice = useCallback(async (id: string) => {
     setError(null);
     const result = await deviceApi.activateDevice(id);
     if (result.error) {
+      if (result.code === "DEVICE_NOT_FOUND") setDevices(withoutDevice(id));
       setError(result.error);
       return { error: result.error };
     } else {
@@ -62,6 +153,7 @@ export const useDevices = () => {
     setError(null);
     const result = await deviceApi.deactivateDevice(id);
     if (result.error) {
+      if (result.code === "DEVICE_NOT_FOUND") setDevices(withoutDevice(id));
       setError(result.error);
       return { error: result.error };
     } else {
@@ -75,116 +167,662 @@ export const useDevices = () => {
     }
   }, []);
 
-  const deleteDevice = useCallback(async (id: string) => {
+  const transitionDevice = useCallback(
+    async (id: string, status: DeviceStatus, reason?: string) => {
+      setError(null);
+      const result = await deviceApi.transitionDevice(id, { status, reason });
+      if (result.error) {
+        if (result.code === "DEVICE_NOT_FOUND") setDevices(withoutDevice(id));
+        setError(result.error);
+        return { error: result.error };
+      } else {
+        const updatedDevice = result.data?.device;
+        if (updatedDevice) {
+          setDevices((prev) =>
+            prev.map((d) => (d.id === id ? updatedDevice : d))
+          );
+        }
+        return { data: updatedDevice };
+      }
+    },
+    []
+  );
+
+  const bulkAction = useCallback(
+    async (action: BulkAction, ids: string[]) => {
+      setError(null);
+      const result = await deviceApi.bulkAction(action, { ids });
+      if (result.error) {
+        return { error: result.error };
+      } else {
+        const changed = new Map(
+          (result.data?.devices || []).map((d) => [d.id, d])
+        );
+        setDevices((prev) =>
+          action === "delete" && !includeArchived
+            ? prev.filter((d) => !changed.has(d.id))
+            : prev.map((d) => changed.get(d.id) ?? d)
+        );
+        return { data: result.data };
+      }
+    },
+    [includeArchived]
+  );
+
+  const archiveDevice = useCallback(
+    async (id: string) => {
+      setError(null);
+      const result = await deviceApi.archiveDevice(id);
+      if (result.error) {
+        if (result.code === "DEVICE_NOT_FOUND") setDevices(withoutDevice(id));
+        setError(result.error);
+        return { error: result.error };
+      } else {
+        const archivedDevice = result.data?.device;
+        setDevices((prev) =>
+          includeArchived && archivedDevice
+            ? prev.map((d) => (d.id === id ? archivedDevice : d))
+            : withoutDevice(id)(prev)
+        );
+        return { data: archivedDevice };
+      }
+    },
+    [includeArchived]
+  );
+
+  const restoreDevice = useCallback(async (id: string) => {
+    setError(null);
+    const result = await deviceApi.restoreDevice(id);
+    if (result.error) {
+      if (result.code === "DEVICE_NOT_FOUND") setDevices(withoutDevice(id));
+      setError(result.error);
+      return { error: result.error };
+    } else {
+      const restoredDevice = result.data?.device;
+      if (restoredDevice) {
+        setDevices((prev) =>
+          prev.map((d) => (d.id === id ? restoredDevice : d))
+        );
+      }
+      return { data: restoredDevice };
+    }
+  }, []);
+
+  const purgeDevice = useCallback(async (id: string) => {
     setError(null);
-    const result = await deviceApi.deleteDevice(id);
+    const result = await deviceApi.purgeDevice(id);
     if (result.error) {
+      if (result.code === "DEVICE_NOT_FOUND") setDevices(withoutDevice(id));
       setError(result.error);
       return { error: result.error };
     } else {
-      setDevices((prev) => prev.filter((d) => d.id !== id));
+      setDevices(withoutDevice(id));
       return { data: result.data };
     }
   }, []);
 
+  // Apply a device change pushed over the event stream
+  const applyDeviceEvent = useCallback(
+    (event: DeviceEvent) => {
+      setDevices((prev) => {
+        if (
+          event.action === "purged" ||
+          (event.action === "archived" && !includeArchived)
+        ) {
+          return prev.filter((d) => d.id !== event.device.id);
+        }
+        if (!prev.some((d) => d.id === event.device.id)) {
+          return [event.device, ...prev];
+        }
+        return prev.map((d) => (d.id === event.device.id ? event.device : d));
+      });
+    },
+    [includeArchived]
+  );
+
   return {
     devices,
     loading,
     error,
     fetchDevices,
+    applyDeviceEvent,
     createDevice,
+    importDevices,
+    updateDevice,
     activateDevice,
     deactivateDevice,
-    deleteDevice,
+    transitionDevice,
+    bulkAction,
+    archiveDevice,
+    restoreDevice,
+    purgeDevice,
   };
 };
 
-export const useTransactions = (
-  deviceId?: string,
-  pollInterval: number = 3000
-) => {
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+// One device, archived or not, for its detail page. Status changes made
+// here update it directly; changes made elsewhere arrive as device events.
+export const useDevice = (id: string) => {
+  const [device, setDevice] = useState<Device | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [pagination, setPagination] = useState({
-    total: 0,
-    limit: 50,
-    offset: 0,
-  });
+  const [notFound, setNotFound] = useState(false);
+  const [pending, setPending] = useState<string | null>(null);
 
-  const fetchTransactions = useCallback(async () => {
+  const fetchDevice = useCallback(async () => {
     setLoading(true);
     setError(null);
-
-    let result;
-    if (deviceId) {
-      result = await transactionApi.getDeviceTransactions(deviceId, {
-        limit: 50,
-        offset: 0,
-      });
+    const result = await deviceApi.getDevice(id);
+    if (result.error) {
+      if (result.code === "DEVICE_NOT_FOUND") {
+        setDevice(null);
+        setNotFound(true);
+      } else {
+        setError(result.error);
+      }
     } else {
-      result = await transactionApi.getTransactions({
-        limit: 50,
-        offset: 0,
-      });
+      setDevice(result.data ?? null);
+      setNotFound(false);
     }
+    setLoading(false);
+  }, [id]);
 
-    if (result.error) {
-      setError(result.error);
-    } else {
-      setTransactions(result.data || []);
-      if (result.pagination) {
-        setPagination(result.pagination);
+  // Run a change, tracking which one is in flight for the buttons
+  const run = useCallback(
+    async (
+      action: string,
+      request: () => Promise<{
+        data?: { device?: Device; message?: string };
+        error?: string;
+        code?: string;
+      }>
+    ) => {
+      setPending(action);
+      setError(null);
+      const result = await request();
+      setPending(null);
+      if (result.error) {
+        if (result.code === "DEVICE_NOT_FOUND") {
+          setDevice(null);
+          setNotFound(true);
+        }
+        setError(result.error);
+        return { error: result.error };
       }
+      const updatedDevice = result.data?.device;
+      if (updatedDevice) setDevice(updatedDevice);
+      return { data: updatedDevice };
+    },
+    []
+  );
+
+  const activate = useCallback(
+    () => run("activate", () => deviceApi.activateDevice(id)),
+    [run, id]
+  );
+
+  const deactivate = useCallback(
+    () => run("deactivate", () => deviceApi.deactivateDevice(id)),
+    [run, id]
+  );
+
+  const transition = useCallback(
+    (status: DeviceStatus, reason?: string) =>
+      run("transition", () =>
+        deviceApi.transitionDevice(id, { status, reason })
+      ),
+    [run, id]
+  );
+
+  const archive = useCallback(
+    () => run("archive", () => deviceApi.archiveDevice(id)),
+    [run, id]
+  );
+
+  const restore = useCallback(
+    () => run("restore", () => deviceApi.restoreDevice(id)),
+    [run, id]
+  );
+
+  const purge = useCallback(async () => {
+    const result = await run("purge", () => deviceApi.purgeDevice(id));
+    if (!result.error) {
+      setDevice(null);
+      setNotFound(true);
     }
-    setLoading(false);
-  }, [deviceId]);
+    return result;
+  }, [run, id]);
+
+  // Apply a change to this device pushed over the event stream
+  const applyDeviceEvent = useCallback(
+    (event: DeviceEvent) => {
+      if (event.device.id !== id) return;
+      if (event.action === "purged") {
+        setDevice(null);
+        setNotFound(true);
+      } else {
+        setDevice(event.device);
+      }
+    },
+    [id]
+  );
 
-  // Auto-poll for transactions
   useEffect(() => {
-    // Fetch immediately on mount
-    const controller = new AbortController();
     const fetch = async () => {
+      await fetchDevice();
+    };
+    fetch();
+  }, [fetchDevice]);
+
+  return {
+    device,
+    loading,
+    error,
+    notFound,
+    pending,
+    fetchDevice,
+    applyDeviceEvent,
+    activate,
+    deactivate,
+    transition,
+    archive,
+    restore,
+    purge,
+  };
+};
+
+interface StreamHandlers {
+  onTransaction?: (transaction: Transaction) => void;
+  onDeviceEvent?: (event: DeviceEvent) => void;
+  onAlertEvent?: (event: AlertEvent) => void;
+  onResync?: () => void;
+}
+
+interface StreamSubscriber {
+  deviceId?: string;
+  eventTypes: string[];
+  handlers: { current: StreamHandlers };
+  setConnected: (connected: boolean) => void;
+}
+
+// The app shares one event stream, since browsers allow only a few open
+// connections per origin. It opens for the first subscriber and closes
+// after the last; each subscriber's filters are applied as events arrive.
+const streamSubscribers = new Set<StreamSubscriber>();
+let streamConnected = false;
+let closeStream: (() => void) | undefined;
+
+const setStreamConnected = (connected: boolean) => {
+  streamConnected = connected;
+  streamSubscribers.forEach((subscriber) => subscriber.setConnected(connected));
+};
+
+// Hand an event to the subscribers whose filters it passes, the same way
+// the server filters a stream opened with them
+const dispatch = (
+  deliver: (handlers: StreamHandlers) => void,
+  event: { deviceId?: string | null; eventType?: string }
+) => {
+  streamSubscribers.forEach(({ deviceId, eventTypes, handlers }) => {
+    if (deviceId && event.deviceId !== deviceId) return;
+    if (
+      event.eventType !== undefined &&
+      eventTypes.length &&
+      !eventTypes.includes(event.eventType)
+    ) {
+      return;
+    }
+    deliver(handlers.current);
+  });
+};
+
+const openStream = () => {
+  let source: EventSource | undefined;
+  let lastEventId: string | undefined;
+  let reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+  let attempts = 0;
+  let closed = false;
+
+  const connect = async () => {
+    const url = await streamApi.getStreamUrl({ lastEventId });
+    if (closed) return;
+    source = new EventSource(url);
+
+    const track = (e: MessageEvent) => {
+      if (e.lastEventId) lastEventId = e.lastEventId;
+    };
+
+    source.onopen = () => {
+      attempts = 0;
+      setStreamConnected(true);
+    };
+    source.addEventListener("transaction", (e) => {
+      track(e);
+      const transaction: Transaction = JSON.parse(e.data);
+      dispatch((handlers) => handlers.onTransaction?.(transaction), {
+        deviceId: transaction.deviceId,
+        eventType: transaction.eventType,
+      });
+    });
+    source.addEventListener("device", (e) => {
+      track(e);
+      const event: DeviceEvent = JSON.parse(e.data);
+      dispatch((handlers) => handlers.onDeviceEvent?.(event), {
+        deviceId: event.device?.id,
+      });
+    });
+    source.addEventListener("alert", (e) => {
+      track(e);
+      const event: AlertEvent = JSON.parse(e.data);
+      dispatch((handlers) => handlers.onAlertEvent?.(event), {
+        deviceId: event.alert?.deviceId,
+      });
+    });
+    source.addEventListener("resync", () => {
+      streamSubscribers.forEach(({ handlers }) =>
+        handlers.current.onResync?.()
+      );
+    });
+    source.onerror = () => {
+      setStreamConnected(false);
+      // The browser retries by itself (sending Last-Event-ID) unless the
+      // connection was closed for good, e.g. once its URL token expired,
+      // then we reopen it with a fresh token and backoff
+      if (source?.readyState === EventSource.CLOSED) {
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY);
+        attempts += 1;
+        reconnectTimeout = setTimeout(connect, delay);
+      }
+    };
+  };
+
+  connect();
+  return () => {
+    closed = true;
+    clearTimeout(reconnectTimeout);
+    source?.close();
+    streamConnected = false;
+  };
+};
+
+const subscribeToStream = (subscriber: StreamSubscriber) => {
+  streamSubscribers.add(subscriber);
+  subscriber.setConnected(streamConnected);
+  if (!closeStream) closeStream = openStream();
+
+  return () => {
+    streamSubscribers.delete(subscriber);
+    if (streamSubscribers.size > 0) return;
+    closeStream?.();
+    closeStream = undefined;
+  };
+};
+
+// Events from the shared stream, narrowed to one device and/or event types
+export const useEventStream = (
+  options: { deviceId?: string; eventType?: string[] },
+  handlers: StreamHandlers
+) => {
+  const [connected, setConnected] = useState(streamConnected);
+  const handlersRef = useRef(handlers);
+  const { deviceId } = options;
+  const eventTypeKey = options.eventType?.join(",") ?? "";
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined") return;
+
+    return subscribeToStream({
+      deviceId,
+      eventTypes: eventTypeKey ? eventTypeKey.split(",") : [],
+      handlers: handlersRef,
+      setConnected,
+    });
+  }, [deviceId, eventTypeKey]);
+
+  return { connected };
+};
+
+// Merge a freshly fetched first page into the list, keeping the older rows
+// after it. Returns null when the page no longer overlaps the list.
+const mergeFirstPage = (page: Transaction[], prev: Transaction[]) => {
+  const lastId = page[page.length - 1]?.id;
+  const index = prev.findIndex((t) => t.id === lastId);
+  return index === -1 ? null : [...page, ...prev.slice(index + 1)];
+};
+
+export const useTransactions = (
+  deviceId?: string,
+  pollInterval: number = 3000,
+  options: {
+    filters?: TransactionFilters;
+    onDeviceEvent?: (event: DeviceEvent) => void;
+    onAlertEvent?: (event: AlertEvent) => void;
+  } = {}
+) => {
+  const { filters } = options;
+  const [page, setPage] = useState<{
+    transactions: Transaction[];
+    pagination: PaginationInfo;
+  }>({
+    transactions: [],
+    pagination: {
+      total: 0,
+      limit: TRANSACTION_LIMIT,
+      offset: 0,
+      nextCursor: null,
+    },
+  });
+  const [loading, setLoading] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const streamedCount = useRef(0);
+  const olderLoaded = useRef(false);
+
+  const fetchPage = useCallback(
+    (cursor?: string) =>
+      deviceId
+        ? transactionApi.getDeviceTransactions(deviceId, {
+            ...filters,
+            limit: TRANSACTION_LIMIT,
+            cursor,
+          })
+        : transactionApi.getTransactions({
+            ...filters,
+            limit: TRANSACTION_LIMIT,
+            cursor,
+          }),
+    [deviceId, filters]
+  );
+
+  // Fetch the newest page. Unless reset, older pages already loaded are
+  // kept as long as the new page still overlaps them.
+  const fetchTransactions = useCallback(
+    async (reset: boolean = false) => {
       setLoading(true);
       setError(null);
+      if (reset) {
+        streamedCount.current = 0;
+        olderLoaded.current = false;
+      }
 
-      let result;
-      if (deviceId) {
-        result = await transactionApi.getDeviceTransactions(deviceId, {
-          limit: 100,
-          offset: 0,
-        });
+      const result = await fetchPage();
+
+      if (result.error) {
+        setError(result.error);
       } else {
-        result = await transactionApi.getTransactions({
-          limit: 100,
-          offset: 0,
+        const transactions = result.data || [];
+        const pagination = result.pagination;
+        setPage((prev) => {
+          const merged = reset
+            ? null
+            : mergeFirstPage(transactions, prev.transactions);
+          if (!pagination) {
+            return { ...prev, transactions: merged || transactions };
+          }
+          return merged
+            ? {
+                transactions: merged,
+                pagination: {
+                  ...pagination,
+                  nextCursor: prev.pagination.nextCursor,
+                },
+              }
+            : { transactions, pagination };
         });
       }
+      setLoading(false);
+    },
+    [fetchPage]
+  );
+
+  // Append the page after the current cursor for "load older" scrolling
+  const loadOlder = useCallback(async () => {
+    const cursor = page.pagination.nextCursor;
+    if (!cursor || loadingOlder) return;
+
+    setLoadingOlder(true);
+    const result = await fetchPage(cursor);
+
+    if (result.error) {
+      setError(result.error);
+    } else {
+      olderLoaded.current = true;
+      const older = result.data || [];
+      setPage((prev) => {
+        // Drop the page if the list was replaced while it was loading
+        if (prev.pagination.nextCursor !== cursor) return prev;
+        const ids = new Set(prev.transactions.map((t) => t.id));
+        return {
+          transactions: [
+            ...prev.transactions,
+            ...older.filter((t) => !ids.has(t.id)),
+          ],
+          pagination: {
+            ...prev.pagination,
+            nextCursor: result.pagination?.nextCursor ?? null,
+          },
+        };
+      });
+    }
+    setLoadingOlder(false);
+  }, [fetchPage, page.pagination.nextCursor, loadingOlder]);
+
+  // Prepend transactions pushed over the event stream. Oldest-first lists
+  // already hold the oldest page, so new transactions don't belong there.
+  const { connected: live } = useEventStream(
+    { deviceId, eventType: filters?.eventType },
+    {
+      onTransaction: (transaction) => {
+        if (filters?.sort === "asc") return;
+        if (filters && !matchesFilters(transaction, filters)) return;
+        setPage((prev) =>
+          prev.transactions.some((t) => t.id === transaction.id)
+            ? prev
+            : {
+                transactions: [transaction, ...prev.transactions],
+                pagination: {
+                  ...prev.pagination,
+                  total: (prev.pagination.total ?? 0) + 1,
+                },
+              }
+        );
+
+        // Trim back to one page once a page worth has streamed in, unless
+        // the user has scrolled back through older pages
+        streamedCount.current += 1;
+        if (
+          streamedCount.current >= TRANSACTION_LIMIT &&
+          !olderLoaded.current
+        ) {
+          fetchTransactions(true);
+        }
+      },
+      onDeviceEvent: options.onDeviceEvent,
+      onAlertEvent: options.onAlertEvent,
+      onResync: () => fetchTransactions(),
+    }
+  );
+
+  // Start from the newest page whenever the device or filters change
+  useEffect(() => {
+    const fetch = async () => {
+      await fetchTransactions(true);
+    };
+
+    fetch();
+  }, [fetchTransactions]);
+
+  // Poll only while the live stream is unavailable
+  useEffect(() => {
+    if (live) return;
+
+    const interval = setInterval(() => fetchTransactions(), pollInterval);
+    return () => clearInterval(interval);
+  }, [fetchTransactions, pollInterval, live]);
+
+  return {
+    transactions: page.transactions,
+    loading,
+    loadingOlder,
+    error,
+    pagination: page.pagination,
+    hasMore: page.pagination.nextCursor !== null,
+    live,
+    loadOlder,
+    refetch: fetchTransactions,
+  };
+};
+
+// Change history of one device. Pass the device's updatedAt as version to
+// refetch whenever the device changes.
+export const useDeviceHistory = (deviceId?: string, version?: string) => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(
+    async (offset: number = 0) => {
+      if (!deviceId) return;
 
+      setLoading(true);
+      setError(null);
+      const result = await auditApi.getDeviceHistory(deviceId, {
+        limit: HISTORY_LIMIT,
+        offset,
+      });
       if (result.error) {
         setError(result.error);
       } else {
-        setTransactions(result.data || []);
-        if (result.pagination) {
-          setPagination(result.pagination);
-        }
+        const page = result.data || [];
+        setEvents((prev) => (offset === 0 ? page : [...prev, ...page]));
+        setTotal(result.pagination?.total ?? 0);
       }
       setLoading(false);
-    };
+    },
+    [deviceId]
+  );
 
-    fetch();
-    const interval = setInterval(fetch, pollInterval);
-    return () => {
-      controller.abort();
-      clearInterval(interval);
+  useEffect(() => {
+    const fetch = async () => {
+      await fetchHistory();
     };
-  }, [deviceId, pollInterval]);
+    fetch();
+  }, [fetchHistory, version]);
+
+  const loadMore = useCallback(
+    () => fetchHistory(events.length),
+    [fetchHistory, events.length]
+  );
 
   return {
-    transactions,
+    events,
     loading,
     error,
-    pagination,
-    refetch: fetchTransactions,
+    hasMore: events.length < total,
+    loadMore,
   };
 };
@@ -0,0 +1,108 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import type { TransactionFilters } from "../services/api";
+
+export type Route =
+  | { name: "devices" }
+  | { name: "dashboard" }
+  | { name: "device"; id: string }
+  | { name: "not_found" };
+
+// Fired on pushState/replaceState, which unlike back/forward don't emit
+// popstate themselves
+const NAVIGATE_EVENT = "app:navigate";
+
+const subscribe = (listener: () => void) => {
+  window.addEventListener("popstate", listener);
+  window.addEventListener(NAVIGATE_EVENT, listener);
+  return () => {
+    window.removeEventListener("popstate", listener);
+    window.removeEventListener(NAVIGATE_EVENT, listener);
+  };
+};
+
+const getLocation = () => window.location.pathname + window.location.search;
+
+// Go to a path within the app. Replace the history entry for changes that
+// shouldn't get their own back button step.
+export const navigate = (to: string, options: { replace?: boolean } = {}) => {
+  if (to === getLocation()) return;
+  if (options.replace) {
+    window.history.replaceState(null, "", to);
+  } else {
+    window.history.pushState(null, "", to);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+};
+
+export const matchRoute = (pathname: string): Route => {
+  const path = pathname.replace(/\/+$/, "") || "/";
+  if (path === "/" || path === "/devices") return { name: "devices" };
+  if (path === "/dashboard") return { name: "dashboard" };
+
+  const device = path.match(/^\/devices\/([^/]+)$/);
+  if (device) return { name: "device", id: decodeURIComponent(device[1]) };
+
+  return { name: "not_found" };
+};
+
+// Append a query string to a path, leaving it off when empty
+export const withQuery = (path: string, query: URLSearchParams) => {
+  const search = query.toString();
+  return search ? `${path}?${search}` : path;
+};
+
+// The current route and query string, updated on navigation and back/forward
+export const useRoute = () => {
+  const location = useSyncExternalStore(subscribe, getLocation);
+  const [pathname, search = ""] = location.split("?", 2);
+
+  const route = useMemo(() => matchRoute(pathname), [pathname]);
+  const query = useMemo(() => new URLSearchParams(search), [search]);
+
+  // Replace the query string of the current path, e.g. when filters change
+  const setQuery = useCallback(
+    (next: URLSearchParams, options: { replace?: boolean } = {}) =>
+      navigate(withQuery(pathname, next), options),
+    [pathname]
+  );
+
+  return { route, query, setQuery };
+};
+
+// Transaction filters as query parameters, so filtered views can be linked
+const FILTER_PARAMS = [
+  "from",
+  "to",
+  "username",
+  "usernamePrefix",
+  "deviceType",
+] as const;
+
+export const filtersFromQuery = (query: URLSearchParams) => {
+  const filters: TransactionFilters = {};
+  for (const param of FILTER_PARAMS) {
+    const value = query.get(param);
+    if (value) filters[param] = value;
+  }
+  const eventType = query.get("eventType");
+  if (eventType) filters.eventType = eventType.split(",");
+  if (query.get("sort") === "asc") filters.sort = "asc";
+  return filters;
+};
+
+// Write filters into a query string, keeping its other parameters
+export const filtersToQuery = (
+  filters: TransactionFilters,
+  query: URLSearchParams = new URLSearchParams()
+) => {
+  const next = new URLSearchParams(query);
+  for (const param of [...FILTER_PARAMS, "eventType", "sort"] as const) {
+    const value = filters[param];
+    if (value === undefined || value.length === 0) {
+      next.delete(param);
+    } else {
+      next.set(param, Array.isArray(value) ? value.join(",") : value);
+    }
+  }
+  return next;
+};
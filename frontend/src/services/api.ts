@@ -1,5 +1,27 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import axios from "axios";
+// Request and error types come straight from the backend, so these modules
+// must not pull in anything beyond zod and the shared constants
+import type {
+  AlertQuery,
+  BulkSelectionBody,
+  CreateAlertRuleBody,
+  CreateDeviceBody,
+  HistoryQuery,
+  PaginationQuery,
+  StatsQuery,
+  TransitionBody,
+  UpdateAlertRuleBody,
+  UpdateDeviceBody,
+  UrlTokenBody,
+} from "../../../backend/src/schemas";
+import type { ErrorBody, ErrorCode } from "../../../backend/src/errors";
+import type {
+  AlertRuleType,
+  AlertStatus,
+  DeviceStatus,
+  Role,
+} from "../../../backend/src/constants";
 
 // In Docker with Nginx, use /api/ prefix to proxy to backend
 // In dev, use direct backend URL
@@ -14,14 +36,99 @@ const apiClient = axios.create({
   },
 });
 
+const TOKEN_STORAGE_KEY = "authToken";
+let unauthorizedListener: (() => void) | undefined;
+
+// Attach the stored access token to every request
+apiClient.interceptors.request.use((config) => {
+  const token = localStorage.getItem(TOKEN_STORAGE_KEY);
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// Drop the session once the server stops accepting its token
+apiClient.interceptors.response.use(undefined, (error) => {
+  if (
+    error.response?.status === 401 &&
+    localStorage.getItem(TOKEN_STORAGE_KEY)
+  ) {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    unauthorizedListener?.();
+  }
+  return Promise.reject(error);
+});
+
+export type { AlertStatus, CreateAlertRuleBody, DeviceStatus, ErrorCode, Role };
+
+// EventSource and download links can't send headers, so they carry a
+// short-lived token for their one path instead of the session token.
+// Without a session the URL goes out without one and is rejected.
+const getUrlToken = async (path: UrlTokenBody["path"]) => {
+  if (!localStorage.getItem(TOKEN_STORAGE_KEY)) return undefined;
+  try {
+    const response = await apiClient.post<{ token: string }>(
+      "/auth/url-token",
+      { path }
+    );
+    return response.data.token;
+  } catch {
+    return undefined;
+  }
+};
+
+// Prefer per-field validation messages over the generic error
+const getErrorMessage = (error: any, fallback: string): string => {
+  const data: Partial<ErrorBody> | undefined = error.response?.data;
+  if (data?.details?.length) {
+    return data.details
+      .map((d) => (d.field ? `${d.field}: ${d.message}` : d.message))
+      .join("; ");
+  }
+  return data?.error || fallback;
+};
+
+// Stable error code callers can branch on instead of parsing the message
+const getErrorCode = (error: any): ErrorCode | undefined =>
+  error.response?.data?.code;
+
+export interface Principal {
+  kind: "user" | "apiKey";
+  id: string;
+  name: string;
+  role: Role;
+}
+
+export interface User {
+  id: string;
+  username: string;
+  role: Role;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Device {
   id: string;
   name: string;
   deviceType: string;
   ipAddress: string;
-  status: "active" | "inactive";
+  status: DeviceStatus;
   createdAt: string;
   updatedAt: string;
+  deletedAt: string | null;
+  minInterval: number | null;
+  maxInterval: number | null;
+  burstMode: boolean;
+  schedule: "always" | "business_hours";
+  // Connectivity, as reported by heartbeats; separate from status
+  lastSeenAt: string | null;
+  online: boolean;
+  // Latest TCP probe of ipAddress:port; null until first probed
+  port: number | null;
+  reachable: boolean | null;
+  latencyMs: number | null;
+  probedAt: string | null;
 }
 
 export interface Transaction {
@@ -31,46 +138,268 @@ export interface Transaction {
   eventType: string;
   timestamp: string;
   payload?: Record<string, any>;
+  // Set for events pushed by physical devices
+  eventId: string | null;
   createdAt: string;
   device?: Device;
 }
 
-export interface PaginationInfo {
+export interface DeviceEvent {
+  action:
+    | "created"
+    | "updated"
+    | "activated"
+    | "deactivated"
+    | "transitioned"
+    | "archived"
+    | "restored"
+    | "purged"
+    | "online"
+    | "offline"
+    | "reachable"
+    | "unreachable";
+  device: Device;
+}
+
+export interface AuditEvent {
+  id: string;
+  actorType: Principal["kind"];
+  actorId: string | null;
+  actorName: string;
+  action: DeviceEvent["action"];
+  deviceId: string;
+  before: Device | null;
+  after: Device | null;
+  // Why the device changed status, when given
+  reason: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+export type AlertSeverity = "info" | "warning" | "critical";
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  // Set for event and threshold rules
+  eventType: string | null;
+  // Null when the rule watches every device
+  deviceId: string | null;
+  // Threshold rules trigger at this many events within windowSeconds;
+  // silence rules after windowSeconds without activity
+  threshold: number | null;
+  windowSeconds: number | null;
+  groupBy: "username" | "device" | null;
+  severity: AlertSeverity;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  deviceId: string | null;
+  // What the alert is about, e.g. a device ID or "username:alice"
+  key: string;
+  severity: AlertSeverity;
+  message: string;
+  status: AlertStatus;
+  // Times the rule triggered while this alert was unresolved
+  occurrences: number;
+  triggeredAt: string;
+  lastTriggeredAt: string;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+}
+
+export interface AlertEvent {
+  action: "triggered" | "updated" | "acknowledged" | "resolved";
+  alert: Alert;
+}
+
+// CSV text with a header row, or rows as sent to createDevice
+export type DeviceImport = string | CreateDeviceBody[];
+
+export type BulkAction = "activate" | "deactivate" | "delete";
+
+export interface BulkResult {
+  message: string;
+  // Devices the action changed
+  devices: Device[];
+  // Devices it skipped, and why
+  failed: { id: string; code: ErrorCode; error: string }[];
+}
+
+export interface TransactionStats {
+  from: string;
+  to: string;
+  bucket: "minute" | "hour" | "day";
+  groupBy: "eventType" | "deviceId" | "deviceType" | null;
   total: number;
+  // Every bucket in the range, oldest first; `groups` is set when grouping
+  buckets: { start: string; count: number; groups?: Record<string, number> }[];
+  topUsernames: { username: string; count: number }[];
+  topDeniedDevices: {
+    deviceId: string;
+    name: string;
+    deviceType: string;
+    count: number;
+  }[];
+}
+
+export interface DeviceStats {
+  // Devices that aren't archived
+  total: number;
+  byStatus: Record<DeviceStatus, number>;
+  online: number;
+  archived: number;
+}
+
+export interface TransactionFilters {
+  from?: string;
+  to?: string;
+  eventType?: string[];
+  username?: string;
+  usernamePrefix?: string;
+  deviceType?: string;
+  sort?: "asc" | "desc";
+}
+
+export interface PaginationInfo {
+  // Only returned for offset requests, not when paging with a cursor
+  total?: number;
   limit: number;
   offset: number;
+  nextCursor: string | null;
 }
 
 export interface ApiResponse<T> {
   data?: T;
   error?: string;
+  code?: ErrorCode;
   pagination?: PaginationInfo;
 }
 
+// Authentication
+export const authApi = {
+  // Sign in and store the access token for later requests
+  async login(username: string, password: string) {
+    try {
+      const response = await apiClient.post<{
+        token: string;
+        expiresAt: string;
+        user: User;
+      }>("/auth/login", { username, password });
+      localStorage.setItem(TOKEN_STORAGE_KEY, response.data.token);
+      return { data: response.data };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to sign in"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+
+  // Forget the stored access token
+  logout() {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  },
+
+  hasToken() {
+    return localStorage.getItem(TOKEN_STORAGE_KEY) !== null;
+  },
+
+  // Get the user or API key the stored token belongs to
+  async getCurrentPrincipal() {
+    try {
+      const response = await apiClient.get<Principal>("/auth/me");
+      return { data: response.data };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to fetch session"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+
+  // Register a callback for when the server rejects the stored token
+  onUnauthorized(listener: () => void) {
+    unauthorizedListener = listener;
+    return () => {
+      if (unauthorizedListener === listener) unauthorizedListener = undefined;
+    };
+  },
+};
+
 // Device API endpoints
 export const deviceApi = {
   // Create a new device
-  async createDevice(
-    data: Omit<Device, "id" | "status" | "createdAt" | "updatedAt">
-  ) {
+  async createDevice(data: CreateDeviceBody) {
     try {
       const response = await apiClient.post<Device>("/devices", data);
       return { data: response.data };
     } catch (error: any) {
       return {
-        error: error.response?.data?.error || "Failed to create device",
+        error: getErrorMessage(error, "Failed to create device"),
+        code: getErrorCode(error),
       };
     }
   },
 
-  // Get all devices
-  async getDevices() {
+  // Create devices from CSV text or rows; none are created if any row fails
+  async importDevices(data: DeviceImport) {
     try {
-      const response = await apiClient.get<Device[]>("/devices");
+      const response = await apiClient.post<{
+        message: string;
+        created: number;
+        devices: Device[];
+      }>(
+        "/devices/import",
+        data,
+        typeof data === "string"
+          ? { headers: { "Content-Type": "text/csv" } }
+          : undefined
+      );
+      return { data: response.data };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to import devices"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+
+  // Activate, deactivate or archive the selected devices
+  async bulkAction(action: BulkAction, selection: BulkSelectionBody) {
+    try {
+      const response = await apiClient.post<BulkResult>(
+        `/devices/bulk/${action}`,
+        selection
+      );
       return { data: response.data };
     } catch (error: any) {
       return {
-        error: error.response?.data?.error || "Failed to fetch devices",
+        error: getErrorMessage(error, `Failed to ${action} devices`),
+        code: getErrorCode(error),
+      };
+    }
+  },
+
+  // Get all devices, optionally including archived ones
+  async getDevices(options?: { includeArchived?: boolean }) {
+    try {
+      const response = await apiClient.get<Device[]>("/devices", {
+        params: options?.includeArchived ? { includeArchived: true } : {},
+      });
+      return { data: response.data };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to fetch devices"),
+        code: getErrorCode(error),
       };
     }
   },
@@ -81,7 +410,26 @@ export const deviceApi = {
       const response = await apiClient.get<Device>(`/devices/${id}`);
       return { data: response.data };
     } catch (error: any) {
-      return { error: error.response?.data?.error || "Failed to fetch device" };
+      return {
+        error: getErrorMessage(error, "Failed to fetch device"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+
+  // Update a device's name, type or IP address
+  async updateDevice(id: string, data: UpdateDeviceBody) {
+    try {
+      const response = await apiClient.patch<{
+        message: string;
+        device: Device;
+      }>(`/devices/${id}`, data);
+      return { data: response.data };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to update device"),
+        code: getErrorCode(error),
+      };
     }
   },
 
@@ -95,7 +443,8 @@ export const deviceApi = {
       return { data: response.data };
     } catch (error: any) {
       return {
-        error: error.response?.data?.error || "Failed to activate device",
+        error: getErrorMessage(error, "Failed to activate device"),
+        code: getErrorCode(error),
       };
     }
   },
@@ -110,21 +459,71 @@ export const deviceApi = {
       return { data: response.data };
     } catch (error: any) {
       return {
-        error: error.response?.data?.error || "Failed to deactivate device",
+        error: getErrorMessage(error, "Failed to deactivate device"),
+        code: getErrorCode(error),
       };
     }
   },
 
-  // Delete a device
-  async deleteDevice(id: string) {
+  // Move a device to another lifecycle status
+  async transitionDevice(id: string, data: TransitionBody) {
+    try {
+      const response = await apiClient.post<{
+        message: string;
+        device: Device;
+      }>(`/devices/${id}/transitions`, data);
+      return { data: response.data };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to change device status"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+
+  // Archive a device, keeping its transactions
+  async archiveDevice(id: string) {
     try {
       const response = await apiClient.delete<{
         message: string;
+        device: Device;
       }>(`/devices/${id}`);
       return { data: response.data };
     } catch (error: any) {
       return {
-        error: error.response?.data?.error || "Failed to delete device",
+        error: getErrorMessage(error, "Failed to archive device"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+
+  // Restore an archived device
+  async restoreDevice(id: string) {
+    try {
+      const response = await apiClient.post<{
+        message: string;
+        device: Device;
+      }>(`/devices/${id}/restore`);
+      return { data: response.data };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to restore device"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+
+  // Permanently delete an archived device and its transactions
+  async purgeDevice(id: string) {
+    try {
+      const response = await apiClient.delete<{
+        message: string;
+      }>(`/devices/${id}/purge`);
+      return { data: response.data };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to purge device"),
+        code: getErrorCode(error),
       };
     }
   },
@@ -133,54 +532,253 @@ export const deviceApi = {
 // Transaction API endpoints
 export const transactionApi = {
   // Get all transactions with optional filtering
-  async getTransactions(options?: {
-    deviceId?: string;
-    limit?: number;
-    offset?: number;
-  }) {
+  async getTransactions(
+    options?: TransactionFilters & PaginationQuery & { deviceId?: string }
+  ) {
     try {
       const response = await apiClient.get<{
         transactions: Transaction[];
         pagination: PaginationInfo;
-      }>("/transactions", { params: options });
+      }>("/transactions", {
+        params: { ...options, eventType: options?.eventType?.join(",") },
+      });
       return {
         data: response.data.transactions,
         pagination: response.data.pagination,
       };
     } catch (error: any) {
       return {
-        error: error.response?.data?.error || "Failed to fetch transactions",
+        error: getErrorMessage(error, "Failed to fetch transactions"),
+        code: getErrorCode(error),
       };
     }
   },
 
-  // Get transactions for a specific device
+  // Build the download URL for a CSV or NDJSON export of matching transactions
+  async getExportUrl(
+    format: "csv" | "ndjson",
+    filters?: TransactionFilters & { deviceId?: string }
+  ) {
+    const params = new URLSearchParams({ format });
+    Object.entries(filters || {}).forEach(([key, value]) => {
+      if (value === undefined || value === "") return;
+      params.set(key, Array.isArray(value) ? value.join(",") : String(value));
+    });
+    const token = await getUrlToken("/transactions/export");
+    if (token) params.set("access_token", token);
+    return `${API_BASE_URL}/transactions/export?${params.toString()}`;
+  },
+
+  // Get transactions for a specific device, with the same optional filters
   async getDeviceTransactions(
     deviceId: string,
-    options?: {
-      limit?: number;
-      offset?: number;
-    }
+    options?: TransactionFilters & PaginationQuery
   ) {
     try {
       const response = await apiClient.get<{
         deviceId: string;
         transactions: Transaction[];
         pagination: PaginationInfo;
-      }>(`/devices/${deviceId}/transactions`, { params: options });
+      }>(`/devices/${deviceId}/transactions`, {
+        params: { ...options, eventType: options?.eventType?.join(",") },
+      });
       return {
         data: response.data.transactions,
         pagination: response.data.pagination,
       };
     } catch (error: any) {
       return {
-        error:
-          error.response?.data?.error || "Failed to fetch device transactions",
+        error: getErrorMessage(error, "Failed to fetch device transactions"),
+        code: getErrorCode(error),
       };
     }
   },
 };
 
+// Audit log endpoints
+export const auditApi = {
+  // Get the change history of a device, newest first
+  async getDeviceHistory(deviceId: string, options?: HistoryQuery) {
+    try {
+      const response = await apiClient.get<{
+        deviceId: string;
+        events: AuditEvent[];
+        pagination: { total: number; limit: number; offset: number };
+      }>(`/devices/${deviceId}/history`, { params: options });
+      return {
+        data: response.data.events,
+        pagination: response.data.pagination,
+      };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to fetch device history"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+};
+
+// Aggregates for the dashboard
+export const statsApi = {
+  // Count transactions per time bucket, with top usernames and devices
+  async getTransactionStats(options?: StatsQuery) {
+    try {
+      const response = await apiClient.get<TransactionStats>(
+        "/stats/transactions",
+        { params: options }
+      );
+      return { data: response.data };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to fetch transaction stats"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+
+  // Count devices by status and connectivity
+  async getDeviceStats() {
+    try {
+      const response = await apiClient.get<DeviceStats>("/stats/devices");
+      return { data: response.data };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to fetch device stats"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+};
+
+// Alert and alert rule endpoints
+export const alertApi = {
+  // Get alerts, most recently triggered first
+  async getAlerts(options?: AlertQuery) {
+    try {
+      const response = await apiClient.get<{
+        alerts: Alert[];
+        pagination: { total: number; limit: number; offset: number };
+      }>("/alerts", { params: options });
+      return {
+        data: response.data.alerts,
+        pagination: response.data.pagination,
+      };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to fetch alerts"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+
+  async acknowledgeAlert(id: string) {
+    try {
+      const response = await apiClient.post<{
+        message: string;
+        alert: Alert;
+      }>(`/alerts/${id}/acknowledge`);
+      return { data: response.data };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to acknowledge alert"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+
+  async resolveAlert(id: string) {
+    try {
+      const response = await apiClient.post<{
+        message: string;
+        alert: Alert;
+      }>(`/alerts/${id}/resolve`);
+      return { data: response.data };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to resolve alert"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+
+  async getRules() {
+    try {
+      const response = await apiClient.get<AlertRule[]>("/alert-rules");
+      return { data: response.data };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to fetch alert rules"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+
+  async createRule(data: CreateAlertRuleBody) {
+    try {
+      const response = await apiClient.post<AlertRule>("/alert-rules", data);
+      return { data: response.data };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to create alert rule"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+
+  // Rename, re-grade, enable or disable a rule
+  async updateRule(id: string, data: UpdateAlertRuleBody) {
+    try {
+      const response = await apiClient.patch<{
+        message: string;
+        rule: AlertRule;
+      }>(`/alert-rules/${id}`, data);
+      return { data: response.data };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to update alert rule"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+
+  // Delete a rule along with its alerts
+  async deleteRule(id: string) {
+    try {
+      const response = await apiClient.delete<{ message: string }>(
+        `/alert-rules/${id}`
+      );
+      return { data: response.data };
+    } catch (error: any) {
+      return {
+        error: getErrorMessage(error, "Failed to delete alert rule"),
+        code: getErrorCode(error),
+      };
+    }
+  },
+};
+
+// Real-time event stream (Server-Sent Events)
+export const streamApi = {
+  // Build the stream URL with optional filters and resume point
+  async getStreamUrl(options?: {
+    deviceId?: string;
+    eventType?: string[];
+    lastEventId?: string;
+  }) {
+    const params = new URLSearchParams();
+    if (options?.deviceId) params.set("deviceId", options.deviceId);
+    if (options?.eventType?.length) {
+      params.set("eventType", options.eventType.join(","));
+    }
+    if (options?.lastEventId) params.set("lastEventId", options.lastEventId);
+    const token = await getUrlToken("/transactions/stream");
+    if (token) params.set("access_token", token);
+
+    const query = params.toString();
+    return `${API_BASE_URL}/transactions/stream${query ? `?${query}` : ""}`;
+  },
+};
+
 // Health check
 export const healthApi = {
   async check() {